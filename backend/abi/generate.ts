@@ -0,0 +1,198 @@
+// backend/abi/generate.ts
+// Renders ./generated.ts from the compiled Hardhat artifacts. Every event of a
+// contract is kept, but only the functions the backend calls, so the bindings
+// change only when something the backend depends on does.
+
+import * as fs from "fs";
+import * as path from "path";
+
+export type AbiContract = {
+  /** export prefix: SURVEY → SURVEY_ABI */
+  id: string;
+  /** contract name; also the prefix of its `<Name>Events` type */
+  name: string;
+  source: string;
+  functions: string[];
+};
+
+export const ABI_CONTRACTS: AbiContract[] = [
+  {
+    id: "SURVEY_FACTORY",
+    name: "SurveyFactory",
+    source: "contracts/factory/SurveyFactory.sol",
+    functions: ["createSurvey", "createSurveyWithGate"],
+  },
+  {
+    id: "SURVEY",
+    name: "Survey",
+    source: "contracts/survey/Survey.sol",
+    functions: [
+      "creator",
+      "gate",
+      "startTime",
+      "endTime",
+      "finalized",
+      "prizeBalance",
+      "getQuestionsCount",
+      "getQuestion",
+      "getVotes",
+      "getParticipantsCount",
+      "participants",
+      "getParticipantResponse",
+      "addQuestion",
+      "vote",
+      "voteWithGate",
+      "finalize",
+      "fundPrize",
+      "sweepPrize",
+    ],
+  },
+  {
+    id: "ELIGIBILITY_GATE",
+    name: "ZkPassEligibilityGate",
+    source: "contracts/gate/ZkPassEligibilityGate.sol",
+    functions: ["defaultAllocator", "verify", "attest", "checkEligibility", "usedUHash"],
+  },
+];
+
+/**
+ * The only source: what `hardhat compile` writes for contracts/. The
+ * abi:generate and abi:check scripts compile first, so the output does not
+ * depend on a stale local build; artifacts-zk is an older zksolc build and
+ * is not read.
+ */
+export const ARTIFACT_DIR = "artifacts";
+
+export type AbiParam = {
+  name: string;
+  type: string;
+  indexed?: boolean;
+  components?: AbiParam[];
+};
+
+export type AbiItem = {
+  type: string;
+  name?: string;
+  inputs?: AbiParam[];
+  outputs?: AbiParam[];
+  stateMutability?: string;
+  anonymous?: boolean;
+};
+
+/** Path of the compiled artifact of `c` under `rootDir`, or null. */
+export function findArtifact(rootDir: string, c: AbiContract) {
+  const file = path.join(rootDir, ARTIFACT_DIR, c.source, `${c.name}.json`);
+  return fs.existsSync(file) ? file : null;
+}
+
+// internalType and friends are compiler detail; ethers needs none of it
+function param(p: AbiParam, withIndexed: boolean): AbiParam {
+  return {
+    name: p.name,
+    type: p.type,
+    ...(withIndexed ? { indexed: !!p.indexed } : {}),
+    ...(p.components ? { components: p.components.map((c) => param(c, false)) } : {}),
+  };
+}
+
+/** The part of an artifact's ABI the backend binds to. */
+export function selectAbi(abi: AbiItem[], c: AbiContract): AbiItem[] {
+  const out: AbiItem[] = [];
+  for (const item of abi) {
+    if (item.type === "event") {
+      out.push({
+        type: "event",
+        name: item.name,
+        anonymous: !!item.anonymous,
+        inputs: (item.inputs || []).map((p) => param(p, true)),
+      });
+    } else if (item.type === "function" && c.functions.includes(item.name || "")) {
+      out.push({
+        type: "function",
+        name: item.name,
+        stateMutability: item.stateMutability,
+        inputs: (item.inputs || []).map((p) => param(p, false)),
+        outputs: (item.outputs || []).map((p) => param(p, false)),
+      });
+    }
+  }
+  const missing = c.functions.filter((f) => !out.some((i) => i.name === f));
+  if (missing.length) throw new Error(`${c.name} has no function(s) ${missing.join(", ")}`);
+  return out;
+}
+
+const DYNAMIC = /^(string|bytes|tuple)$|\[\d*\]$/;
+
+/** The TypeScript type ethers v6 decodes a parameter into. */
+export function tsType(p: AbiParam): string {
+  // an indexed dynamic value is only its keccak256 in the topic
+  if (p.indexed && DYNAMIC.test(p.type)) return "string";
+  const arr = /^(.*)\[\d*\]$/.exec(p.type);
+  if (arr) return `${tsType({ ...p, type: arr[1], indexed: false })}[]`;
+  if (p.type === "tuple") {
+    return `{ ${(p.components || []).map((c) => `${c.name}: ${tsType(c)}`).join("; ")} }`;
+  }
+  if (/^u?int\d*$/.test(p.type)) return "bigint";
+  if (p.type === "bool") return "boolean";
+  return "string";
+}
+
+function eventsType(c: AbiContract, abi: AbiItem[]) {
+  const events = abi.filter((i) => i.type === "event");
+  if (!events.length) return `export type ${c.name}Events = {};\n`;
+  const lines = events.map((e) => {
+    const fields = (e.inputs || []).map((p) => `    ${p.name}: ${tsType(p)};`);
+    return `  ${e.name}: {\n${fields.join("\n")}\n  };`;
+  });
+  return `export type ${c.name}Events = {\n${lines.join("\n")}\n};\n`;
+}
+
+// one parameter per line keeps diffs of a changed event readable
+const inline = (v: unknown): string =>
+  Array.isArray(v)
+    ? `[${v.map(inline).join(", ")}]`
+    : v && typeof v === "object"
+    ? `{ ${Object.entries(v)
+        .map(([k, x]) => `"${k}": ${inline(x)}`)
+        .join(", ")} }`
+    : JSON.stringify(v);
+
+function renderAbi(abi: AbiItem[]) {
+  const items = abi.map((item) => {
+    const fields = Object.entries(item).map(([k, v]) =>
+      Array.isArray(v)
+        ? `    "${k}": [${v.length ? `\n${v.map((p) => `      ${inline(p)}`).join(",\n")}\n    ` : ""}]`
+        : `    "${k}": ${JSON.stringify(v)}`
+    );
+    return `  {\n${fields.join(",\n")}\n  }`;
+  });
+  return `[\n${items.join(",\n")}\n]`;
+}
+
+/** Source of ./generated.ts for the artifacts under `rootDir`. */
+export function renderAbiModule(rootDir: string, contracts = ABI_CONTRACTS) {
+  const used: string[] = [];
+  const blocks: string[] = [];
+  for (const c of contracts) {
+    const file = findArtifact(rootDir, c);
+    if (!file) {
+      throw new Error(
+        `No artifact for ${c.name} (${c.source}) under ${ARTIFACT_DIR}/; ` +
+          "run hardhat compile"
+      );
+    }
+    const abi = selectAbi(JSON.parse(fs.readFileSync(file, "utf8")).abi, c);
+    used.push(`//   ${path.relative(rootDir, file).split(path.sep).join("/")}`);
+    blocks.push(
+      `export const ${c.id}_ABI = ${renderAbi(abi)} as const;\n\n` +
+        eventsType(c, abi)
+    );
+  }
+  return (
+    "// backend/abi/generated.ts\n" +
+    "// Generated by `npm run abi:generate` from:\n" +
+    used.join("\n") +
+    "\n// Do not edit by hand.\n\n" +
+    blocks.join("\n")
+  );
+}
@@ -0,0 +1,420 @@
+// backend/abi/generated.ts
+// Generated by `npm run abi:generate` from:
+//   artifacts/contracts/factory/SurveyFactory.sol/SurveyFactory.json
+//   artifacts/contracts/survey/Survey.sol/Survey.json
+//   artifacts/contracts/gate/ZkPassEligibilityGate.sol/ZkPassEligibilityGate.json
+// Do not edit by hand.
+
+export const SURVEY_FACTORY_ABI = [
+  {
+    "type": "event",
+    "name": "SurveyDeployed",
+    "anonymous": false,
+    "inputs": [
+      { "name": "survey", "type": "address", "indexed": true },
+      { "name": "creator", "type": "address", "indexed": true },
+      { "name": "startTime", "type": "uint256", "indexed": false },
+      { "name": "endTime", "type": "uint256", "indexed": false },
+      { "name": "surveyType", "type": "uint8", "indexed": false },
+      { "name": "metaHash", "type": "bytes32", "indexed": false },
+      { "name": "plannedReward", "type": "uint256", "indexed": false },
+      { "name": "initialValue", "type": "uint256", "indexed": false }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "createSurvey",
+    "stateMutability": "payable",
+    "inputs": [
+      { "name": "surveyType", "type": "uint8" },
+      { "name": "startTime", "type": "uint256" },
+      { "name": "endTime", "type": "uint256" },
+      { "name": "metaHash", "type": "bytes32" },
+      { "name": "plannedReward", "type": "uint256" }
+    ],
+    "outputs": [
+      { "name": "surveyAddr", "type": "address" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "createSurveyWithGate",
+    "stateMutability": "payable",
+    "inputs": [
+      { "name": "surveyType", "type": "uint8" },
+      { "name": "startTime", "type": "uint256" },
+      { "name": "endTime", "type": "uint256" },
+      { "name": "metaHash", "type": "bytes32" },
+      { "name": "plannedReward", "type": "uint256" },
+      { "name": "gate", "type": "address" }
+    ],
+    "outputs": [
+      { "name": "surveyAddr", "type": "address" }
+    ]
+  }
+] as const;
+
+export type SurveyFactoryEvents = {
+  SurveyDeployed: {
+    survey: string;
+    creator: string;
+    startTime: bigint;
+    endTime: bigint;
+    surveyType: bigint;
+    metaHash: string;
+    plannedReward: bigint;
+    initialValue: bigint;
+  };
+};
+
+export const SURVEY_ABI = [
+  {
+    "type": "event",
+    "name": "Finalized",
+    "anonymous": false,
+    "inputs": [
+      { "name": "survey", "type": "address", "indexed": true },
+      { "name": "totalParticipants", "type": "uint256", "indexed": false },
+      { "name": "rulesHash", "type": "bytes32", "indexed": false },
+      { "name": "resultsHash", "type": "bytes32", "indexed": false },
+      { "name": "claimOpenAt", "type": "uint64", "indexed": false },
+      { "name": "claimDeadline", "type": "uint64", "indexed": false }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "PrizeFunded",
+    "anonymous": false,
+    "inputs": [
+      { "name": "funder", "type": "address", "indexed": true },
+      { "name": "amount", "type": "uint256", "indexed": false }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "PrizeSwept",
+    "anonymous": false,
+    "inputs": [
+      { "name": "to", "type": "address", "indexed": true },
+      { "name": "amount", "type": "uint256", "indexed": false }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "QuestionAdded",
+    "anonymous": false,
+    "inputs": [
+      { "name": "index", "type": "uint256", "indexed": true },
+      { "name": "text", "type": "string", "indexed": false }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "SurveyCreated",
+    "anonymous": false,
+    "inputs": [
+      { "name": "survey", "type": "address", "indexed": true },
+      { "name": "creator", "type": "address", "indexed": true },
+      { "name": "metaHash", "type": "bytes32", "indexed": false }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "Voted",
+    "anonymous": false,
+    "inputs": [
+      { "name": "voter", "type": "address", "indexed": true }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "addQuestion",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "_text", "type": "string" },
+      { "name": "_options", "type": "string[]" },
+      { "name": "_selectionType", "type": "uint8" }
+    ],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "creator",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "endTime",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "finalize",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "_rulesHash", "type": "bytes32" },
+      { "name": "_resultsHash", "type": "bytes32" },
+      { "name": "_claimOpenAt", "type": "uint64" },
+      { "name": "_claimDeadline", "type": "uint64" }
+    ],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "finalize",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "_rulesHash", "type": "bytes32" },
+      { "name": "_resultsHash", "type": "bytes32" }
+    ],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "finalized",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "bool" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "fundPrize",
+    "stateMutability": "payable",
+    "inputs": [],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "gate",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "getParticipantResponse",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "user", "type": "address" },
+      { "name": "questionIndex", "type": "uint256" }
+    ],
+    "outputs": [
+      { "name": "", "type": "uint256[]" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "getParticipantsCount",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "getQuestion",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "index", "type": "uint256" }
+    ],
+    "outputs": [
+      { "name": "", "type": "string" },
+      { "name": "", "type": "string[]" },
+      { "name": "", "type": "uint8" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "getQuestionsCount",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "getVotes",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "questionIndex", "type": "uint256" }
+    ],
+    "outputs": [
+      { "name": "", "type": "uint256[]" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "participants",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "", "type": "uint256" }
+    ],
+    "outputs": [
+      { "name": "", "type": "address" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "prizeBalance",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "startTime",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "sweepPrize",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "to", "type": "address" }
+    ],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "vote",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "selectedOptionsPerQuestion", "type": "uint256[][]" }
+    ],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "voteWithGate",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "selectedOptionsPerQuestion", "type": "uint256[][]" }
+    ],
+    "outputs": []
+  }
+] as const;
+
+export type SurveyEvents = {
+  Finalized: {
+    survey: string;
+    totalParticipants: bigint;
+    rulesHash: string;
+    resultsHash: string;
+    claimOpenAt: bigint;
+    claimDeadline: bigint;
+  };
+  PrizeFunded: {
+    funder: string;
+    amount: bigint;
+  };
+  PrizeSwept: {
+    to: string;
+    amount: bigint;
+  };
+  QuestionAdded: {
+    index: bigint;
+    text: string;
+  };
+  SurveyCreated: {
+    survey: string;
+    creator: string;
+    metaHash: string;
+  };
+  Voted: {
+    voter: string;
+  };
+};
+
+export const ELIGIBILITY_GATE_ABI = [
+  {
+    "type": "event",
+    "name": "EligibilityAttested",
+    "anonymous": false,
+    "inputs": [
+      { "name": "user", "type": "address", "indexed": true },
+      { "name": "survey", "type": "address", "indexed": true },
+      { "name": "uHash", "type": "bytes32", "indexed": true }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "attest",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "proof", "type": "tuple", "components": [{ "name": "taskId", "type": "bytes32" }, { "name": "schemaId", "type": "bytes32" }, { "name": "uHash", "type": "bytes32" }, { "name": "recipient", "type": "address" }, { "name": "publicFieldsHash", "type": "bytes32" }, { "name": "validator", "type": "address" }, { "name": "allocatorSignature", "type": "bytes" }, { "name": "validatorSignature", "type": "bytes" }] },
+      { "name": "survey", "type": "address" }
+    ],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "checkEligibility",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "user", "type": "address" },
+      { "name": "survey", "type": "address" }
+    ],
+    "outputs": [
+      { "name": "", "type": "bool" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "defaultAllocator",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "usedUHash",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "", "type": "bytes32" }
+    ],
+    "outputs": [
+      { "name": "", "type": "bool" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "verify",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "_proof", "type": "tuple", "components": [{ "name": "taskId", "type": "bytes32" }, { "name": "schemaId", "type": "bytes32" }, { "name": "uHash", "type": "bytes32" }, { "name": "recipient", "type": "address" }, { "name": "publicFieldsHash", "type": "bytes32" }, { "name": "validator", "type": "address" }, { "name": "allocatorSignature", "type": "bytes" }, { "name": "validatorSignature", "type": "bytes" }] }
+    ],
+    "outputs": [
+      { "name": "", "type": "bool" }
+    ]
+  }
+] as const;
+
+export type ZkPassEligibilityGateEvents = {
+  EligibilityAttested: {
+    user: string;
+    survey: string;
+    uHash: string;
+  };
+};
@@ -0,0 +1,47 @@
+// backend/abi/index.ts
+// Contract ABIs and typed event decoders. The ABIs are generated from the
+// compiled artifacts (./generate.ts); test/integration/abi-drift.test.ts fails
+// when a contract's events move away from them.
+
+import { Indexed, Interface, type InterfaceAbi } from "ethers";
+import {
+  ELIGIBILITY_GATE_ABI,
+  SURVEY_ABI,
+  SURVEY_FACTORY_ABI,
+  type SurveyEvents,
+  type SurveyFactoryEvents,
+  type ZkPassEligibilityGateEvents,
+} from "./generated";
+
+export * from "./generated";
+export { ABI_CONTRACTS, renderAbiModule } from "./generate";
+
+/** `{ name, args }` of any event in `E`, narrowed by `name`. */
+export type DecodedEvent<E> = {
+  [K in keyof E & string]: { name: K; args: E[K] };
+}[keyof E & string];
+
+export type EventLog = { topics: ReadonlyArray<string>; data: string };
+
+/**
+ * Decodes logs of one contract into plain typed objects; null for a log
+ * that is not one of its events. Throws when a known event fails to decode.
+ */
+export function createEventDecoder<E>(abi: InterfaceAbi) {
+  const iface = new Interface(abi);
+  return (log: EventLog): DecodedEvent<E> | null => {
+    const p = iface.parseLog(log);
+    if (!p) return null;
+    const args: Record<string, unknown> = {};
+    p.fragment.inputs.forEach((input, i) => {
+      const v = p.args[i];
+      args[input.name] = v instanceof Indexed ? v.hash : v;
+    });
+    return { name: p.name, args } as DecodedEvent<E>;
+  };
+}
+
+export const decodeFactoryEvent = createEventDecoder<SurveyFactoryEvents>(SURVEY_FACTORY_ABI);
+export const decodeSurveyEvent = createEventDecoder<SurveyEvents>(SURVEY_ABI);
+export const decodeGateEvent =
+  createEventDecoder<ZkPassEligibilityGateEvents>(ELIGIBILITY_GATE_ABI);
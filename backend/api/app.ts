@@ -0,0 +1,102 @@
+// backend/api/app.ts
+// Read-only query API over the indexer output directory.
+import type { AddressInfo } from "net";
+import * as http from "http";
+import express, { type NextFunction, type Request, type Response } from "express";
+import cors from "cors";
+import { createOutputReader, type OutputReader } from "./data";
+import { parseSurveyQuery, querySurveys } from "./query";
+
+const ADDR_RE = /^0x[0-9a-fA-F]{40}$/;
+
+export function createQueryApp(reader: OutputReader) {
+  const app = express();
+  app.use(cors());
+
+  app.get("/health", (_req, res) => {
+    res.json({ ok: true, chains: reader.chainIds(), surveys: reader.list().length });
+  });
+
+  // ?status=active,upcoming&creator=0x..&chainId=534351&gate=0x..|none
+  // &metaValid=true&sort=createdSec|endSec&order=asc|desc&limit=50&cursor=..
+  // status "past" stands for every status after endTime
+  app.get("/surveys", (req, res) => {
+    const q = parseSurveyQuery(req.query as Record<string, unknown>);
+    res.json(querySurveys(reader.list(), q));
+  });
+
+  function lookup(req: Request, res: Response) {
+    const chainId = Number(req.params.chainId);
+    const address = String(req.params.address).toLowerCase();
+    if (!Number.isInteger(chainId) || !ADDR_RE.test(address)) {
+      res.status(400).json({ error: "bad chainId or address" });
+      return null;
+    }
+    const card = reader
+      .list()
+      .find((c) => c.chainId === chainId && c.address.toLowerCase() === address);
+    const chain = reader.chain(chainId);
+    if (!card || !chain) {
+      res.status(404).json({ error: "survey not found" });
+      return null;
+    }
+    return { card, chain, address };
+  }
+
+  app.get("/surveys/:chainId/:address", (req, res) => {
+    const hit = lookup(req, res);
+    if (!hit) return;
+    const { card, chain, address } = hit;
+    res.json({
+      card,
+      record: chain.surveys[address] ?? null,
+      balance: chain.balances[address] ?? null,
+      ledger: chain.ledger.get(address) ?? [],
+    });
+  });
+
+  app.get("/surveys/:chainId/:address/ledger", (req, res) => {
+    const hit = lookup(req, res);
+    if (!hit) return;
+    const { chain, address } = hit;
+    const type = req.query.type ? String(req.query.type) : null;
+    const items = (chain.ledger.get(address) ?? []).filter(
+      (e) => !type || e.t === type
+    );
+    res.json({ items });
+  });
+
+  app.use((_req, res) => void res.status(404).json({ error: "not found" }));
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err?.status || 500).json({ error: String(err?.message || err) });
+  });
+  return app;
+}
+
+export type QueryApi = { url: string; server: http.Server; close(): Promise<void> };
+
+/** Serves `outDir` read-only; port 0 picks a free one. */
+export function startQueryApi(opts: {
+  outDir: string;
+  port?: number;
+  host?: string;
+}): Promise<QueryApi> {
+  const app = createQueryApp(createOutputReader(opts.outDir));
+  const host = opts.host ?? "127.0.0.1";
+  return new Promise((resolve, reject) => {
+    const server = app.listen(opts.port ?? 8789, host, (err?: Error) => {
+      if (err) return reject(err);
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${host}:${port}`,
+        server,
+        close: () =>
+          new Promise<void>((r) => {
+            server.closeAllConnections();
+            server.close(() => r());
+          }),
+      });
+    });
+    server.once("error", reject);
+  });
+}
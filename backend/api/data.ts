@@ -0,0 +1,107 @@
+// backend/api/data.ts
+// Read side of the indexer output directory. Files are re-read whenever
+// their mtime/size changes, so a running service follows the indexer.
+import * as fs from "fs";
+import * as path from "path";
+import { outputFiles, parseLedger, readJSON } from "../indexer/sinks";
+import type {
+  BalanceEntry,
+  LedgerEntry,
+  SurveyCard,
+  SurveyMap,
+} from "../indexer/types";
+
+export type ChainData = {
+  chainId: number;
+  surveys: SurveyMap;
+  balances: Record<string, BalanceEntry>;
+  /** survey → its ledger entries in chain order */
+  ledger: Map<string, LedgerEntry[]>;
+};
+
+const stamp = (p: string) => {
+  try {
+    const st = fs.statSync(p);
+    return `${st.mtimeMs}:${st.size}:${st.ino}`;
+  } catch {
+    return "missing";
+  }
+};
+
+/** Caches one parsed file and re-parses it when the file changes. */
+function cachedFile<T>(file: string, parse: (file: string) => T) {
+  let seen: string | null = null;
+  let value: T;
+  return () => {
+    const s = stamp(file);
+    if (s !== seen) {
+      value = parse(file);
+      seen = s;
+    }
+    return value;
+  };
+}
+
+function indexLedger(entries: LedgerEntry[]) {
+  const bySurvey = new Map<string, LedgerEntry[]>();
+  for (const e of entries) {
+    const k = e.survey.toLowerCase();
+    if (!bySurvey.has(k)) bySurvey.set(k, []);
+    bySurvey.get(k)!.push(e);
+  }
+  return bySurvey;
+}
+
+export function createOutputReader(outDir: string) {
+  const list = cachedFile(outputFiles(outDir).LIST, (f) =>
+    readJSON<SurveyCard[]>(f, [])
+  );
+  const chainReaders = new Map<number, () => ChainData>();
+
+  function chainReader(chainId: number) {
+    let r = chainReaders.get(chainId);
+    if (!r) {
+      const files = outputFiles(path.join(outDir, String(chainId)));
+      const surveys = cachedFile(files.SURV, (f) => readJSON<SurveyMap>(f, {}));
+      const balances = cachedFile(files.BAL, (f) => readJSON(f, {}));
+      const ledger = cachedFile(files.LEDGER, (f) => {
+        try {
+          return indexLedger(parseLedger(fs.readFileSync(f, "utf8")));
+        } catch {
+          return new Map<string, LedgerEntry[]>();
+        }
+      });
+      r = () => ({
+        chainId,
+        surveys: surveys(),
+        balances: balances(),
+        ledger: ledger(),
+      });
+      chainReaders.set(chainId, r);
+    }
+    return r;
+  }
+
+  /** Chains are the numeric partitions present in the output dir. */
+  function chainIds() {
+    try {
+      return fs
+        .readdirSync(outDir, { withFileTypes: true })
+        .filter((d) => d.isDirectory() && /^\d+$/.test(d.name))
+        .map((d) => Number(d.name));
+    } catch {
+      return [];
+    }
+  }
+
+  return {
+    outDir,
+    /** the merged cross-chain surveys.list.json */
+    list,
+    chainIds,
+    chain: (chainId: number): ChainData | null =>
+      chainIds().includes(chainId) ? chainReader(chainId)() : null,
+  };
+}
+
+export type OutputReader = ReturnType<typeof createOutputReader>;
@@ -0,0 +1,4 @@
+// backend/api/index.ts
+export * from "./data";
+export * from "./query";
+export * from "./app";
@@ -0,0 +1,169 @@
+// backend/api/query.ts
+// Filtering, sorting and cursor pagination over survey cards.
+import type { SurveyCard, SurveyStatus } from "../indexer/types";
+
+export type SortKey = "createdSec" | "endSec";
+
+export type SurveyQuery = {
+  status?: SurveyStatus[];
+  creator?: string;
+  chainId?: number[];
+  /** gate address, or "none" for ungated surveys */
+  gate?: string;
+  metaValid?: boolean;
+  sort: SortKey;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: Cursor;
+};
+
+/** Position after the last returned card: its sort value, then the tie-breakers. */
+type Cursor = { v: number; c: number; a: string };
+
+export type QueryPage = {
+  items: SurveyCard[];
+  nextCursor: string | null;
+  total: number;
+};
+
+export const MAX_LIMIT = 200;
+const STATUSES: SurveyStatus[] = [
+  "upcoming",
+  "active",
+  "awaiting_finalization",
+  "finalized",
+  "claim_open",
+  "claim_closed",
+  "swept",
+];
+/** the single status cards had before the lifecycle was split up */
+const PAST: SurveyStatus[] = STATUSES.slice(2);
+const ADDR_RE = /^0x[0-9a-fA-F]{40}$/;
+
+export type BadRequest = Error & { status: 400 };
+const badRequest = (msg: string) =>
+  Object.assign(new Error(msg), { status: 400 as const }) as BadRequest;
+
+const list = (v: unknown) =>
+  v === undefined
+    ? undefined
+    : String(v)
+        .split(",")
+        .map((x) => x.trim())
+        .filter(Boolean);
+
+export const encodeCursor = (c: Cursor) =>
+  Buffer.from(JSON.stringify(c)).toString("base64url");
+
+function decodeCursor(raw: string): Cursor {
+  try {
+    const c = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof c?.v === "number" && typeof c?.c === "number" && typeof c?.a === "string") {
+      return c;
+    }
+  } catch {}
+  throw badRequest("invalid cursor");
+}
+
+/** Validates query-string parameters; throws a 400 error on bad input. */
+export function parseSurveyQuery(q: Record<string, unknown>): SurveyQuery {
+  const status = list(q.status)?.flatMap((s) => (s === "past" ? PAST : [s]));
+  for (const s of status || []) {
+    if (!STATUSES.includes(s as SurveyStatus)) {
+      throw badRequest(`unknown status "${s}"`);
+    }
+  }
+
+  const creator = q.creator !== undefined ? String(q.creator).toLowerCase() : undefined;
+  if (creator !== undefined && !ADDR_RE.test(creator)) {
+    throw badRequest("creator must be an address");
+  }
+
+  const chainId = list(q.chainId)?.map(Number);
+  if (chainId?.some((n) => !Number.isInteger(n) || n <= 0)) {
+    throw badRequest("chainId must be a positive integer");
+  }
+
+  const gate = q.gate !== undefined ? String(q.gate).toLowerCase() : undefined;
+  if (gate !== undefined && gate !== "none" && !ADDR_RE.test(gate)) {
+    throw badRequest('gate must be an address or "none"');
+  }
+
+  let metaValid: boolean | undefined;
+  if (q.metaValid !== undefined) {
+    if (!["true", "false"].includes(String(q.metaValid))) {
+      throw badRequest("metaValid must be true or false");
+    }
+    metaValid = String(q.metaValid) === "true";
+  }
+
+  const sort = String(q.sort ?? "createdSec") as SortKey;
+  if (sort !== "createdSec" && sort !== "endSec") {
+    throw badRequest("sort must be createdSec or endSec");
+  }
+  const order = String(q.order ?? "desc");
+  if (order !== "asc" && order !== "desc") {
+    throw badRequest("order must be asc or desc");
+  }
+
+  const limit = q.limit !== undefined ? Number(q.limit) : 50;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw badRequest(`limit must be 1..${MAX_LIMIT}`);
+  }
+
+  return {
+    status: status as SurveyStatus[] | undefined,
+    creator,
+    chainId,
+    gate,
+    metaValid,
+    sort,
+    order,
+    limit,
+    cursor: q.cursor !== undefined ? decodeCursor(String(q.cursor)) : undefined,
+  };
+}
+
+function matches(c: SurveyCard, q: SurveyQuery) {
+  if (q.status && !q.status.includes(c.status)) return false;
+  if (q.creator && c.creator.toLowerCase() !== q.creator) return false;
+  if (q.chainId && !q.chainId.includes(c.chainId)) return false;
+  if (q.gate) {
+    const addr = (c.gate?.addr || "").toLowerCase();
+    if (q.gate === "none" ? addr !== "" : addr !== q.gate) return false;
+  }
+  if (q.metaValid !== undefined && !!c.metaValid !== q.metaValid) return false;
+  return true;
+}
+
+const keyOf = (c: SurveyCard, sort: SortKey): Cursor => ({
+  v: Number(c[sort] || 0),
+  c: c.chainId,
+  a: c.address.toLowerCase(),
+});
+
+/** Total order: sort value, then chainId, then address; `order` flips all. */
+function compareKeys(x: Cursor, y: Cursor) {
+  return x.v - y.v || x.c - y.c || (x.a < y.a ? -1 : x.a > y.a ? 1 : 0);
+}
+
+export function querySurveys(cards: SurveyCard[], q: SurveyQuery): QueryPage {
+  const dir = q.order === "asc" ? 1 : -1;
+  const filtered = cards
+    .filter((c) => matches(c, q))
+    .map((card) => ({ card, key: keyOf(card, q.sort) }))
+    .sort((x, y) => dir * compareKeys(x.key, y.key));
+
+  const after = q.cursor;
+  const rest = after
+    ? filtered.filter((x) => dir * compareKeys(x.key, after) > 0)
+    : filtered;
+  const page = rest.slice(0, q.limit);
+
+  return {
+    items: page.map((x) => x.card),
+    nextCursor:
+      rest.length > q.limit ? encodeCursor(page[page.length - 1].key) : null,
+    total: filtered.length,
+  };
+}
@@ -0,0 +1,76 @@
+// backend/eligibility-attester.ts
+
+/**
+ * Signs EIP-712 Eligibility messages for surveys gated by
+ * EligibilityGateEIP712. Thin CLI entry; the service lives in ./eligibility.
+ *
+ *   eligibility-attester.ts init
+ *     create the keystore and print the signer address to pass to the gate
+ *   eligibility-attester.ts serve
+ *
+ *   ATTESTER_KEYSTORE (default backend/storage/eligibility-keystore),
+ *   ATTESTER_PASSWORD (required), ATTESTER_GATES (comma-separated gate
+ *   addresses, required for serve), OUTPUT_DIR (indexer output, default
+ *   ../dscope-api/api), ATTESTER_TTL_SEC (default 600), ATTESTER_RATE_LIMIT
+ *   (per wallet, default 5/60), ATTESTER_AUDIT_LOG (default
+ *   backend/logs/eligibility-audit.ndjson), ATTESTER_TOKEN (optional Bearer
+ *   token for POST /eligibility), ATTESTER_PORT (default 8790),
+ *   ATTESTER_HOST (default 127.0.0.1)
+ */
+
+import * as path from "path";
+import { createOutputReader } from "./api";
+import {
+  createAttester,
+  createKeystore,
+  openKeystore,
+  parseRateLimit,
+  startAttesterService,
+} from "./eligibility";
+import { loadDotenv } from "./indexer";
+
+(async () => {
+  loadDotenv();
+  const cmd = process.argv[2];
+  if (cmd !== "init" && cmd !== "serve") {
+    throw new Error("Usage: eligibility-attester.ts <init|serve>");
+  }
+  const env = process.env;
+  const keystore = path.resolve(env.ATTESTER_KEYSTORE || "backend/storage/eligibility-keystore");
+  const password = env.ATTESTER_PASSWORD || "";
+  if (!password) throw new Error("ATTESTER_PASSWORD is required");
+
+  if (cmd === "init") {
+    const { signer } = await createKeystore(keystore, password);
+    console.log(`[Attester] Keystore written to ${keystore}`);
+    console.log(`[Attester] Signer ${signer}; deploy EligibilityGateEIP712 with it or setAttester`);
+    return;
+  }
+
+  const gates = (env.ATTESTER_GATES || "").split(",").map((g) => g.trim()).filter(Boolean);
+  const outDir = path.resolve(env.OUTPUT_DIR || "../dscope-api/api");
+  const attester = createAttester({
+    keys: await openKeystore(keystore, password),
+    reader: createOutputReader(outDir),
+    gates,
+    ttlSec: Number(env.ATTESTER_TTL_SEC || 600),
+  });
+  const service = await startAttesterService(attester, {
+    auditLog: path.resolve(env.ATTESTER_AUDIT_LOG || "backend/logs/eligibility-audit.ndjson"),
+    rateLimit: parseRateLimit(env.ATTESTER_RATE_LIMIT || "5/60"),
+    clientToken: env.ATTESTER_TOKEN || undefined,
+    port: Number(env.ATTESTER_PORT || 8790),
+    host: env.ATTESTER_HOST || "127.0.0.1",
+  });
+  console.log(
+    `[Attester] Signer ${attester.signer} for ${gates.join(", ")}; surveys from ${outDir}; ` +
+      `listening on ${service.url}`
+  );
+
+  for (const sig of ["SIGTERM", "SIGINT"] as const) {
+    process.on(sig, () => void service.close().then(() => process.exit(0)));
+  }
+})().catch((e) => {
+  console.error("[Attester] Fatal:", e);
+  process.exit(1);
+});
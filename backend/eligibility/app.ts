@@ -0,0 +1,160 @@
+// backend/eligibility/app.ts
+// HTTP front of the attester: optional Bearer token for the caller that
+// vouches for the attributes, per-wallet and per-client rate limits, and an
+// audit line for every request.
+import * as http from "http";
+import { timingSafeEqual } from "crypto";
+import type { AddressInfo } from "net";
+import express, { type NextFunction, type Request, type Response } from "express";
+import cors from "cors";
+import bodyParser from "body-parser";
+import { canonicalHash, nowSec } from "../indexer/util";
+import type { Attester, EligibilityRequest } from "./attester";
+import {
+  createAuditLog,
+  createRateLimiter,
+  type AuditEntry,
+  type AuditLog,
+  type RateLimit,
+  type RateLimiter,
+} from "./limits";
+
+function bearerMatches(header: string | undefined, token: string) {
+  const m = /^Bearer\s+(.+)$/i.exec(header || "");
+  if (!m) return false;
+  const a = Buffer.from(m[1].trim());
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export type AttesterAppOptions = {
+  audit: AuditLog;
+  /** counted per wallet */
+  userLimiter: RateLimiter;
+  /** counted per client IP */
+  clientLimiter: RateLimiter;
+  /** when set, POST /eligibility needs `Authorization: Bearer <token>` */
+  clientToken?: string;
+  now?: () => number;
+};
+
+export function createAttesterApp(attester: Attester, opts: AttesterAppOptions) {
+  const now = opts.now ?? nowSec;
+  const app = express();
+  app.use(cors());
+  app.use(bodyParser.json({ limit: "64kb" }));
+
+  app.get("/health", (_req, res) => {
+    res.json({ ok: true, signer: attester.signer, gates: attester.gates });
+  });
+
+  // { chainId, survey, user, attributes, subject? } → { domain, message, signature, signer }
+  app.post("/eligibility", async (req, res) => {
+    const body = (req.body || {}) as Partial<EligibilityRequest>;
+    const client = req.ip || req.socket.remoteAddress || "unknown";
+    const base: AuditEntry = {
+      at: now(),
+      outcome: "invalid",
+      chainId: Number.isInteger(Number(body.chainId)) ? Number(body.chainId) : undefined,
+      survey: typeof body.survey === "string" ? body.survey.toLowerCase() : undefined,
+      user: typeof body.user === "string" ? body.user.toLowerCase() : undefined,
+      client,
+    };
+
+    if (opts.clientToken && !bearerMatches(req.headers.authorization, opts.clientToken)) {
+      opts.audit.append({ ...base, reason: "unauthorized" });
+      return void res.status(401).json({ error: "unauthorized" });
+    }
+    for (const [limiter, key] of [
+      [opts.clientLimiter, `client:${client}`],
+      [opts.userLimiter, `user:${base.user}`],
+    ] as const) {
+      const hit = limiter.take(key);
+      if (!hit.ok) {
+        opts.audit.append({ ...base, outcome: "rate_limited", reason: key.split(":")[0] });
+        res.setHeader("Retry-After", String(hit.retryAfter));
+        return void res.status(429).json({ error: "too many requests" });
+      }
+    }
+
+    const result = await attester.attest({
+      chainId: Number(body.chainId),
+      survey: String(body.survey ?? ""),
+      user: String(body.user ?? ""),
+      attributes: body.attributes as Record<string, unknown>,
+      subject: body.subject,
+    });
+    const attributesHash =
+      body.attributes && typeof body.attributes === "object"
+        ? canonicalHash(body.attributes)
+        : undefined;
+    if (!result.ok) {
+      opts.audit.append({
+        ...base,
+        outcome: result.status === 403 ? "denied" : "invalid",
+        attributesHash,
+        reason: result.error,
+      });
+      const { ok: _, status, ...rest } = result;
+      return void res.status(status).json(rest);
+    }
+    opts.audit.append({
+      ...base,
+      outcome: "issued",
+      attributesHash,
+      nullifier: result.message.nullifier,
+      deadline: result.message.deadline,
+      signer: result.signer,
+    });
+    const { ok: _, ...attestation } = result;
+    res.json(attestation);
+  });
+
+  app.use((_req, res) => void res.status(404).json({ error: "not found" }));
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err?.status || 500).json({ error: String(err?.message || err) });
+  });
+  return app;
+}
+
+export type AttesterService = { url: string; server: http.Server; close(): Promise<void> };
+
+/**
+ * Serves `attester`, `rateLimit` per wallet and ten times that per client
+ * IP; port 0 picks a free one.
+ */
+export function startAttesterService(
+  attester: Attester,
+  opts: {
+    auditLog: string;
+    rateLimit: RateLimit;
+    clientToken?: string;
+    port?: number;
+    host?: string;
+  }
+): Promise<AttesterService> {
+  const app = createAttesterApp(attester, {
+    audit: createAuditLog(opts.auditLog),
+    userLimiter: createRateLimiter(opts.rateLimit),
+    // one frontend or verifier backend speaks for many wallets
+    clientLimiter: createRateLimiter({ ...opts.rateLimit, max: opts.rateLimit.max * 10 }),
+    clientToken: opts.clientToken,
+  });
+  const host = opts.host ?? "127.0.0.1";
+  return new Promise((resolve, reject) => {
+    const server = app.listen(opts.port ?? 8790, host, (err?: Error) => {
+      if (err) return reject(err);
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${host}:${port}`,
+        server,
+        close: () =>
+          new Promise<void>((r) => {
+            server.closeAllConnections();
+            server.close(() => r());
+          }),
+      });
+    });
+    server.once("error", reject);
+  });
+}
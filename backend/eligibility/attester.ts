@@ -0,0 +1,125 @@
+// backend/eligibility/attester.ts
+// Decides eligibility from the indexed survey and signs the Eligibility
+// message. No HTTP here; ./app.ts wraps it with auth, rate limits and audit.
+
+import { getAddress, isAddress } from "ethers";
+import type { OutputReader } from "../api/data";
+import type { SurveyCard } from "../indexer/types";
+import { nowSec } from "../indexer/util";
+import { evaluatePredicates, type PredicateFailure } from "../predicates/evaluate";
+import {
+  deriveNullifier,
+  eligibilityDomain,
+  signEligibility,
+  type EligibilityDomain,
+  type EligibilityMessage,
+} from "./eip712";
+import type { AttesterKeys } from "./keystore";
+
+export type AttesterOptions = {
+  keys: AttesterKeys;
+  /** the indexer output: surveys.list.json with each survey's gate rule */
+  reader: OutputReader;
+  /** EligibilityGateEIP712 deployments whose attester is this key */
+  gates: string[];
+  /** lifetime of a signed message, capped at the survey's end (default 600) */
+  ttlSec?: number;
+  now?: () => number;
+};
+
+export type EligibilityRequest = {
+  chainId: number;
+  survey: string;
+  user: string;
+  attributes: Record<string, unknown>;
+  /** identifies the person for the nullifier; defaults to `user` */
+  subject?: string;
+};
+
+export type Attestation = {
+  domain: EligibilityDomain;
+  message: EligibilityMessage;
+  signature: string;
+  signer: string;
+};
+
+/** `status` is the HTTP status ./app.ts answers with. */
+export type AttestationResult =
+  | ({ ok: true } & Attestation)
+  | { ok: false; status: number; error: string; failures?: PredicateFailure[] };
+
+const VOTABLE = new Set(["upcoming", "active"]);
+
+export function createAttester(opts: AttesterOptions) {
+  const { keys, reader } = opts;
+  const now = opts.now ?? nowSec;
+  const ttl = opts.ttlSec ?? 600;
+  const gates = new Set(opts.gates.map((g) => g.toLowerCase()));
+  if (!gates.size) throw new Error("Attester needs at least one gate");
+
+  const refuse = (status: number, error: string, failures?: PredicateFailure[]) =>
+    ({ ok: false, status, error, ...(failures ? { failures } : {}) }) as const;
+
+  function findSurvey(chainId: number, survey: string): SurveyCard | undefined {
+    const address = survey.toLowerCase();
+    return reader
+      .list()
+      .find((c) => c.chainId === chainId && c.address.toLowerCase() === address);
+  }
+
+  /**
+   * Signs an Eligibility message when the survey was deployed with one of
+   * our gates (Survey.gate(), never meta's claim), its meta matches the
+   * on-chain metaHash, it still takes votes, and its gate rule accepts
+   * `attributes`. Clauses the indexer dropped from the rule fail closed.
+   */
+  async function attest(req: EligibilityRequest): Promise<AttestationResult> {
+    if (!Number.isInteger(req.chainId)) return refuse(400, "chainId must be an integer");
+    if (!isAddress(req.survey) || !isAddress(req.user)) {
+      return refuse(400, "survey and user must be addresses");
+    }
+    if (!req.attributes || typeof req.attributes !== "object" || Array.isArray(req.attributes)) {
+      return refuse(400, "attributes must be an object");
+    }
+    if (req.subject !== undefined && (typeof req.subject !== "string" || !req.subject)) {
+      return refuse(400, "subject must be a non-empty string");
+    }
+
+    const card = findSurvey(req.chainId, req.survey);
+    if (!card) return refuse(404, "survey not found");
+    const gate = card.onchainGate?.toLowerCase();
+    if (!gate || !gates.has(gate)) return refuse(409, "survey is not gated by this attester");
+    // the rule comes from meta; unverified meta could say anything
+    if (!card.metaValid) return refuse(409, "survey meta does not match its metaHash");
+    if (!VOTABLE.has(card.status) || card.endSec <= now()) {
+      return refuse(409, `survey is ${card.status}`);
+    }
+    if (card.gate?.rejected?.length) {
+      return refuse(409, "survey gate has predicates the indexer could not validate");
+    }
+
+    const rule = card.gate?.rule ?? card.gate?.predicates;
+    const { eligible, failures } = evaluatePredicates(rule, req.attributes);
+    if (!eligible) return refuse(403, "not eligible", failures);
+
+    const message: EligibilityMessage = {
+      user: getAddress(req.user),
+      survey: getAddress(req.survey),
+      nullifier: deriveNullifier(
+        keys.nullifierSecret,
+        req.chainId,
+        req.survey,
+        req.subject ?? req.user
+      ),
+      deadline: Math.min(now() + ttl, card.endSec),
+      chainId: req.chainId,
+    };
+    const domain = eligibilityDomain(req.chainId, getAddress(gate));
+    const signature = await signEligibility(keys.signer, domain, message);
+    return { ok: true, domain, message, signature, signer: keys.signer.address };
+  }
+
+  return { signer: keys.signer.address, gates: [...gates], attest };
+}
+
+export type Attester = ReturnType<typeof createAttester>;
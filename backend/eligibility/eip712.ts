@@ -0,0 +1,98 @@
+// backend/eligibility/eip712.ts
+// The `DScopeEligibility` domain and `Eligibility` type that
+// EligibilityGateEIP712 verifies; gates.json publishes the same definitions.
+
+import {
+  AbiCoder,
+  getAddress,
+  isAddress,
+  keccak256,
+  toUtf8Bytes,
+  verifyTypedData,
+  type HDNodeWallet,
+  type Wallet,
+} from "ethers";
+
+export const ELIGIBILITY_DOMAIN_NAME = "DScopeEligibility";
+export const ELIGIBILITY_DOMAIN_VERSION = "1";
+
+export const ELIGIBILITY_TYPES = {
+  Eligibility: [
+    { name: "user", type: "address" },
+    { name: "survey", type: "address" },
+    { name: "nullifier", type: "bytes32" },
+    { name: "deadline", type: "uint256" },
+    { name: "chainId", type: "uint256" },
+  ],
+};
+
+export type EligibilityDomain = {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+};
+
+export type EligibilityMessage = {
+  user: string;
+  survey: string;
+  nullifier: string;
+  /** unix seconds; the gate refuses the message after it */
+  deadline: number;
+  chainId: number;
+};
+
+export function eligibilityDomain(chainId: number, gate: string): EligibilityDomain {
+  return {
+    name: ELIGIBILITY_DOMAIN_NAME,
+    version: ELIGIBILITY_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: gate,
+  };
+}
+
+const coder = AbiCoder.defaultAbiCoder();
+const NULLIFIER_TAG = keccak256(toUtf8Bytes("DScopeEligibility.nullifier"));
+
+/**
+ * The survey-scoped nullifier of `subject` (whatever identifies the person,
+ * by default their wallet; addresses are case-insensitive). Keyed by the
+ * keystore's secret so nullifiers of one subject cannot be linked across
+ * surveys without it.
+ */
+export function deriveNullifier(
+  secret: string,
+  chainId: number,
+  survey: string,
+  subject: string
+) {
+  return keccak256(
+    coder.encode(
+      ["bytes32", "bytes32", "uint256", "address", "bytes32"],
+      [
+        NULLIFIER_TAG,
+        secret,
+        chainId,
+        getAddress(survey),
+        keccak256(toUtf8Bytes(isAddress(subject) ? subject.toLowerCase() : subject)),
+      ]
+    )
+  );
+}
+
+export function signEligibility(
+  signer: Wallet | HDNodeWallet,
+  domain: EligibilityDomain,
+  message: EligibilityMessage
+): Promise<string> {
+  return signer.signTypedData(domain, ELIGIBILITY_TYPES, message);
+}
+
+/** Address that signed `message` under `domain`. */
+export function recoverEligibilitySigner(
+  domain: EligibilityDomain,
+  message: EligibilityMessage,
+  signature: string
+) {
+  return verifyTypedData(domain, ELIGIBILITY_TYPES, message, signature);
+}
@@ -0,0 +1,6 @@
+// backend/eligibility/index.ts
+export * from "./eip712";
+export * from "./keystore";
+export * from "./limits";
+export * from "./attester";
+export * from "./app";
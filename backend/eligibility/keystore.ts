@@ -0,0 +1,60 @@
+// backend/eligibility/keystore.ts
+// The attester's keys on local disk as encrypted JSON keystores (the
+// geth/ethers format): the EIP-712 signing key and the nullifier secret.
+
+import * as fs from "fs";
+import * as path from "path";
+import { encryptKeystoreJson, Wallet, type HDNodeWallet } from "ethers";
+
+export const KEYSTORE_FILES = {
+  signer: "signer.json",
+  nullifier: "nullifier.json",
+};
+
+export type AttesterKeys = {
+  signer: Wallet | HDNodeWallet;
+  /** 32-byte hex; keys deriveNullifier */
+  nullifierSecret: string;
+};
+
+/**
+ * Creates both keystores in `dir` (random keys unless given). Refuses to
+ * overwrite: replacing the nullifier secret mid-survey would let every
+ * respondent vote again. Lower `scryptN` only for tests.
+ */
+export async function createKeystore(
+  dir: string,
+  password: string,
+  opts: { signer?: Wallet | HDNodeWallet; scryptN?: number } = {}
+) {
+  if (!password) throw new Error("Keystore password is required");
+  const files = Object.values(KEYSTORE_FILES).map((f) => path.join(dir, f));
+  const existing = files.filter((f) => fs.existsSync(f));
+  if (existing.length) throw new Error(`Keystore already exists: ${existing.join(", ")}`);
+
+  const signer = opts.signer ?? Wallet.createRandom();
+  const secret = Wallet.createRandom();
+  const options = opts.scryptN ? { scrypt: { N: opts.scryptN } } : {};
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  for (const [file, key] of [
+    [KEYSTORE_FILES.signer, signer],
+    [KEYSTORE_FILES.nullifier, secret],
+  ] as const) {
+    const account = { address: key.address, privateKey: key.privateKey };
+    const json = await encryptKeystoreJson(account, password, options);
+    fs.writeFileSync(path.join(dir, file), json, { mode: 0o600, flag: "wx" });
+  }
+  return { signer: signer.address };
+}
+
+/** Decrypts the keystores in `dir`; throws on a missing file or wrong password. */
+export async function openKeystore(dir: string, password: string): Promise<AttesterKeys> {
+  const read = async (file: string) => {
+    const p = path.join(dir, file);
+    if (!fs.existsSync(p)) throw new Error(`No keystore at ${p}; run attester:init`);
+    return Wallet.fromEncryptedJson(fs.readFileSync(p, "utf8"), password);
+  };
+  const signer = await read(KEYSTORE_FILES.signer);
+  const nullifier = await read(KEYSTORE_FILES.nullifier);
+  return { signer, nullifierSecret: nullifier.privateKey };
+}
@@ -0,0 +1,75 @@
+// backend/eligibility/limits.ts
+// Issuance rate limiting and the append-only audit log.
+
+import * as fs from "fs";
+import * as path from "path";
+import { nowSec } from "../indexer/util";
+
+export type RateLimit = { max: number; windowSec: number };
+
+/** "5/60" → 5 per 60 seconds. */
+export function parseRateLimit(raw: string): RateLimit {
+  const m = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(raw);
+  if (!m || Number(m[1]) < 1 || Number(m[2]) < 1) {
+    throw new Error(`Bad rate limit "${raw}"; expected <max>/<seconds>, e.g. 5/60`);
+  }
+  return { max: Number(m[1]), windowSec: Number(m[2]) };
+}
+
+/**
+ * Fixed-window counter per key (a wallet, a client IP). In memory: a
+ * restart resets it, which the audit log makes visible.
+ */
+export function createRateLimiter(limit: RateLimit, now: () => number = nowSec) {
+  const windows = new Map<string, { start: number; count: number }>();
+  return {
+    /** Counts one hit; `retryAfter` is seconds until the key may try again. */
+    take(key: string): { ok: true } | { ok: false; retryAfter: number } {
+      const t = now();
+      let w = windows.get(key);
+      if (!w || t >= w.start + limit.windowSec) {
+        // drop expired windows now and then so the map stays small
+        if (windows.size > 10_000) {
+          for (const [k, v] of windows) if (t >= v.start + limit.windowSec) windows.delete(k);
+        }
+        w = { start: t, count: 0 };
+        windows.set(key, w);
+      }
+      if (w.count >= limit.max) return { ok: false, retryAfter: w.start + limit.windowSec - t };
+      w.count++;
+      return { ok: true };
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+export type AuditOutcome = "issued" | "denied" | "rate_limited" | "invalid";
+
+/** One line of the audit log; attributes are recorded only as a hash. */
+export type AuditEntry = {
+  at: number;
+  outcome: AuditOutcome;
+  chainId?: number;
+  survey?: string;
+  user?: string;
+  client?: string;
+  attributesHash?: string;
+  nullifier?: string;
+  deadline?: number;
+  signer?: string;
+  reason?: string;
+};
+
+/** Appends entries to an NDJSON file, one synchronous write each. */
+export function createAuditLog(file: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  return {
+    file,
+    append(entry: AuditEntry) {
+      fs.appendFileSync(file, JSON.stringify(entry) + "\n");
+    },
+  };
+}
+
+export type AuditLog = ReturnType<typeof createAuditLog>;
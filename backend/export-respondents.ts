@@ -0,0 +1,70 @@
+// backend/export-respondents.ts
+
+/**
+ * Exports every respondent of a survey with their selections as CSV and
+ * NDJSON. Interrupted exports (Ctrl-C, RPC failure) resume when re-run with
+ * the same arguments. Thin CLI entry; the export lives in ./results.
+ *
+ *   export-respondents.ts <survey> [--out exports/<chainId>-<survey>]
+ *                         [--from-block N] [--to-block N] [--batch 100]
+ *   SCROLL_RPC / RPC_URL (default https://sepolia-rpc.scroll.io),
+ *   RPC_RETRIES, RPC_BACKOFF_MS
+ */
+
+import * as path from "path";
+import { JsonRpcProvider, isAddress } from "ethers";
+import { createChainSource, loadDotenv } from "./indexer";
+import { exportRespondents } from "./results";
+
+function flag(name: string) {
+  const i = process.argv.indexOf(name);
+  return i > 0 ? process.argv[i + 1] : undefined;
+}
+
+const num = (v: string | undefined) => {
+  if (v === undefined) return undefined;
+  if (!/^\d+$/.test(v)) throw new Error(`Expected a block number, got "${v}"`);
+  return Number(v);
+};
+
+(async () => {
+  loadDotenv();
+  const survey = process.argv[2];
+  if (!survey || !isAddress(survey)) {
+    throw new Error(
+      "Usage: export-respondents.ts <survey> [--out base] [--from-block N] [--to-block N] [--batch N]"
+    );
+  }
+
+  const rpc =
+    process.env.SCROLL_RPC || process.env.RPC_URL || "https://sepolia-rpc.scroll.io";
+  const provider = new JsonRpcProvider(rpc);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const source = createChainSource(provider, {
+    retries: Number(process.env.RPC_RETRIES || 3),
+    backoffMs: Number(process.env.RPC_BACKOFF_MS || 500),
+  });
+
+  const stop = new AbortController();
+  process.on("SIGINT", () => {
+    if (stop.signal.aborted) process.exit(1);
+    console.log("[Export] SIGINT: finishing the current batch...");
+    stop.abort();
+  });
+
+  const res = await exportRespondents(source, {
+    survey,
+    chainId,
+    outBase: flag("--out") || path.join("exports", `${chainId}-${survey.toLowerCase()}`),
+    fromBlock: num(flag("--from-block")),
+    toBlock: num(flag("--to-block")),
+    batchSize: num(flag("--batch")),
+    signal: stop.signal,
+  });
+  provider.destroy();
+  if (res.done) console.log(`[Export] Wrote ${res.files.csv} and ${res.files.ndjson}`);
+  process.exit(res.done ? 0 : 130);
+})().catch((e) => {
+  console.error("[Export] Fatal:", e);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+// backend/generate-abi.ts
+
+/**
+ * Regenerates backend/abi/generated.ts from the artifacts/ of
+ * `hardhat compile` (the npm scripts compile first). Thin CLI entry; the
+ * work lives in ./abi/generate.
+ *
+ *   generate-abi.ts [--check]
+ *     --check: write nothing, exit 1 when generated.ts is out of date
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { renderAbiModule } from "./abi/generate";
+
+(async () => {
+  const rootDir = path.resolve(__dirname, "..");
+  const target = path.join(__dirname, "abi", "generated.ts");
+  const source = renderAbiModule(rootDir);
+  const current = fs.existsSync(target) ? fs.readFileSync(target, "utf8") : "";
+
+  if (process.argv.includes("--check")) {
+    if (current !== source) {
+      console.error(`[ABI] ${path.relative(rootDir, target)} is out of date; run npm run abi:generate`);
+      process.exit(1);
+    }
+    console.log("[ABI] Up to date");
+    return;
+  }
+  if (current === source) {
+    console.log("[ABI] Up to date");
+    return;
+  }
+  fs.writeFileSync(target, source);
+  console.log(`[ABI] Wrote ${path.relative(rootDir, target)}`);
+})().catch((e) => {
+  console.error("[ABI] Fatal:", e);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+// backend/indexer/chain-source.ts
+import type { LogGap } from "./types";
+import { errorText, sleep } from "./util";
+
+export interface ChainLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  blockNumber: number;
+  transactionHash: string;
+  index: number;
+}
+
+export interface ChainTx {
+  to: string | null;
+  from: string;
+  value: bigint;
+}
+
+export interface ChainReceipt {
+  blockNumber: number;
+  status: number | null;
+}
+
+/** The slice of an ethers v6 provider the indexer uses; easy to fake. */
+export interface ChainProvider {
+  getBlockNumber(): Promise<number>;
+  getBlock(
+    n: number
+  ): Promise<{ timestamp: number; hash: string | null } | null>;
+  getLogs(filter: {
+    address: string | string[];
+    fromBlock: number;
+    toBlock: number;
+  }): Promise<readonly ChainLog[]>;
+  getTransaction(hash: string): Promise<ChainTx | null>;
+  getTransactionReceipt(hash: string): Promise<ChainReceipt | null>;
+  call(tx: { to: string; data: string }): Promise<string>;
+}
+
+export type LogRangeResult = { logs: ChainLog[]; failed?: LogGap };
+
+export interface ChainSource {
+  readonly provider: ChainProvider;
+  head(): Promise<number>;
+  /** Block timestamp (cached); also records the block hash. */
+  blockTs(n: number): Promise<number>;
+  /** Current canonical hash of block `n`, bypassing the cache. */
+  blockHash(n: number): Promise<string | null>;
+  /** Hashes of every block fetched through `blockTs` since the last `reset`. */
+  observedHashes(): Map<number, string>;
+  /**
+   * Forgets cached timestamps and hashes. runIndexer calls it first thing,
+   * so a source reused across runs (watch mode) never hands out blocks of
+   * an orphaned fork and its caches only span one run.
+   */
+  reset(): void;
+  getLogs(
+    address: string | string[],
+    from: number,
+    to: number
+  ): Promise<LogRangeResult>;
+}
+
+export type ChainSourceOptions = { retries?: number; backoffMs?: number };
+
+// "range too large"-style answers and timeouts are fixed by asking for less.
+export function isSplittableError(err: any) {
+  const msg = errorText(err);
+  if (/rate.?limit|too many requests|\b429\b/i.test(msg)) return false;
+  return (
+    err?.code === "TIMEOUT" ||
+    /range|too large|too big|more than|exceed|response size|timeout|timed out/i.test(
+      msg
+    )
+  );
+}
+
+export function createChainSource(
+  provider: ChainProvider,
+  opts: ChainSourceOptions = {}
+): ChainSource {
+  const retries = opts.retries ?? 3;
+  const backoffMs = opts.backoffMs ?? 500;
+  const tsCache = new Map<number, number>();
+  const hashCache = new Map<number, string>();
+
+  /**
+   * getLogs over [from, to] with exponential-backoff retries, halving the
+   * range whenever the RPC rejects it as too large or times out. Logs are
+   * returned only for blocks below `failed.from`, so callers can stop right
+   * at the gap.
+   */
+  async function getLogs(
+    address: string | string[],
+    from: number,
+    to: number
+  ): Promise<LogRangeResult> {
+    let lastErr: any;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      try {
+        const logs = await provider.getLogs({
+          address,
+          fromBlock: from,
+          toBlock: to,
+        });
+        return { logs: [...logs] };
+      } catch (err) {
+        lastErr = err;
+        if (from < to && isSplittableError(err)) {
+          const mid = Math.floor((from + to) / 2);
+          console.warn(`[RPC] Splitting ${from}-${to} at ${mid}`);
+          const left = await getLogs(address, from, mid);
+          if (left.failed) return left;
+          const right = await getLogs(address, mid + 1, to);
+          return { logs: left.logs.concat(right.logs), failed: right.failed };
+        }
+        if (attempt < retries) await sleep(backoffMs * 2 ** attempt);
+      }
+    }
+    return {
+      logs: [],
+      failed: { from, to, error: errorText(lastErr).slice(0, 500) },
+    };
+  }
+
+  return {
+    provider,
+    head: () => provider.getBlockNumber(),
+    async blockTs(n) {
+      if (!n) return 0;
+      if (tsCache.has(n)) return tsCache.get(n)!;
+      const b = await provider.getBlock(n);
+      const ts = Number(b?.timestamp || 0);
+      tsCache.set(n, ts);
+      if (b?.hash) hashCache.set(n, b.hash);
+      return ts;
+    },
+    async blockHash(n) {
+      const b = await provider.getBlock(n);
+      return b?.hash ?? null;
+    },
+    observedHashes: () => hashCache,
+    reset() {
+      tsCache.clear();
+      hashCache.clear();
+    },
+    getLogs,
+  };
+}
@@ -0,0 +1,251 @@
+// backend/indexer/cid.ts
+// Just enough IPFS to read small JSON documents from content-addressed
+// blocks: CID strings (v0 base58btc, v1 base32), sha2-256 block checks,
+// single-block UnixFS files and CARv1/v2 files.
+
+import { decodeBase58, encodeBase58, getBytes, sha256, toBeArray } from "ethers";
+
+export const CODEC_RAW = 0x55;
+export const CODEC_DAG_PB = 0x70;
+export const CODEC_JSON = 0x0200;
+export const CODEC_DAG_JSON = 0x0129;
+const SHA2_256 = 0x12;
+
+export interface Cid {
+  version: 0 | 1;
+  codec: number;
+  hashCode: number;
+  digest: Uint8Array;
+  /** binary form, as stored in CAR sections */
+  bytes: Uint8Array;
+}
+
+export type Block = { cid: Cid; bytes: Uint8Array };
+
+function varint(buf: Uint8Array, pos: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  for (;;) {
+    if (pos >= buf.length) throw new Error("truncated varint");
+    const b = buf[pos++];
+    value += (b & 0x7f) * 2 ** shift;
+    if (!(b & 0x80)) return [value, pos];
+    shift += 7;
+    if (shift > 49) throw new Error("varint too long");
+  }
+}
+
+function encodeVarint(n: number) {
+  const out: number[] = [];
+  while (n >= 0x80) {
+    out.push((n & 0x7f) | 0x80);
+    n = Math.floor(n / 128);
+  }
+  out.push(n);
+  return out;
+}
+
+const B32 = "abcdefghijklmnopqrstuvwxyz234567";
+
+function base32Encode(bytes: Uint8Array) {
+  let out = "";
+  let bits = 0;
+  let value = 0;
+  for (const b of bytes) {
+    value = ((value << 8) | b) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      out += B32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += B32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(s: string) {
+  const out: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const ch of s.toLowerCase()) {
+    const i = B32.indexOf(ch);
+    if (i < 0) throw new Error(`invalid base32 character "${ch}"`);
+    value = ((value << 5) | i) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+/** Reads a binary CID at `pos`; returns it and the offset after it. */
+export function readCid(buf: Uint8Array, pos = 0): [Cid, number] {
+  if (buf[pos] === SHA2_256 && buf[pos + 1] === 32) {
+    const bytes = buf.slice(pos, pos + 34);
+    if (bytes.length !== 34) throw new Error("truncated CIDv0");
+    const cid: Cid = {
+      version: 0,
+      codec: CODEC_DAG_PB,
+      hashCode: SHA2_256,
+      digest: bytes.slice(2),
+      bytes,
+    };
+    return [cid, pos + 34];
+  }
+  const start = pos;
+  let version, codec, hashCode, len;
+  [version, pos] = varint(buf, pos);
+  if (version !== 1) throw new Error(`unsupported CID version ${version}`);
+  [codec, pos] = varint(buf, pos);
+  [hashCode, pos] = varint(buf, pos);
+  [len, pos] = varint(buf, pos);
+  if (pos + len > buf.length) throw new Error("truncated CID digest");
+  const cid: Cid = {
+    version: 1,
+    codec,
+    hashCode,
+    digest: buf.slice(pos, pos + len),
+    bytes: buf.slice(start, pos + len),
+  };
+  return [cid, pos + len];
+}
+
+/** Parses "Qm…" (v0) and "b…" (v1, base32) CID strings. */
+export function parseCid(s: string): Cid {
+  s = s.trim();
+  if (s.startsWith("Qm") && s.length === 46) {
+    const bytes = Uint8Array.from(toBeArray(decodeBase58(s)));
+    return readCid(bytes)[0];
+  }
+  if (s.startsWith("b")) {
+    const bytes = base32Decode(s.slice(1));
+    const [cid, end] = readCid(bytes);
+    if (end !== bytes.length) throw new Error("trailing bytes after CID");
+    return cid;
+  }
+  throw new Error(`unsupported CID encoding: ${s.slice(0, 12)}`);
+}
+
+export function cidToString(cid: Cid) {
+  return cid.version === 0
+    ? encodeBase58(cid.bytes)
+    : "b" + base32Encode(cid.bytes);
+}
+
+/**
+ * Every string a creator may have anchored for this CID: dag-pb/sha2-256
+ * content has both a v0 and a v1 spelling.
+ */
+export function cidStrings(cid: Cid): string[] {
+  if (cid.codec !== CODEC_DAG_PB || cid.hashCode !== SHA2_256) {
+    return [cidToString(cid)];
+  }
+  const v0 = Uint8Array.from([SHA2_256, 32, ...cid.digest]);
+  const v1 = Uint8Array.from([1, CODEC_DAG_PB, SHA2_256, 32, ...cid.digest]);
+  return [encodeBase58(v0), "b" + base32Encode(v1)];
+}
+
+/** Throws unless `bytes` is the block `cid` addresses. */
+export function verifyBlock(cid: Cid, bytes: Uint8Array) {
+  if (cid.hashCode !== SHA2_256) {
+    throw new Error(`unsupported multihash 0x${cid.hashCode.toString(16)}`);
+  }
+  if (getBytes(sha256(bytes)).join() !== cid.digest.join()) {
+    throw new Error(`block does not hash to ${cidToString(cid)}`);
+  }
+}
+
+/** Length-delimited and varint fields of one protobuf message. */
+function protoFields(buf: Uint8Array) {
+  const fields: { n: number; bytes?: Uint8Array; value?: number }[] = [];
+  let pos = 0;
+  while (pos < buf.length) {
+    let key, v;
+    [key, pos] = varint(buf, pos);
+    const n = Math.floor(key / 8);
+    switch (key & 7) {
+      case 0:
+        [v, pos] = varint(buf, pos);
+        fields.push({ n, value: v });
+        break;
+      case 2:
+        [v, pos] = varint(buf, pos);
+        if (pos + v > buf.length) throw new Error("truncated protobuf field");
+        fields.push({ n, bytes: buf.slice(pos, pos + v) });
+        pos += v;
+        break;
+      default:
+        throw new Error(`unsupported protobuf wire type ${key & 7}`);
+    }
+  }
+  return fields;
+}
+
+/** The file bytes of a single-block UnixFS node (what `ipfs add` makes). */
+function unixfsContent(block: Uint8Array) {
+  const node = protoFields(block);
+  if (node.some((f) => f.n === 2)) {
+    throw new Error("multi-block UnixFS files are not supported");
+  }
+  const data = node.find((f) => f.n === 1)?.bytes;
+  if (!data) return new Uint8Array();
+  const unixfs = protoFields(data);
+  const type = unixfs.find((f) => f.n === 1)?.value;
+  // 0 = raw, 2 = file
+  if (type !== 0 && type !== 2) throw new Error(`UnixFS node of type ${type} is not a file`);
+  return unixfs.find((f) => f.n === 2)?.bytes ?? new Uint8Array();
+}
+
+/** The document bytes held by a verified block. */
+export function blockContent(cid: Cid, bytes: Uint8Array): Uint8Array {
+  switch (cid.codec) {
+    case CODEC_RAW:
+    case CODEC_JSON:
+    case CODEC_DAG_JSON:
+      return bytes;
+    case CODEC_DAG_PB:
+      return unixfsContent(bytes);
+    default:
+      throw new Error(`unsupported codec 0x${cid.codec.toString(16)}`);
+  }
+}
+
+/** CIDv1 of a raw block, e.g. for fixtures and mirrors. */
+export function rawCid(bytes: Uint8Array): Cid {
+  const digest = getBytes(sha256(bytes));
+  const cidBytes = Uint8Array.from([
+    1,
+    ...encodeVarint(CODEC_RAW),
+    SHA2_256,
+    digest.length,
+    ...digest,
+  ]);
+  return readCid(cidBytes)[0];
+}
+
+const CARV2_PRAGMA = "0aa16776657273696f6e02";
+
+/** Blocks of a CARv1 file, or of the CARv1 payload inside a CARv2. */
+export function readCar(buf: Uint8Array): Block[] {
+  if (Buffer.from(buf.slice(0, 11)).toString("hex") === CARV2_PRAGMA) {
+    const view = Buffer.from(buf.buffer, buf.byteOffset, buf.byteLength);
+    const offset = Number(view.readBigUInt64LE(11 + 16));
+    const size = Number(view.readBigUInt64LE(11 + 24));
+    return readCar(buf.slice(offset, offset + size));
+  }
+  let [headerLen, pos] = varint(buf, 0);
+  pos += headerLen;
+  const blocks: Block[] = [];
+  while (pos < buf.length) {
+    let len;
+    [len, pos] = varint(buf, pos);
+    const end = pos + len;
+    if (end > buf.length) throw new Error("truncated CAR section");
+    const [cid, dataPos] = readCid(buf, pos);
+    blocks.push({ cid, bytes: buf.slice(dataPos, end) });
+    pos = end;
+  }
+  return blocks;
+}
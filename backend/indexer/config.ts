@@ -0,0 +1,259 @@
+// backend/indexer/config.ts
+import * as fs from "fs";
+import * as path from "path";
+import { config as dotenvConfig } from "dotenv";
+import { readRegistry, registryTargets } from "../registry/registry";
+
+export interface FactoryConfig {
+  address: string;
+  startBlock: number;
+  /** informational: SurveyFactory, SurveyFactoryFlat, verify-factory, ... */
+  version?: string;
+}
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  rpc: string;
+  minConf: number;
+  treasurySafe: string;
+  /** overrides the global ONLY_LAST_BLOCKS for this chain */
+  onlyLastBlocks?: number;
+  factories: FactoryConfig[];
+  /** eligibility gates; the first one is the default gate hint */
+  gates: string[];
+}
+
+export interface IndexerConfig {
+  chains: ChainConfig[];
+  onlyLastBlocks: number;
+  outputDir: string;
+  apiBase: string;
+  adminToken: string;
+  rpcRetries: number;
+  rpcBackoffMs: number;
+  /** blocks per getLogs window */
+  batch: number;
+  /** survey addresses per getLogs call */
+  addrChunk: number;
+  /** block-hash checkpoints kept for reorg detection */
+  hashHistory: number;
+  watch: WatchConfig;
+  meta: MetaConfig;
+  storage: StorageConfig;
+}
+
+/**
+ * "json": the whole-file JSON layout under outputDir.
+ * "sqlite": one database for every chain; the JSON layout is exported from
+ * it after each run for the Worker, the workflow and the query API.
+ */
+export interface StorageConfig {
+  kind: "json" | "sqlite";
+  sqliteFile: string;
+}
+
+/** Where meta documents are looked up, in this order, before the Worker. */
+export interface MetaConfig {
+  /** `<chainId>/<survey>.json` or `<metaHash>.json` files */
+  mirrorDir: string;
+  /** IPFS blocks, CAR files and a `cids.json` of metaHash → CID pointers */
+  ipfsDir: string;
+  /** HTTP gateway for blocks not held in `ipfsDir`; "" disables it */
+  ipfsGateway: string;
+  /** verified documents by metaHash */
+  cacheDir: string;
+}
+
+export interface WatchConfig {
+  /** head polling interval */
+  intervalMs: number;
+  /** local health endpoint port; 0 disables it */
+  healthPort: number;
+  /** lag behind head (blocks) above which /health reports 503 */
+  maxLag: number;
+}
+
+/** Loads `.env` from the cwd, falling back to the repo root. */
+export function loadDotenv(cwd = process.cwd()) {
+  const env1 = path.resolve(cwd, ".env");
+  const env2 = path.resolve(__dirname, "../../.env");
+  const envPath = fs.existsSync(env1)
+    ? env1
+    : fs.existsSync(env2)
+    ? env2
+    : null;
+  if (envPath) dotenvConfig({ path: envPath, override: true });
+}
+
+const lower = (s: unknown) => String(s || "").toLowerCase().trim();
+
+/** Factories and gates of a deployment registry, checked against `chainId`. */
+function fromRegistry(file: string, chainId: number, reg = readRegistry(file)) {
+  if (reg.chainId !== chainId) {
+    throw new Error(`${file} is a registry of chain ${reg.chainId}, not ${chainId}`);
+  }
+  return registryTargets(reg);
+}
+
+/**
+ * Validates one `chains[]` entry of the config file. `rpcEnv` names an env
+ * var that, when set, wins over the literal `rpc` (keeps keys out of git).
+ * `registry` points at a deployment registry (relative to `baseDir`) whose
+ * factories and gates come before the ones listed inline.
+ */
+export function parseChainConfig(
+  raw: any,
+  env: NodeJS.ProcessEnv = process.env,
+  baseDir = process.cwd()
+): ChainConfig {
+  const chainId = Number(raw?.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error(`Invalid chainId in indexer config: ${raw?.chainId}`);
+  }
+  const rpc = (raw.rpcEnv && env[raw.rpcEnv]) || raw.rpc;
+  if (!rpc) throw new Error(`No RPC configured for chain ${chainId}`);
+
+  const registry = raw.registry
+    ? fromRegistry(path.resolve(baseDir, String(raw.registry)), chainId)
+    : { factories: [], gates: [] };
+  const listed: FactoryConfig[] = (raw.factories || []).map((f: any) => {
+    const address = lower(typeof f === "string" ? f : f?.address);
+    if (!/^0x[0-9a-f]{40}$/.test(address)) {
+      throw new Error(`Invalid factory address on chain ${chainId}: ${address}`);
+    }
+    return {
+      address,
+      startBlock: Number(f?.startBlock) || 0,
+      version: f?.version ? String(f.version) : undefined,
+    };
+  });
+  const factories = [
+    ...registry.factories,
+    ...listed.filter((f) => !registry.factories.some((r) => r.address === f.address)),
+  ];
+  if (!factories.length) {
+    throw new Error(`No factories configured for chain ${chainId}`);
+  }
+  const gates = [...registry.gates];
+  for (const g of (raw.gates || []).map(lower).filter(Boolean)) {
+    if (!gates.includes(g)) gates.push(g);
+  }
+
+  return {
+    chainId,
+    name: String(raw.name || `chain ${chainId}`),
+    rpc: String(rpc),
+    minConf: Number(raw.minConf ?? 2),
+    treasurySafe: lower(raw.treasurySafe),
+    onlyLastBlocks:
+      raw.onlyLastBlocks !== undefined ? Number(raw.onlyLastBlocks) : undefined,
+    factories,
+    gates,
+  };
+}
+
+/**
+ * The single-chain setup from env. DEPLOYMENT_REGISTRY names a registry
+ * file that supplies the chain, factories, start blocks and gates;
+ * FACTORY_ADDRESS / START_BLOCK / GATE_ADDR, when set, win over it.
+ */
+export function chainFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  cwd = process.cwd()
+): ChainConfig {
+  const regFile = env.DEPLOYMENT_REGISTRY ? path.resolve(cwd, env.DEPLOYMENT_REGISTRY) : null;
+  const reg = regFile ? readRegistry(regFile) : null;
+  const chainId = Number(env.CHAIN_ID || reg?.chainId || 534351);
+  const targets =
+    regFile && reg ? fromRegistry(regFile, chainId, reg) : { factories: [], gates: [] };
+
+  const factoryAddress = lower(env.FACTORY_ADDRESS);
+  const factories: FactoryConfig[] = factoryAddress
+    ? [{ address: factoryAddress, startBlock: Number(env.START_BLOCK) || 0 }]
+    : targets.factories;
+  if (!factories.length) {
+    throw new Error("FACTORY_ADDRESS or DEPLOYMENT_REGISTRY is required in .env");
+  }
+  const gate = lower(env.GATE_ADDR);
+  return {
+    chainId,
+    name:
+      env.CHAIN_NAME || (chainId === 534351 ? "Scroll Sepolia" : `chain ${chainId}`),
+    rpc: env.SCROLL_RPC || env.RPC_URL || "https://sepolia-rpc.scroll.io",
+    minConf: Number(env.MIN_CONF || 2),
+    treasurySafe: lower(env.TREASURY_SAFE),
+    factories,
+    gates: gate ? [gate] : targets.gates,
+  };
+}
+
+/**
+ * Reads the chain list from the INDEXER_CONFIG file (see indexer.config.json);
+ * without one, falls back to the single-chain env vars of `chainFromEnv`.
+ */
+export function configFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  cwd = process.cwd()
+): IndexerConfig {
+  const file = env.INDEXER_CONFIG ? path.resolve(cwd, env.INDEXER_CONFIG) : null;
+
+  let fileCfg: any = {};
+  let chains: ChainConfig[];
+  if (file) {
+    fileCfg = JSON.parse(fs.readFileSync(file, "utf8"));
+    chains = (fileCfg.chains || []).map((c: any) =>
+      parseChainConfig(c, env, path.dirname(file))
+    );
+    if (!chains.length) throw new Error(`No chains configured in ${file}`);
+    const ids = chains.map((c) => c.chainId);
+    if (new Set(ids).size !== ids.length) {
+      throw new Error(`Duplicate chainId in ${file}`);
+    }
+  } else {
+    chains = [chainFromEnv(env, cwd)];
+  }
+
+  const outputDir = (env.OUTPUT_DIR || fileCfg.outputDir || "").trim();
+  const outRoot = outputDir
+    ? path.resolve(cwd, outputDir)
+    : path.resolve(cwd, "../dscope-api/api");
+  const dir = (v: unknown, fallback: string) =>
+    v ? path.resolve(cwd, String(v)) : fallback;
+  const metaCfg = fileCfg.meta || {};
+  const storageCfg = fileCfg.storage || {};
+  const storageKind = String(env.STORAGE || storageCfg.kind || "json");
+  if (storageKind !== "json" && storageKind !== "sqlite") {
+    throw new Error(`Unknown STORAGE "${storageKind}" (json | sqlite)`);
+  }
+  return {
+    chains,
+    onlyLastBlocks: Number(env.ONLY_LAST_BLOCKS || fileCfg.onlyLastBlocks || 0),
+    outputDir: outRoot,
+    apiBase: (env.API_BASE || "").replace(/\/+$/, ""),
+    adminToken: env.ADMIN_TOKEN || "",
+    rpcRetries: Number(env.RPC_RETRIES || 3),
+    rpcBackoffMs: Number(env.RPC_BACKOFF_MS || 500),
+    batch: 1000,
+    addrChunk: 50,
+    hashHistory: 256,
+    watch: {
+      intervalMs: Number(env.WATCH_INTERVAL_MS || 5000),
+      healthPort: Number(env.HEALTH_PORT ?? 8787),
+      maxLag: Number(env.WATCH_MAX_LAG || 100),
+    },
+    meta: {
+      mirrorDir: dir(env.META_MIRROR_DIR || metaCfg.mirrorDir, path.join(outRoot, "meta")),
+      ipfsDir: dir(env.META_IPFS_DIR || metaCfg.ipfsDir, ""),
+      ipfsGateway: String(env.META_IPFS_GATEWAY || metaCfg.ipfsGateway || "").replace(/\/+$/, ""),
+      cacheDir: dir(env.META_CACHE_DIR || metaCfg.cacheDir, path.join(outRoot, "meta-cache")),
+    },
+    storage: {
+      kind: storageKind,
+      sqliteFile: dir(
+        env.STORAGE_SQLITE_FILE || storageCfg.sqliteFile,
+        path.join(outRoot, "indexer.sqlite")
+      ),
+    },
+  };
+}
@@ -0,0 +1,63 @@
+// backend/indexer/deps.ts
+import { JsonRpcProvider } from "ethers";
+import { createChainSource } from "./chain-source";
+import type { IndexerConfig } from "./config";
+import {
+  createCidMetaSource,
+  createFsMetaCache,
+  createMetaResolver,
+  createMirrorMetaSource,
+  createWorkerMetaSource,
+  type MetaSource,
+} from "./meta-source";
+import type { MultiChainDeps } from "./run";
+import { createFsMergedSink, createFsSink } from "./sinks";
+import { createSqliteStore, openSqlite } from "./sqlite-store";
+import { createFsPushStore, createWorkerSink } from "./worker-sink";
+
+/**
+ * The production wiring: JSON-RPC per chain, JSON files (or SQLite exporting
+ * them) under OUTPUT_DIR, meta from the local mirror, IPFS and the Worker at
+ * API_BASE (cached by metaHash), pushes to that Worker.
+ */
+export function createIndexerDeps(config: IndexerConfig): MultiChainDeps {
+  const { mirrorDir, ipfsDir, ipfsGateway, cacheDir } = config.meta;
+  const sources: MetaSource[] = [createMirrorMetaSource(mirrorDir)];
+  if (ipfsDir || ipfsGateway) {
+    sources.push(createCidMetaSource({ dir: ipfsDir, gateway: ipfsGateway }));
+  }
+  sources.push(createWorkerMetaSource(config.apiBase));
+  const db =
+    config.storage.kind === "sqlite" ? openSqlite(config.storage.sqliteFile) : null;
+
+  return {
+    config,
+    meta: createMetaResolver(sources, createFsMetaCache(cacheDir)),
+    depsFor(chain) {
+      const store = db
+        ? createSqliteStore(db, config.outputDir, chain.chainId)
+        : createFsSink(config.outputDir, chain.chainId);
+      // static network: an unreachable RPC fails fast instead of retrying
+      // network detection forever and stalling the other chains
+      const provider = new JsonRpcProvider(chain.rpc, chain.chainId, {
+        staticNetwork: true,
+      });
+      return {
+        source: createChainSource(provider, {
+          retries: config.rpcRetries,
+          backoffMs: config.rpcBackoffMs,
+        }),
+        store,
+        sinks: [store],
+      };
+    },
+    merged: [
+      createFsMergedSink(config.outputDir),
+      createWorkerSink(
+        config.apiBase,
+        config.adminToken,
+        createFsPushStore(config.outputDir)
+      ),
+    ],
+  };
+}
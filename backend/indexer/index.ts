@@ -0,0 +1,16 @@
+// backend/indexer/index.ts
+export * from "./types";
+export * from "./util";
+export * from "./config";
+export * from "./chain-source";
+export * from "./cid";
+export * from "./meta-schema";
+export * from "./meta-source";
+export * from "./pipeline";
+export * from "./sinks";
+export * from "./ledger";
+export * from "./sqlite-store";
+export * from "./worker-sink";
+export * from "./run";
+export * from "./watch";
+export * from "./deps";
@@ -0,0 +1,146 @@
+// backend/indexer/ledger.ts
+// Maintenance of a chain partition's ledger.ndjson: compaction with a
+// checksum, and regenerating surveys.json / surveys.list.json from it.
+// Run these while the indexer is stopped; they rewrite files it appends to.
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  applyBalances,
+  buildBalances,
+  buildList,
+  dedupeLedger,
+  rebuildSurveys,
+  sortLedger,
+} from "./pipeline";
+import { SURVEYS_CURSOR } from "./run";
+import { formatLedger, outputFiles, parseLedger, readJSON } from "./sinks";
+import type {
+  FundingVerdict,
+  IndexerState,
+  SurveyCard,
+  SurveyMap,
+} from "./types";
+import { nowSec } from "./util";
+
+/**
+ * ledger.checksum.json: sha256 of the first `bytes` bytes of the ledger as
+ * compaction left it. Lines the indexer appends later are not covered.
+ */
+export type LedgerChecksum = {
+  algorithm: "sha256";
+  digest: string;
+  bytes: number;
+  entries: number;
+  compactedAt: number;
+};
+
+const sha256 = (b: Buffer) => createHash("sha256").update(b).digest("hex");
+
+function writeAtomic(p: string, data: string) {
+  const tmp = `${p}.tmp`;
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, p);
+}
+
+function readRaw(p: string) {
+  try {
+    return fs.readFileSync(p);
+  } catch {
+    return Buffer.alloc(0);
+  }
+}
+
+/**
+ * Checks the compacted part of the ledger against its checksum; `ok` is
+ * null when the ledger was never compacted.
+ */
+export function verifyLedger(outDir: string) {
+  const files = outputFiles(outDir);
+  const sum = readJSON<LedgerChecksum | null>(files.LEDGER_SUM, null);
+  if (!sum) return { ok: null, checksum: null };
+  const raw = readRaw(files.LEDGER);
+  const ok = raw.length >= sum.bytes && sha256(raw.subarray(0, sum.bytes)) === sum.digest;
+  return { ok, checksum: sum };
+}
+
+/**
+ * Rewrites the ledger deduplicated by (chainId, tx, logIndex) and in chain
+ * order, dropping unreadable lines, and writes its checksum.
+ */
+export function compactLedger(outDir: string, now = nowSec()) {
+  const files = outputFiles(outDir);
+  const raw = readRaw(files.LEDGER).toString("utf8");
+  const lines = raw.split("\n").filter((l) => l.trim()).length;
+  const parsed = parseLedger(raw);
+  const { kept, dropped } = dedupeLedger(parsed);
+  const body = formatLedger(sortLedger(kept));
+
+  const checksum: LedgerChecksum = {
+    algorithm: "sha256",
+    digest: sha256(Buffer.from(body, "utf8")),
+    bytes: Buffer.byteLength(body, "utf8"),
+    entries: kept.length,
+    compactedAt: now,
+  };
+  writeAtomic(files.LEDGER, body);
+  writeAtomic(files.LEDGER_SUM, JSON.stringify(checksum, null, 2));
+  return {
+    entries: kept.length,
+    duplicates: dropped,
+    unreadable: lines - parsed.length,
+    checksum,
+  };
+}
+
+/**
+ * Regenerates surveys.json and surveys.list.json of one chain from its
+ * ledger; meta, funding and tallies carry over from a readable surveys.json
+ * and funding.json. Refuses a ledger that fails its checksum unless `force`.
+ */
+export function rebuildFromLedger(
+  outDir: string,
+  chainId: number,
+  opts: { force?: boolean; now?: number } = {}
+) {
+  const files = outputFiles(outDir);
+  const check = verifyLedger(outDir);
+  if (check.ok === false && !opts.force) {
+    throw new Error(
+      `${files.LEDGER} does not match ${path.basename(files.LEDGER_SUM)}; ` +
+        "restore it or rebuild with --force"
+    );
+  }
+
+  const state = readJSON<IndexerState>(files.STATE, { lastBlock: 0 });
+  const { surveys, entries, orphans } = rebuildSurveys(
+    parseLedger(readRaw(files.LEDGER).toString("utf8")),
+    {
+      prev: readJSON<SurveyMap>(files.SURV, {}),
+      scannedTo: state.cursors?.[SURVEYS_CURSOR] ?? (state.lastBlock || undefined),
+    }
+  );
+  applyBalances(
+    surveys,
+    buildBalances(readJSON<Record<string, FundingVerdict>>(files.FUNDING, {}))
+  );
+  const list = buildList(surveys, chainId, opts.now);
+
+  writeAtomic(files.SURV, JSON.stringify(surveys, null, 2));
+  writeAtomic(files.LIST, JSON.stringify(list, null, 2));
+  return { surveys, list, entries, orphans, verified: check.ok };
+}
+
+/** Rewrites the root surveys.list.json from the chains' own lists. */
+export function rebuildMergedList(rootDir: string, chainIds: number[]) {
+  const list: SurveyCard[] = [];
+  for (const id of chainIds) {
+    list.push(
+      ...readJSON<SurveyCard[]>(outputFiles(path.join(rootDir, String(id))).LIST, [])
+    );
+  }
+  fs.mkdirSync(rootDir, { recursive: true });
+  writeAtomic(outputFiles(rootDir).LIST, JSON.stringify(list, null, 2));
+  return list;
+}
@@ -0,0 +1,150 @@
+// backend/indexer/meta-schema.ts
+// The survey meta document whose canonical hash is anchored on-chain.
+
+import { isAddress, parseEther } from "ethers";
+import { parsePredicates } from "../predicates/validate";
+
+export interface MetaQuestion {
+  text: string;
+  options?: string[];
+  /** Survey.SelectionType: 0 = single, 1 = multiple */
+  selectionType?: 0 | 1;
+}
+
+export interface SurveyMeta {
+  title: string;
+  summary?: string;
+  image?: string;
+  /** decimal ETH, e.g. "0.5"; must equal the on-chain `plannedReward` */
+  plannedReward?: string | number;
+  gate?: { addr?: string; predicates?: unknown; epoch?: string | number };
+  /** any version ../predicates accepts */
+  predicates?: unknown;
+  questions?: MetaQuestion[];
+  /** BCP 47 tag, e.g. "en" or "pt-BR" */
+  locale?: string;
+}
+
+export type MetaIssueCode =
+  | "missing"
+  | "hash_mismatch"
+  | "schema"
+  | "planned_reward_mismatch";
+
+/** Why a survey's meta is unusable or disagrees with the chain. */
+export type MetaIssue = {
+  code: MetaIssueCode;
+  message: string;
+  /** field inside the meta document, for "schema" issues */
+  path?: string;
+  expected?: string;
+  actual?: string;
+};
+
+export const TITLE_MAX = 200;
+export const SUMMARY_MAX = 5000;
+
+const LOCALE_RE = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+const IMAGE_RE = /^(https?:\/\/|ipfs:\/\/|data:image\/)/i;
+
+const typeOf = (v: unknown) =>
+  v === null ? "null" : Array.isArray(v) ? "array" : typeof v;
+
+/**
+ * Checks a meta document against `SurveyMeta`. Unknown top-level keys are
+ * allowed; predicate clauses the predicate validator drops are reported
+ * under `predicates` / `gate.predicates`.
+ */
+export function validateMeta(meta: unknown): MetaIssue[] {
+  const issues: MetaIssue[] = [];
+  const issue = (path: string, message: string) =>
+    issues.push({ code: "schema", path, message });
+
+  if (typeOf(meta) !== "object") {
+    issue("", `expected an object, got ${typeOf(meta)}`);
+    return issues;
+  }
+  const m = meta as Record<string, any>;
+
+  const str = (path: string, v: unknown, max?: number) => {
+    if (typeof v !== "string") {
+      issue(path, `expected a string, got ${typeOf(v)}`);
+      return false;
+    }
+    if (max && v.length > max) issue(path, `longer than ${max} characters`);
+    return true;
+  };
+
+  if (m.title === undefined) issue("title", "is required");
+  else if (str("title", m.title, TITLE_MAX) && !m.title.trim()) {
+    issue("title", "must not be empty");
+  }
+  if (m.summary !== undefined) str("summary", m.summary, SUMMARY_MAX);
+  if (m.image !== undefined && str("image", m.image) && m.image && !IMAGE_RE.test(m.image)) {
+    issue("image", "expected an http(s), ipfs or data:image URL");
+  }
+  if (m.locale !== undefined && str("locale", m.locale) && !LOCALE_RE.test(m.locale)) {
+    issue("locale", `"${m.locale}" is not a BCP 47 language tag`);
+  }
+
+  if (m.plannedReward !== undefined) {
+    const v = m.plannedReward;
+    if (typeof v !== "string" && typeof v !== "number") {
+      issue("plannedReward", `expected a decimal ETH amount, got ${typeOf(v)}`);
+    } else {
+      try {
+        if (parseEther(String(v)) < 0n) issue("plannedReward", "must not be negative");
+      } catch {
+        issue("plannedReward", `"${v}" is not a decimal ETH amount`);
+      }
+    }
+  }
+
+  const predicates = (path: string, raw: unknown) => {
+    for (const r of parsePredicates(raw).rejected) {
+      issue(r.path ? `${path}.${r.path}` : path, r.reason);
+    }
+  };
+  if (m.predicates !== undefined) predicates("predicates", m.predicates);
+
+  if (m.gate !== undefined) {
+    const g = m.gate;
+    if (typeOf(g) !== "object") {
+      issue("gate", `expected an object, got ${typeOf(g)}`);
+    } else {
+      if (g.addr !== undefined && (typeof g.addr !== "string" || !isAddress(g.addr))) {
+        issue("gate.addr", "expected a 20-byte hex address");
+      }
+      if (g.epoch !== undefined && !["string", "number"].includes(typeof g.epoch)) {
+        issue("gate.epoch", `expected a string or number, got ${typeOf(g.epoch)}`);
+      }
+      if (g.predicates !== undefined) predicates("gate.predicates", g.predicates);
+    }
+  }
+
+  if (m.questions !== undefined) {
+    if (!Array.isArray(m.questions)) {
+      issue("questions", `expected a list, got ${typeOf(m.questions)}`);
+    } else {
+      m.questions.forEach((q: any, i: number) => {
+        const path = `questions[${i}]`;
+        if (typeOf(q) !== "object") {
+          return issue(path, `expected an object, got ${typeOf(q)}`);
+        }
+        str(`${path}.text`, q.text);
+        if (q.options !== undefined) {
+          if (!Array.isArray(q.options)) {
+            issue(`${path}.options`, `expected a list, got ${typeOf(q.options)}`);
+          } else {
+            q.options.forEach((o: unknown, j: number) => str(`${path}.options[${j}]`, o));
+          }
+        }
+        if (q.selectionType !== undefined && q.selectionType !== 0 && q.selectionType !== 1) {
+          issue(`${path}.selectionType`, "expected 0 (single) or 1 (multiple)");
+        }
+      });
+    }
+  }
+
+  return issues;
+}
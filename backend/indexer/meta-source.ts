@@ -0,0 +1,263 @@
+// backend/indexer/meta-source.ts
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { keccak256, toUtf8Bytes } from "ethers";
+import {
+  blockContent,
+  cidStrings,
+  cidToString,
+  parseCid,
+  readCar,
+  verifyBlock,
+  type Cid,
+} from "./cid";
+import { canonicalHash, errorText } from "./util";
+
+export type MetaDoc = {
+  meta: any;
+  url: string;
+  /** set when the document was read from a content-addressed block */
+  cid?: string;
+  /** which source produced it: mirror, ipfs, worker, cache */
+  source?: string;
+};
+
+export interface MetaSource {
+  /** Public URL of a survey's meta document (also used when it is missing). */
+  urlFor(survey: string, chainId: number): string;
+  /** `metaHash` is the on-chain commitment, when known. */
+  fetch(survey: string, chainId: number, metaHash?: string): Promise<MetaDoc | null>;
+}
+
+/** keccak256 of an `ipfs://<cid>` URL — the other form a metaHash may take. */
+export const cidAnchor = (cid: string) => keccak256(toUtf8Bytes(`ipfs://${cid}`));
+
+/**
+ * Whether `doc` is the document `metaHash` commits to: either its canonical
+ * JSON hashes to it, or it came from a CID whose `ipfs://` URL does.
+ * Anything matches a survey without a metaHash.
+ */
+export function metaDocMatches(doc: MetaDoc, metaHash?: string) {
+  if (!metaHash) return true;
+  const want = metaHash.toLowerCase();
+  if (doc.cid && cidAnchor(doc.cid).toLowerCase() === want) return true;
+  try {
+    return canonicalHash(doc.meta).toLowerCase() === want;
+  } catch {
+    return false;
+  }
+}
+
+/** Reads `GET ${apiBase}/meta/:chainId/:addr.json` from the Worker. */
+export function createWorkerMetaSource(apiBase: string): MetaSource {
+  const base = apiBase.replace(/\/+$/, "");
+  const urlFor = (survey: string, chainId: number) =>
+    `${base}/meta/${chainId}/${survey}.json`.trim();
+
+  return {
+    urlFor,
+    async fetch(survey, chainId) {
+      const url = urlFor(survey, chainId);
+      try {
+        const res = await fetch(url, { cache: "no-store" });
+        if (!res.ok) return null;
+        return { meta: await res.json(), url, source: "worker" };
+      } catch (e) {
+        console.warn(`Failed to fetch meta for ${survey}:`, e);
+        return null;
+      }
+    },
+  };
+}
+
+function readJSONFile(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A local directory laid out like the Worker's meta store,
+ * `<dir>/<chainId>/<survey>.json`, or keyed by hash as `<dir>/<metaHash>.json`.
+ */
+export function createMirrorMetaSource(dir: string): MetaSource {
+  const urlFor = (survey: string, chainId: number) =>
+    pathToFileURL(path.join(dir, String(chainId), `${survey.toLowerCase()}.json`)).href;
+
+  return {
+    urlFor,
+    async fetch(survey, chainId, metaHash) {
+      const files = [path.join(dir, String(chainId), `${survey.toLowerCase()}.json`)];
+      if (metaHash) files.push(path.join(dir, `${metaHash.toLowerCase()}.json`));
+      for (const file of files) {
+        const meta = readJSONFile(file);
+        if (meta !== undefined) {
+          return { meta, url: pathToFileURL(file).href, source: "mirror" };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+type CidEntry = { cid: Cid; bytes?: Uint8Array };
+
+/**
+ * Meta stored as IPFS blocks. `dir` may hold blocks named by CID (any
+ * extension), CAR files, and a `cids.json` of `{ "<metaHash>": "<cid>" }`
+ * pointers; blocks it lacks are fetched from `gateway` as raw blocks. A CID
+ * is looked up by its `ipfs://` anchor or by the canonical hash of its
+ * content, and every block is checked against its CID before use.
+ */
+export function createCidMetaSource(opts: { dir?: string; gateway?: string }): MetaSource {
+  const gateway = (opts.gateway || "").replace(/\/+$/, "");
+  let index = new Map<string, CidEntry>();
+  let indexedAt = -1;
+
+  function addBlock(entry: CidEntry) {
+    for (const s of cidStrings(entry.cid)) {
+      index.set(cidAnchor(s).toLowerCase(), entry);
+    }
+    if (!entry.bytes) return;
+    try {
+      const json = JSON.parse(Buffer.from(blockContent(entry.cid, entry.bytes)).toString("utf8"));
+      index.set(canonicalHash(json).toLowerCase(), entry);
+    } catch {}
+  }
+
+  // rebuilt whenever the directory changes, so watch mode sees new blocks
+  function refreshIndex() {
+    if (!opts.dir || !fs.existsSync(opts.dir)) return;
+    const mtime = fs.statSync(opts.dir).mtimeMs;
+    if (mtime === indexedAt) return;
+    index = new Map();
+    indexedAt = mtime;
+    const pointers: Record<string, string> = {};
+    for (const name of fs.readdirSync(opts.dir)) {
+      const file = path.join(opts.dir, name);
+      try {
+        if (name === "cids.json") {
+          Object.assign(pointers, readJSONFile(file));
+        } else if (name.endsWith(".car")) {
+          for (const b of readCar(fs.readFileSync(file))) addBlock(b);
+        } else {
+          const cid = parseCid(name.replace(/\.[^.]*$/, ""));
+          addBlock({ cid, bytes: fs.readFileSync(file) });
+        }
+      } catch (e) {
+        console.warn(`[Meta] Skipping ${file}: ${errorText(e)}`);
+      }
+    }
+    for (const [hash, cid] of Object.entries(pointers)) {
+      try {
+        const parsed = parseCid(cid);
+        const held = index.get(cidAnchor(cidToString(parsed)).toLowerCase());
+        index.set(hash.toLowerCase(), held ?? { cid: parsed });
+      } catch (e) {
+        console.warn(`[Meta] Bad CID for ${hash} in cids.json: ${errorText(e)}`);
+      }
+    }
+  }
+
+  async function blockBytes(entry: CidEntry) {
+    if (entry.bytes) return entry.bytes;
+    if (!gateway) return null;
+    const cid = cidToString(entry.cid);
+    const res = await fetch(`${gateway}/ipfs/${cid}?format=raw`, {
+      headers: { accept: "application/vnd.ipld.raw" },
+      signal: AbortSignal.timeout(20_000),
+    });
+    if (!res.ok) throw new Error(`gateway answered ${res.status} for ${cid}`);
+    return new Uint8Array(await res.arrayBuffer());
+  }
+
+  return {
+    urlFor: () => "",
+    async fetch(survey, _chainId, metaHash) {
+      if (!metaHash) return null;
+      refreshIndex();
+      const entry = index.get(metaHash.toLowerCase());
+      if (!entry) return null;
+      const cid = cidToString(entry.cid);
+      try {
+        const bytes = await blockBytes(entry);
+        if (!bytes) return null;
+        verifyBlock(entry.cid, bytes);
+        const text = Buffer.from(blockContent(entry.cid, bytes)).toString("utf8");
+        return { meta: JSON.parse(text), url: `ipfs://${cid}`, cid, source: "ipfs" };
+      } catch (e) {
+        console.warn(`[Meta] ${survey}: cannot read ${cid}: ${errorText(e)}`);
+        return null;
+      }
+    },
+  };
+}
+
+export interface MetaCache {
+  get(metaHash: string): MetaDoc | null;
+  put(metaHash: string, doc: MetaDoc): void;
+}
+
+/** `<dir>/<metaHash>.json`; entries never go stale since the key is the content. */
+export function createFsMetaCache(dir: string): MetaCache {
+  const file = (metaHash: string) => path.join(dir, `${metaHash.toLowerCase()}.json`);
+  return {
+    get(metaHash) {
+      const doc = readJSONFile(file(metaHash)) as MetaDoc | undefined;
+      return doc && typeof doc === "object" && "meta" in doc ? doc : null;
+    },
+    put(metaHash, doc) {
+      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+      const f = file(metaHash);
+      fs.writeFileSync(f + ".tmp", JSON.stringify(doc, null, 2));
+      fs.renameSync(f + ".tmp", f);
+    },
+  };
+}
+
+export function createMemoryMetaCache(): MetaCache & { docs: Map<string, MetaDoc> } {
+  const docs = new Map<string, MetaDoc>();
+  return {
+    docs,
+    get: (metaHash) => docs.get(metaHash.toLowerCase()) ?? null,
+    put: (metaHash, doc) => void docs.set(metaHash.toLowerCase(), doc),
+  };
+}
+
+/**
+ * Tries `sources` in order and returns the first document that matches the
+ * on-chain metaHash, caching it under that hash. When none matches, the
+ * first document found is returned unverified so the mismatch can be
+ * reported. The last source is the public one: its `urlFor` names cards'
+ * `metaUrl`, and mirror copies are linked there since the Worker sink
+ * publishes every verified document.
+ */
+export function createMetaResolver(sources: MetaSource[], cache?: MetaCache): MetaSource {
+  const urlFor = sources[sources.length - 1].urlFor;
+
+  return {
+    urlFor,
+    async fetch(survey, chainId, metaHash) {
+      const cached = metaHash ? cache?.get(metaHash) : null;
+      if (cached) return { ...cached, source: "cache" };
+
+      let fallback: MetaDoc | null = null;
+      for (const source of sources) {
+        const doc = await source.fetch(survey, chainId, metaHash);
+        if (!doc) continue;
+        if (doc.source === "mirror") doc.url = urlFor(survey, chainId);
+        if (!metaDocMatches(doc, metaHash)) {
+          console.warn(`[Meta] ${survey}: ${doc.source ?? "source"} copy does not match metaHash`);
+          fallback ??= doc;
+          continue;
+        }
+        if (metaHash) cache?.put(metaHash, doc);
+        return doc;
+      }
+      return fallback;
+    },
+  };
+}
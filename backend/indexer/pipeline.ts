@@ -0,0 +1,898 @@
+// backend/indexer/pipeline.ts
+// Pure transforms: decoded chain events and meta in, survey records and
+// cards out. Nothing here touches the network or the filesystem.
+
+import { formatEther, isAddress, parseEther, ZeroAddress } from "ethers";
+import { decodeFactoryEvent, decodeGateEvent, decodeSurveyEvent } from "../abi";
+import { eligibilityDomain, ELIGIBILITY_TYPES } from "../eligibility/eip712";
+import type { ChainLog, ChainReceipt, ChainTx } from "./chain-source";
+import { validateMeta, type MetaIssue } from "./meta-schema";
+import { metaDocMatches, type MetaDoc } from "./meta-source";
+import { flattenConjunction, parsePredicates } from "../predicates/validate";
+import { checkResults, type SurveyResults } from "../results/results";
+import type {
+  AttestationsDoc,
+  AttestationStats,
+  BalanceEntry,
+  BlockCheckpoint,
+  EligibilityAttestedEntry,
+  FundingState,
+  FundingSubmission,
+  FundingVerdict,
+  GateInfo,
+  GatesDoc,
+  LedgerEntry,
+  Predicate,
+  SurveyCard,
+  SurveyDeployedEntry,
+  SurveyEventEntry,
+  SurveyMap,
+  SurveyRecord,
+  StatusTimes,
+  SurveyStatus,
+  UHashReuse,
+} from "./types";
+import { canonicalHash, canonicalize, nowSec, toSec } from "./util";
+
+
+// ---------- Predicates ----------
+/** Meta predicates (any schema version) as a flat v1 list; see ../predicates. */
+export function normalizePredicates(raw: any): Predicate[] {
+  return flattenConjunction(parsePredicates(raw).rule) ?? [];
+}
+
+// ---------- Status computation ----------
+/** The on-chain facts the lifecycle status is derived from. */
+export type StatusInput = {
+  createdSec?: number;
+  startSec?: number;
+  endSec?: number;
+  finalizedSec?: number;
+  claimOpenAt?: number;
+  claimDeadline?: number;
+  prizeSwept?: string;
+  prizeLiveBalance?: string;
+  sweptSec?: number;
+};
+
+const at = (t?: number) => (t && t > 0 ? t : 0);
+
+// a deadline without an opening time means claims open at finalization
+const claimOpensAt = (s: StatusInput) =>
+  at(s.claimOpenAt) || (at(s.claimDeadline) ? at(s.finalizedSec) : 0);
+
+const isSwept = (s: StatusInput) =>
+  BigInt(s.prizeSwept || 0) > 0n && BigInt(s.prizeLiveBalance || 0) === 0n;
+
+export function computeStatus(s: StatusInput, now = nowSec()): SurveyStatus {
+  if (at(s.finalizedSec)) {
+    if (isSwept(s)) return "swept";
+    if (at(s.claimDeadline) && now >= at(s.claimDeadline)) return "claim_closed";
+    if (claimOpensAt(s) && now >= claimOpensAt(s)) return "claim_open";
+    return "finalized";
+  }
+  if (at(s.endSec) && now >= at(s.endSec)) return "awaiting_finalization";
+  if (at(s.startSec) && now < at(s.startSec)) return "upcoming";
+  return "active";
+}
+
+/**
+ * When each status a survey goes through begins. Clock-driven ones are
+ * known ahead (start, end, the claim window); `finalized` and `swept` only
+ * once they happened.
+ */
+export function statusTimes(s: StatusInput): StatusTimes {
+  const t: StatusTimes = {};
+  const set = (k: SurveyStatus, v: number) => {
+    if (v) t[k] = v;
+  };
+  if (at(s.createdSec) && at(s.createdSec) < at(s.startSec)) set("upcoming", at(s.createdSec));
+  set("active", at(s.startSec));
+  set("awaiting_finalization", at(s.endSec));
+  if (at(s.finalizedSec)) {
+    set("finalized", at(s.finalizedSec));
+    set("claim_open", claimOpensAt(s));
+    set("claim_closed", at(s.claimDeadline));
+    if (isSwept(s)) set("swept", at(s.sweptSec));
+  }
+  return t;
+}
+
+export function computeFundingState(s: SurveyRecord): FundingState {
+  if (isSwept(s)) return "swept";
+  const funded = [s.prizeFunded, s.fundedAmountWei]
+    .map((v) => BigInt(v || 0))
+    .reduce((a, b) => (b > a ? b : a), 0n);
+  if (funded === 0n) return "unfunded";
+  const planned = BigInt(s.plannedRewardOnchainWei || s.plannedRewardWei || 0);
+  return funded < planned ? "partial" : "funded";
+}
+
+/** Next time a card's status flips by the clock alone (0 when none will). */
+export function nextStatusChange(list: SurveyCard[], now = nowSec()) {
+  let next = 0;
+  for (const c of list) {
+    for (const t of Object.values(c.statusTimes || {})) {
+      if (t > now && (!next || t < next)) next = t;
+    }
+  }
+  return next;
+}
+
+// ---------- Log decoding ----------
+export function decodeFactoryLog(
+  l: ChainLog,
+  ts: number
+): SurveyDeployedEntry | null {
+  const p = decodeFactoryEvent(l);
+  if (p?.name !== "SurveyDeployed") return null;
+  return {
+    t: "SurveyDeployed",
+    survey: p.args.survey.toLowerCase(),
+    factory: l.address.toLowerCase(),
+    creator: p.args.creator.toLowerCase(),
+    start: toSec(Number(p.args.startTime)),
+    end: toSec(Number(p.args.endTime)),
+    metaHash: p.args.metaHash,
+    surveyType: Number(p.args.surveyType),
+    plannedReward: p.args.plannedReward.toString(),
+    initialValue: p.args.initialValue.toString(),
+    block: l.blockNumber,
+    ts,
+    tx: l.transactionHash,
+    logIndex: l.index,
+  };
+}
+
+export function decodeSurveyLog(
+  l: ChainLog,
+  ts: number
+): SurveyEventEntry | null {
+  const p = decodeSurveyEvent(l);
+  if (!p) return null;
+  const base = {
+    survey: l.address.toLowerCase(),
+    block: l.blockNumber,
+    ts,
+    tx: l.transactionHash,
+    logIndex: l.index,
+  };
+
+  switch (p.name) {
+    case "Voted":
+      return { t: "Voted", ...base, voter: p.args.voter.toLowerCase() };
+    case "QuestionAdded":
+      return {
+        t: "QuestionAdded",
+        ...base,
+        index: Number(p.args.index),
+        text: p.args.text,
+      };
+    case "Finalized":
+      return {
+        t: "Finalized",
+        ...base,
+        totalParticipants: Number(p.args.totalParticipants),
+        rulesHash: p.args.rulesHash,
+        resultsHash: p.args.resultsHash,
+        claimOpenAt: Number(p.args.claimOpenAt),
+        claimDeadline: Number(p.args.claimDeadline),
+      };
+    case "PrizeFunded":
+      return {
+        t: "PrizeFunded",
+        ...base,
+        funder: p.args.funder.toLowerCase(),
+        amount: p.args.amount.toString(),
+      };
+    case "PrizeSwept":
+      return {
+        t: "PrizeSwept",
+        ...base,
+        to: p.args.to.toLowerCase(),
+        amount: p.args.amount.toString(),
+      };
+  }
+  return null;
+}
+
+export function decodeGateLog(
+  l: ChainLog,
+  ts: number
+): EligibilityAttestedEntry | null {
+  const p = decodeGateEvent(l);
+  if (p?.name !== "EligibilityAttested") return null;
+  return {
+    t: "EligibilityAttested",
+    survey: p.args.survey.toLowerCase(),
+    block: l.blockNumber,
+    ts,
+    tx: l.transactionHash,
+    logIndex: l.index,
+    gate: l.address.toLowerCase(),
+    user: p.args.user.toLowerCase(),
+    uHash: p.args.uHash.toLowerCase(),
+  };
+}
+
+// ---------- Applying events ----------
+export function applyDeployed(surveys: SurveyMap, e: SurveyDeployedEntry) {
+  const prev = surveys[e.survey];
+  surveys[e.survey] = {
+    ...(prev || {}),
+    factory: e.factory ?? prev?.factory,
+    creator: e.creator,
+    start: e.start,
+    end: e.end,
+    metaHash: e.metaHash,
+    surveyType: e.surveyType,
+    plannedRewardWei: e.initialValue,
+    plannedRewardEth: e.plannedReward,
+    plannedRewardOnchainWei: e.plannedReward,
+    funded: prev?.funded ?? false,
+    fundingTxHash: prev?.fundingTxHash ?? null,
+    createdAt: prev?.createdAt || e.ts,
+  };
+}
+
+const SURVEY_EVENT_FIELDS: (keyof SurveyRecord)[] = [
+  "participants",
+  "lastVoteAt",
+  "questions",
+  "finalizedAt",
+  "finalizeTxHash",
+  "rulesHash",
+  "resultsHash",
+  "claimOpenAt",
+  "claimDeadline",
+  "prizeFunded",
+  "prizeSwept",
+  "prizeLiveBalance",
+  "sweptAt",
+  "results",
+  "resultsVerified",
+  "resultsComputedHash",
+];
+
+export function resetSurveyEvents(rec: SurveyRecord) {
+  for (const k of SURVEY_EVENT_FIELDS) delete rec[k];
+}
+
+/** Applies one ledger entry produced by the survey pass to its record. */
+export function applySurveyEvent(rec: SurveyRecord, e: LedgerEntry) {
+  switch (e.t) {
+    case "Voted":
+      rec.participants = Number(rec.participants || 0) + 1;
+      rec.lastVoteAt = e.ts;
+      break;
+    case "QuestionAdded": {
+      const questions = (rec.questions || []).filter(
+        (q) => q.index !== e.index
+      );
+      questions.push({ index: e.index, text: e.text });
+      questions.sort((a, b) => a.index - b.index);
+      rec.questions = questions;
+      break;
+    }
+    case "Finalized":
+      // the contract's count is authoritative once finalized
+      rec.participants = e.totalParticipants;
+      rec.finalizedAt = e.ts;
+      rec.finalizeTxHash = e.tx;
+      rec.rulesHash = e.rulesHash;
+      rec.resultsHash = e.resultsHash;
+      rec.claimOpenAt = e.claimOpenAt;
+      rec.claimDeadline = e.claimDeadline;
+      break;
+    case "PrizeFunded":
+      rec.prizeFunded = (
+        BigInt(rec.prizeFunded || 0) + BigInt(e.amount)
+      ).toString();
+      break;
+    case "PrizeSwept":
+      rec.prizeSwept = (BigInt(rec.prizeSwept || 0) + BigInt(e.amount)).toString();
+      rec.sweptAt = e.ts;
+      break;
+    default:
+      return;
+  }
+  const live = BigInt(rec.prizeFunded || 0) - BigInt(rec.prizeSwept || 0);
+  rec.prizeLiveBalance = (live > 0n ? live : 0n).toString();
+}
+
+// ---------- Results ----------
+/** Stores a survey's tally and whether it hashes to the anchored resultsHash. */
+export function applyResults(rec: SurveyRecord, results: SurveyResults) {
+  const check = checkResults(results, rec.resultsHash || "");
+  rec.results = results;
+  rec.resultsVerified = check.verified;
+  if (check.verified) delete rec.resultsComputedHash;
+  else rec.resultsComputedHash = check.computed;
+}
+
+// ---------- Attestations ----------
+/**
+ * Eligible wallets and their votes per survey, and every uHash attested for
+ * more than one wallet or survey. The gate's own uHash replay check is off
+ * in demo mode, so reuse here is what a sybil looks like.
+ */
+export function buildAttestationReport(entries: LedgerEntry[]) {
+  const eligible = new Map<string, Set<string>>();
+  const voters = new Map<string, Set<string>>();
+  const byUHash = new Map<
+    string,
+    { wallets: Set<string>; surveys: Set<string>; n: number; first: number; last: number }
+  >();
+  const add = (m: Map<string, Set<string>>, k: string, v: string) => {
+    if (!m.has(k)) m.set(k, new Set());
+    m.get(k)!.add(v);
+  };
+
+  for (const e of entries) {
+    if (e.t === "Voted") add(voters, e.survey, e.voter);
+    if (e.t !== "EligibilityAttested") continue;
+    add(eligible, e.survey, e.user);
+    const u = byUHash.get(e.uHash) ?? {
+      wallets: new Set<string>(),
+      surveys: new Set<string>(),
+      n: 0,
+      first: e.block,
+      last: e.block,
+    };
+    u.wallets.add(e.user);
+    u.surveys.add(e.survey);
+    u.n++;
+    u.first = Math.min(u.first, e.block);
+    u.last = Math.max(u.last, e.block);
+    byUHash.set(e.uHash, u);
+  }
+
+  const surveys: Record<string, AttestationStats> = {};
+  for (const [survey, users] of eligible) {
+    const votedSet = voters.get(survey);
+    const voted = Array.from(users).filter((u) => votedSet?.has(u)).length;
+    surveys[survey] = {
+      eligible: users.size,
+      voted,
+      conversion: Math.round((voted / users.size) * 1e4) / 1e4,
+    };
+  }
+  const reuse: UHashReuse[] = [];
+  for (const [uHash, u] of byUHash) {
+    if (u.wallets.size < 2 && u.surveys.size < 2) continue;
+    reuse.push({
+      uHash,
+      wallets: Array.from(u.wallets).sort(),
+      surveys: Array.from(u.surveys).sort(),
+      attestations: u.n,
+      firstBlock: u.first,
+      lastBlock: u.last,
+    });
+  }
+  reuse.sort((a, b) => b.attestations - a.attestations || a.firstBlock - b.firstBlock);
+  return { surveys, reuse };
+}
+
+export function applyAttestations(
+  surveys: SurveyMap,
+  stats: Record<string, AttestationStats>
+) {
+  for (const [addr, rec] of Object.entries(surveys)) {
+    if (stats[addr]) rec.attestations = stats[addr];
+    else delete rec.attestations;
+  }
+}
+
+export function buildAttestationsDoc(
+  entries: LedgerEntry[],
+  gates: string[],
+  now = nowSec()
+): AttestationsDoc {
+  const { surveys, reuse } = buildAttestationReport(entries);
+  return { gates, surveys, uHashReuse: reuse, updatedAt: now };
+}
+
+/** Gates to index: the configured ones plus every gate named in meta. */
+export function gateAddresses(configured: string[], surveys: SurveyMap) {
+  const out = new Set<string>();
+  for (const g of configured) if (isAddress(g)) out.add(g.toLowerCase());
+  for (const rec of Object.values(surveys)) {
+    const g = rec.gate?.addr || "";
+    if (isAddress(g)) out.add(g.toLowerCase());
+  }
+  return Array.from(out);
+}
+
+// ---------- Reorg rollback ----------
+/**
+ * Drops every ledger entry above `ancestor`, deletes surveys whose deployment
+ * was dropped and replays the remaining survey events for touched surveys.
+ * Mutates `surveys`; returns the entries to keep.
+ */
+export function rollbackLedger(
+  entries: LedgerEntry[],
+  ancestor: number,
+  surveys: SurveyMap
+) {
+  const kept = entries.filter((e) => !(Number(e.block) > ancestor));
+  const dropped = entries.filter((e) => Number(e.block) > ancestor);
+
+  const deployedKept = new Set(
+    kept.filter((e) => e.t === "SurveyDeployed").map((e) => e.survey)
+  );
+  const touched = new Set<string>();
+  for (const e of dropped) {
+    if (!e.survey) continue;
+    if (e.t === "SurveyDeployed" && !deployedKept.has(e.survey)) {
+      delete surveys[e.survey];
+    } else {
+      touched.add(e.survey);
+    }
+  }
+
+  for (const addr of touched) {
+    const rec = surveys[addr];
+    if (!rec) continue;
+    resetSurveyEvents(rec);
+    for (const e of kept) if (e.survey === addr) applySurveyEvent(rec, e);
+  }
+  for (const rec of Object.values(surveys)) {
+    if (Number(rec.eventsBlock || 0) > ancestor) rec.eventsBlock = ancestor;
+  }
+  return { kept, dropped };
+}
+
+// ---------- Ledger keys, compaction and replay ----------
+/** `<chainId>:<tx>:<logIndex>`, or null for a line written before keys. */
+export function ledgerKey(e: LedgerEntry): string | null {
+  if (e.logIndex === undefined || e.logIndex === null) return null;
+  return `${e.chainId ?? ""}:${String(e.tx).toLowerCase()}:${e.logIndex}`;
+}
+
+/** The entry without its key fields, to match keyless lines against. */
+function contentKey(e: LedgerEntry) {
+  const { chainId: _c, logIndex: _l, ...rest } = e;
+  return canonicalize({ ...rest, tx: String(rest.tx).toLowerCase() });
+}
+
+export type LedgerIndex = {
+  /** records `e`; false when the ledger already holds it */
+  add(e: LedgerEntry): boolean;
+};
+
+/**
+ * Which entries a ledger holds. Keyed entries match by key. A keyless line
+ * stands for one event: it matches the first keyed entry with the same
+ * content, so the first run after the upgrade does not append every
+ * rescanned event again, and identical keyless lines are one event.
+ */
+export function createLedgerIndex(entries: LedgerEntry[] = []): LedgerIndex {
+  const keys = new Set<string>();
+  // keyless content → already matched by a keyed entry
+  const keyless = new Map<string, boolean>();
+  // content of keyed entries no keyless line has matched yet
+  const unmatched = new Map<string, number>();
+
+  const index: LedgerIndex = {
+    add(e) {
+      const k = ledgerKey(e);
+      const c = contentKey(e);
+      if (k) {
+        if (keys.has(k)) return false;
+        keys.add(k);
+        if (keyless.get(c) === false) {
+          keyless.set(c, true);
+          return false;
+        }
+        unmatched.set(c, (unmatched.get(c) || 0) + 1);
+        return true;
+      }
+      if (keyless.has(c)) return false;
+      const n = unmatched.get(c) || 0;
+      if (n) {
+        if (n === 1) unmatched.delete(c);
+        else unmatched.set(c, n - 1);
+        keyless.set(c, true);
+        return false;
+      }
+      keyless.set(c, false);
+      return true;
+    },
+  };
+  for (const e of entries) index.add(e);
+  return index;
+}
+
+/** Keeps the first occurrence of every entry. */
+export function dedupeLedger(entries: LedgerEntry[]) {
+  const index = createLedgerIndex();
+  const kept = entries.filter((e) => index.add(e));
+  return { kept, dropped: entries.length - kept.length };
+}
+
+/** Chain order: block, then log index; keyless lines keep their order. */
+export function sortLedger(entries: LedgerEntry[]) {
+  return [...entries].sort(
+    (a, b) =>
+      Number(a.block) - Number(b.block) ||
+      Number(a.logIndex ?? -1) - Number(b.logIndex ?? -1)
+  );
+}
+
+/**
+ * Rebuilds survey records from the ledger alone. Deployment and event fields
+ * are replayed; what the ledger does not carry (meta, funding, the tally) is
+ * taken from `prev` when present. `scannedTo` becomes `eventsBlock` of
+ * surveys `prev` does not know, so the next run does not re-apply events.
+ * Events of surveys without a SurveyDeployed line are counted as orphans.
+ */
+export function rebuildSurveys(
+  entries: LedgerEntry[],
+  opts: { prev?: SurveyMap; scannedTo?: number } = {}
+) {
+  const prev = opts.prev || {};
+  const sorted = sortLedger(dedupeLedger(entries).kept);
+  const surveys: SurveyMap = {};
+  let orphans = 0;
+
+  for (const e of sorted) {
+    if (e.t === "EligibilityAttested") continue;
+    if (e.t === "SurveyDeployed") {
+      if (!surveys[e.survey] && prev[e.survey]) {
+        const carried = { ...prev[e.survey] };
+        resetSurveyEvents(carried);
+        surveys[e.survey] = carried;
+      }
+      applyDeployed(surveys, e);
+      continue;
+    }
+    const rec = surveys[e.survey];
+    if (!rec) {
+      orphans++;
+      continue;
+    }
+    applySurveyEvent(rec, e);
+  }
+
+  const lastBlock = sorted.length ? Number(sorted[sorted.length - 1].block) : 0;
+  for (const [addr, rec] of Object.entries(surveys)) {
+    rec.eventsBlock = prev[addr]?.eventsBlock ?? opts.scannedTo ?? lastBlock;
+    const results = prev[addr]?.results;
+    if (results && rec.resultsHash) applyResults(rec, results);
+  }
+  applyAttestations(surveys, buildAttestationReport(sorted).surveys);
+  return { surveys, entries: sorted.length, orphans };
+}
+
+/** Merges freshly observed block hashes into the checkpoint list. */
+export function mergeCheckpoints(
+  prev: BlockCheckpoint[],
+  observed: Map<number, string>,
+  toBlock: number,
+  limit: number
+): BlockCheckpoint[] {
+  const cpMap = new Map(prev.map((cp) => [cp.n, cp.hash]));
+  for (const [n, hash] of observed) cpMap.set(n, hash);
+  return Array.from(cpMap, ([n, hash]) => ({ n, hash }))
+    .filter((cp) => cp.n <= toBlock)
+    .sort((a, b) => a.n - b.n)
+    .slice(-limit);
+}
+
+// ---------- Meta ----------
+/**
+ * Copies meta-derived fields onto a record; `doc` null means "no meta".
+ * `metaValid` only says the document is present and matches `metaHash`;
+ * everything else that is wrong with it is listed in `metaIssues`.
+ */
+export function applyMeta(
+  rec: SurveyRecord,
+  doc: MetaDoc | null,
+  opts: { metaUrl: string; gateAddrHint?: string }
+): SurveyRecord {
+  const meta = doc?.meta ?? null;
+
+  const plannedRewardEth = meta ? (meta?.plannedReward ?? "0").toString() : "0";
+  let plannedRewardWei: string | null = null;
+  try {
+    plannedRewardWei = parseEther(plannedRewardEth).toString();
+  } catch {}
+
+  const metaUrl = doc?.url ?? opts.metaUrl;
+  const issues: MetaIssue[] = [];
+  let valid = !!meta;
+  if (!meta) {
+    issues.push({ code: "missing", message: `no meta document at ${metaUrl}` });
+  } else {
+    issues.push(...validateMeta(meta));
+    valid = metaDocMatches(doc!, rec.metaHash);
+    if (!valid) {
+      let actual = "";
+      try {
+        actual = canonicalHash(meta).toLowerCase();
+      } catch {}
+      issues.push({
+        code: "hash_mismatch",
+        message: doc?.cid
+          ? `neither keccak256(canonicalize(meta)) nor ipfs://${doc.cid} matches the on-chain metaHash`
+          : "keccak256(canonicalize(meta)) differs from the on-chain metaHash",
+        expected: String(rec.metaHash).toLowerCase(),
+        actual,
+      });
+    }
+    // an unparsable amount is already a schema issue
+    if (
+      rec.plannedRewardOnchainWei !== undefined &&
+      plannedRewardWei !== null &&
+      plannedRewardWei !== rec.plannedRewardOnchainWei
+    ) {
+      issues.push({
+        code: "planned_reward_mismatch",
+        message: `meta plannedReward ${plannedRewardEth} ETH differs from the on-chain ${formatEther(rec.plannedRewardOnchainWei)} ETH`,
+        expected: rec.plannedRewardOnchainWei,
+        actual: plannedRewardWei,
+      });
+    }
+  }
+
+  const gateAddr = (meta?.gate?.addr ?? "").toString();
+  const predicatesRaw = meta?.predicates ?? meta?.gate?.predicates ?? null;
+  const epoch = meta?.gate?.epoch ? String(meta.gate.epoch) : undefined;
+  const parsed = parsePredicates(predicatesRaw);
+  const normPreds = flattenConjunction(parsed.rule) ?? [];
+  // the gate the survey was deployed with wins over what meta claims
+  const onchain = rec.onchainGate;
+  const gateAddrCandidate = (
+    onchain !== undefined
+      ? onchain === ZeroAddress ? "" : onchain
+      : gateAddr || opts.gateAddrHint || ""
+  ).toLowerCase();
+
+  return {
+    ...rec,
+    title: (meta?.title ?? "Untitled").toString(),
+    summary: (meta?.summary ?? "").toString(),
+    image: (meta?.image ?? "").toString(),
+    plannedRewardEth,
+    plannedRewardWei: plannedRewardWei ?? "0",
+    metaValid: valid,
+    metaIssues: issues,
+    metaUrl,
+    // kept so the Worker sink can push the verified document
+    meta: valid ? meta : undefined,
+    ...(gateAddrCandidate || parsed.rule || parsed.rejected.length || epoch
+      ? {
+          gate: {
+            addr: gateAddrCandidate,
+            predicates: normPreds,
+            rule: parsed.rule ?? undefined,
+            rejected: parsed.rejected.length ? parsed.rejected : undefined,
+            epoch,
+          } as GateInfo,
+        }
+      : {}),
+  };
+}
+
+// ---------- Funding ----------
+/**
+ * Judges one submission against its on-chain transaction: it must be mined,
+ * successful, have `minConf` confirmations and move value to the survey
+ * itself or to the treasury Safe. Unconfirmed/unknown txs stay "pending".
+ */
+export function judgeFunding(
+  sub: FundingSubmission,
+  tx: ChainTx | null,
+  receipt: ChainReceipt | null,
+  ctx: { surveys: SurveyMap; latest: number; minConf: number; treasurySafe: string }
+): FundingVerdict {
+  const base = { survey: sub.survey, file: sub.file, checkedAt: nowSec() };
+  const reject = (reason: string, extra = {}): FundingVerdict => ({
+    ...base,
+    ...extra,
+    status: "rejected",
+    reason,
+  });
+
+  if (!/^0x[0-9a-fA-F]{64}$/.test(sub.txHash)) return reject("bad tx hash");
+  if (!ctx.surveys[sub.survey]) {
+    return { ...base, status: "pending", reason: "survey not indexed yet" };
+  }
+  if (!tx || !receipt) {
+    return { ...base, status: "pending", reason: "tx not found or not mined" };
+  }
+
+  const to = String(tx.to || "").toLowerCase();
+  const extra = {
+    to,
+    from: String(tx.from || "").toLowerCase(),
+    amountWei: BigInt(tx.value || 0).toString(),
+    block: receipt.blockNumber,
+  };
+  if (receipt.status !== 1) return reject("tx reverted", extra);
+
+  let toKind: FundingVerdict["toKind"];
+  if (to === sub.survey) toKind = "survey";
+  else if (ctx.treasurySafe && to === ctx.treasurySafe) toKind = "treasury";
+  else {
+    return reject(
+      ctx.treasurySafe
+        ? `recipient ${to} is neither the survey nor the treasury Safe`
+        : `recipient ${to} is not the survey (TREASURY_SAFE not configured)`,
+      extra
+    );
+  }
+  if (BigInt(extra.amountWei) === 0n) return reject("zero value", extra);
+  // a transfer to the survey can only be claimed for that survey; one to the
+  // shared treasury must come from the creator, or any survey could claim it
+  if (toKind === "treasury") {
+    const creator = String(ctx.surveys[sub.survey].creator || "").toLowerCase();
+    if (!creator) {
+      return { ...base, ...extra, status: "pending", reason: "survey creator not indexed yet" };
+    }
+    if (extra.from !== creator) {
+      return reject(`sender ${extra.from} is not the survey creator ${creator}`, extra);
+    }
+  }
+
+  const confirmations = ctx.latest - receipt.blockNumber + 1;
+  if (confirmations < ctx.minConf) {
+    return {
+      ...base,
+      ...extra,
+      toKind,
+      status: "pending",
+      reason: `${confirmations}/${ctx.minConf} confirmations`,
+    };
+  }
+  return { ...base, ...extra, toKind, status: "accepted" };
+}
+
+/** Verdicts are keyed "<survey>:<txHash>". */
+export const verdictKey = (survey: string, txHash: string) =>
+  `${survey}:${txHash}`;
+const txOfKey = (key: string) => key.split(":")[1];
+
+/** Survey a tx was already credited to, other than under `key` itself. */
+export function creditedElsewhere(
+  verdicts: Record<string, FundingVerdict>,
+  key: string
+) {
+  const txHash = txOfKey(key);
+  const hit = Object.entries(verdicts).find(
+    ([k, v]) => k !== key && txOfKey(k) === txHash && v.status === "accepted"
+  );
+  return hit ? hit[1].survey : null;
+}
+
+export function buildBalances(
+  verdicts: Record<string, FundingVerdict>
+): Record<string, BalanceEntry> {
+  const balances: Record<string, BalanceEntry> = {};
+  for (const [key, v] of Object.entries(verdicts)) {
+    if (v.status !== "accepted") continue;
+    const b = (balances[v.survey] ||= {
+      fundedWei: "0",
+      fundedEth: "0",
+      txs: [],
+    });
+    b.fundedWei = (BigInt(b.fundedWei) + BigInt(v.amountWei || 0)).toString();
+    b.fundedEth = formatEther(b.fundedWei);
+    b.txs.push({
+      txHash: txOfKey(key),
+      amountWei: v.amountWei,
+      to: v.toKind,
+      block: v.block,
+    });
+  }
+  return balances;
+}
+
+export function applyBalances(
+  surveys: SurveyMap,
+  balances: Record<string, BalanceEntry>
+) {
+  for (const [addr, rec] of Object.entries(surveys)) {
+    const b = balances[addr];
+    rec.funded = !!b;
+    rec.fundingTxHash = b ? b.txs[0].txHash : null;
+    rec.fundedAmountWei = b ? b.fundedWei : "0";
+  }
+}
+
+// ---------- Cards ----------
+export function buildCard(
+  address: string,
+  s: SurveyRecord,
+  chainId: number,
+  now = nowSec()
+): SurveyCard {
+  const createdSec = s.createdAt ? toSec(s.createdAt) : 0;
+  const startSec = s.start ? toSec(s.start) : 0;
+  const endSec = s.end ? toSec(s.end) : 0;
+  const finalizedSec = s.finalizedAt ? toSec(s.finalizedAt) : 0;
+  const lifecycle: StatusInput = {
+    createdSec,
+    startSec,
+    endSec,
+    finalizedSec,
+    claimOpenAt: s.claimOpenAt,
+    claimDeadline: s.claimDeadline,
+    prizeSwept: s.prizeSwept,
+    prizeLiveBalance: s.prizeLiveBalance,
+    sweptSec: s.sweptAt,
+  };
+
+  return {
+    address: address.toLowerCase(),
+    factory: s.factory,
+    creator: (s.creator || "").toLowerCase(),
+    startTime: startSec,
+    endTime: endSec,
+    createdSec,
+    startSec,
+    endSec,
+    finalizedSec,
+    status: computeStatus(lifecycle, now),
+    statusTimes: statusTimes(lifecycle),
+    fundingState: computeFundingState(s),
+    metaHash: s.metaHash || "",
+    surveyType: s.surveyType ?? 0,
+    title: s.title ?? "Untitled",
+    summary: s.summary ?? "",
+    image: s.image ?? "",
+    plannedRewardEth: s.plannedRewardEth ?? "0",
+    plannedRewardWei: s.plannedRewardWei ?? "0",
+    metaValid: !!s.metaValid,
+    metaIssues: s.metaIssues || [],
+    metaUrl: s.metaUrl,
+    prizeFunded: s.prizeFunded || "0",
+    prizeSwept: s.prizeSwept || "0",
+    prizeLiveBalance: s.prizeLiveBalance || undefined,
+    participants: s.participants ?? 0,
+    questions: s.questions || [],
+    rulesHash: s.rulesHash || undefined,
+    resultsHash: s.resultsHash || undefined,
+    resultsVerified: s.resultsVerified,
+    resultsComputedHash: s.resultsComputedHash,
+    claimOpenAt: s.claimOpenAt || undefined,
+    claimDeadline: s.claimDeadline || undefined,
+    attestations: s.attestations,
+    funded: s.funded ?? false,
+    fundingTxHash: s.fundingTxHash ?? null,
+    fundedAmountWei: s.fundedAmountWei ?? "0",
+    gate: s.gate
+      ? {
+          addr: (s.gate.addr || "").toLowerCase(),
+          predicates: s.gate.predicates || [],
+          rule: s.gate.rule,
+          rejected: s.gate.rejected,
+          epoch: s.gate.epoch ?? undefined,
+        }
+      : undefined,
+    onchainGate: s.onchainGate,
+    chainId,
+  };
+}
+
+export function buildList(surveys: SurveyMap, chainId: number, now = nowSec()) {
+  return Object.entries(surveys).map(([address, s]) =>
+    buildCard(address, s, chainId, now)
+  );
+}
+
+// ---------- gates.json ----------
+export function buildGates(
+  list: SurveyCard[],
+  chainId: number,
+  gateAddrHint: string,
+  now = nowSec()
+): GatesDoc {
+  const gateAddrFromList =
+    list.find((x) => x.gate?.addr)?.gate?.addr || gateAddrHint || "";
+  const eip712 = {
+    domain: eligibilityDomain(chainId, gateAddrFromList),
+    types: ELIGIBILITY_TYPES,
+  };
+  return { eip712, updatedAt: now };
+}
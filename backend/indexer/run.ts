@@ -0,0 +1,538 @@
+// backend/indexer/run.ts
+import { Interface } from "ethers";
+import { SURVEY_ABI } from "../abi";
+import { readSurveyResults } from "../results/results";
+import type { ChainSource } from "./chain-source";
+import type { ChainConfig, IndexerConfig } from "./config";
+import type { MetaSource } from "./meta-source";
+import {
+  applyAttestations,
+  applyBalances,
+  applyDeployed,
+  applyMeta,
+  applyResults,
+  applySurveyEvent,
+  buildAttestationsDoc,
+  buildBalances,
+  buildGates,
+  buildList,
+  creditedElsewhere,
+  decodeFactoryLog,
+  decodeGateLog,
+  decodeSurveyLog,
+  gateAddresses,
+  judgeFunding,
+  mergeCheckpoints,
+  rollbackLedger,
+  verdictKey,
+} from "./pipeline";
+import type { IndexerStore, MergedSink, OutputSink, StoreBatch } from "./sinks";
+import type {
+  BlockCheckpoint,
+  FundingVerdict,
+  GapRecord,
+  IndexerOutput,
+  LogGap,
+  MergedOutput,
+  SurveyCard,
+} from "./types";
+import { errorText, nowSec } from "./util";
+
+export type IndexerDeps = {
+  config: IndexerConfig;
+  chain: ChainConfig;
+  source: ChainSource;
+  meta: MetaSource;
+  store: IndexerStore;
+  sinks: OutputSink[];
+  /** scan at most this many blocks, so a long catch-up persists per batch */
+  maxBlocks?: number;
+  /** "missing": only fetch meta for surveys without valid meta yet */
+  metaRefresh?: "all" | "missing";
+};
+
+export const SURVEYS_CURSOR = "surveys";
+export const factoryCursor = (address: string) =>
+  `factory:${address.toLowerCase()}`;
+export const gateCursor = (address: string) => `gate:${address.toLowerCase()}`;
+
+const surveyIface = new Interface(SURVEY_ABI);
+
+/**
+ * One full pass over one chain: reorg check, log scan of every configured
+ * factory and of all known surveys, funding, meta, outputs.
+ */
+export async function runIndexer({
+  config,
+  chain: chainCfg,
+  source: chain,
+  meta,
+  store,
+  sinks,
+  maxBlocks,
+  metaRefresh = "all",
+}: IndexerDeps): Promise<IndexerOutput> {
+  chain.reset();
+  const state = store.loadState();
+  const latest = await chain.head();
+  const surveys = store.loadSurveys();
+  const { chainId, factories } = chainCfg;
+  const gateAddrHint = chainCfg.gates[0] || "";
+
+  // Cursors are per factory plus one for the survey pass. A state written
+  // before cursors existed only has lastBlock; a factory added to the config
+  // later has no cursor and is backfilled from its own startBlock.
+  const legacy = !state.cursors;
+  const cursors: Record<string, number> = { ...(state.cursors || {}) };
+  const cursorOf = (key: string, startBlock: number) =>
+    cursors[key] ?? (legacy ? Number(state.lastBlock || 0) : startBlock - 1);
+
+  // -------- Reorg check against stored block hashes --------
+  // Newest checkpoint that still matches the canonical chain is the common
+  // ancestor; everything indexed above it is rolled back and rescanned.
+  let checkpoints: BlockCheckpoint[] = Array.isArray(state.blockHashes)
+    ? state.blockHashes
+    : [];
+  let reorgAncestor: number | null = null;
+  for (let i = checkpoints.length - 1; i >= 0; i--) {
+    const cp = checkpoints[i];
+    const hash = await chain.blockHash(cp.n);
+    if (hash && hash === cp.hash) {
+      if (i < checkpoints.length - 1) reorgAncestor = cp.n;
+      break;
+    }
+    if (i === 0) reorgAncestor = Math.max(cp.n - 1, 0);
+  }
+  if (reorgAncestor !== null) {
+    const ancestor = reorgAncestor;
+    console.warn(`[Reorg] Detected, common ancestor: ${ancestor}`);
+    const { kept, dropped } = rollbackLedger(
+      store.readLedger(),
+      ancestor,
+      surveys
+    );
+    store.rewriteLedger(kept);
+    console.warn(
+      `[Reorg] Rolled back to block ${ancestor}: dropped ${dropped.length} ledger lines`
+    );
+    checkpoints = checkpoints.filter((cp) => cp.n <= ancestor);
+    state.lastBlock = Math.min(Number(state.lastBlock || 0), ancestor);
+    for (const k of Object.keys(cursors)) {
+      cursors[k] = Math.min(cursors[k], ancestor);
+    }
+  }
+
+  // stay MIN_CONF blocks behind head
+  const safeTo = Math.max(latest - chainCfg.minConf, 0);
+
+  const onlyLastBlocks = chainCfg.onlyLastBlocks ?? config.onlyLastBlocks;
+  const fromByTail = onlyLastBlocks
+    ? Math.max(safeTo - onlyLastBlocks + 1, 0)
+    : 0;
+  const prevGaps: GapRecord[] = Array.isArray(state.gaps) ? state.gaps : [];
+
+  // Приоритет: ONLY_LAST_BLOCKS > startBlock > cursor
+  function fromFor(key: string, startBlock: number) {
+    let from = fromByTail;
+    if (!onlyLastBlocks) {
+      from = Math.max(Math.max(startBlock, 0), cursorOf(key, startBlock) + 1);
+    }
+    if (reorgAncestor !== null) from = Math.min(from, reorgAncestor + 1);
+    // unfilled gaps from earlier runs are always rescanned; "factory" is the
+    // scope used before per-factory cursors
+    for (const g of prevGaps) {
+      if (g.scope === key || (g.scope === "factory" && key.startsWith("factory:"))) {
+        from = Math.min(from, Number(g.from));
+      }
+    }
+    return Math.max(from, 0);
+  }
+
+  const factoryFrom = factories.map((f) =>
+    fromFor(factoryCursor(f.address), f.startBlock)
+  );
+  const firstBlock = Math.min(...factories.map((f) => f.startBlock));
+  // surveys discovered by a backfilling factory need their events from there
+  const surveysFrom = Math.min(fromFor(SURVEYS_CURSOR, firstBlock), ...factoryFrom);
+  // configured gates plus gates named in meta; a new one is backfilled from
+  // the first factory's startBlock
+  const gates = gateAddresses(chainCfg.gates, surveys);
+  const gateFrom = gates.map((g) => fromFor(gateCursor(g), firstBlock));
+  const toBlock = maxBlocks
+    ? Math.min(
+        safeTo,
+        Math.min(surveysFrom, ...factoryFrom, ...gateFrom) + maxBlocks - 1
+      )
+    : safeTo;
+
+  console.log(
+    `[Indexer] ${chainCfg.name} (${chainId}): scan to ${toBlock} (head ${latest})`
+  );
+
+  const knownSurveyAddrs = new Set(
+    Object.keys(surveys).map((a) => a.toLowerCase())
+  );
+
+  // Hashes of [from, to], `to` included, committed with the window so a
+  // run that dies before `write` still leaves a checkpoint at every cursor.
+  async function windowCheckpoints(from: number, to: number) {
+    await chain.blockTs(to);
+    return Array.from(chain.observedHashes(), ([n, hash]) => ({ n, hash })).filter(
+      (cp) => cp.n >= from && cp.n <= to
+    );
+  }
+
+  // A range that still fails after retries/splitting becomes a gap and the
+  // pass stops there; the cursor never moves past it.
+  const gaps: GapRecord[] = [];
+  function recordGap(scope: string, g: LogGap) {
+    const prev = prevGaps.find((x) => x.scope === scope && x.from === g.from);
+    gaps.push({ scope, ...g, attempts: Number(prev?.attempts || 0) + 1 });
+    console.warn(`[Gap] ${scope} ${g.from}-${g.to}: ${g.error}`);
+  }
+
+  // -------- Pass 1: scan each factory from its own cursor --------
+  for (let i = 0; i < factories.length; i++) {
+    const factory = factories[i].address;
+    const key = factoryCursor(factory);
+    const fromBlock = factoryFrom[i];
+    console.log(`[Indexer] ${key}: ${fromBlock} → ${toBlock}`);
+    let scannedTo = toBlock;
+    for (let f = fromBlock; f <= toBlock; f += config.batch) {
+      const t = Math.min(f + config.batch - 1, toBlock);
+      const { logs, failed } = await chain.getLogs(factory, f, t);
+      const batch: StoreBatch = { entries: [], surveys: {} };
+
+      for (const l of logs) {
+        if ((l.address || "").toLowerCase() !== factory) continue;
+        try {
+          const e = decodeFactoryLog(l, await chain.blockTs(l.blockNumber));
+          if (!e) continue;
+          applyDeployed(surveys, e);
+          knownSurveyAddrs.add(e.survey);
+          batch.entries.push({ ...e, chainId });
+          batch.surveys[e.survey] = surveys[e.survey];
+        } catch (e) {
+          console.warn("Failed to parse log:", e);
+        }
+      }
+
+      // a failed window keeps its partial logs but not the cursor move
+      if (!failed) {
+        batch.cursor = { key, block: t };
+        batch.checkpoints = await windowCheckpoints(f, t);
+      }
+      store.commitBatch(batch);
+      if (failed) {
+        recordGap(key, failed);
+        scannedTo = failed.from - 1;
+        break;
+      }
+    }
+    if (fromBlock <= toBlock || cursors[key] === undefined) {
+      cursors[key] = Math.min(scannedTo, toBlock);
+    }
+  }
+
+  // -------- Pass 2: scan survey logs (all known survey addresses) --------
+  // Each survey remembers the last block whose events were applied
+  // (eventsBlock), so overlapping windows never double-count votes/prizes.
+  const surveyAddrs = Array.from(knownSurveyAddrs);
+  const fromBlock = surveysFrom;
+  let surveysTo = toBlock;
+  if (fromBlock <= toBlock && surveyAddrs.length) {
+    for (let i = 0; i < surveyAddrs.length; i += config.addrChunk) {
+      const addrs = surveyAddrs.slice(i, i + config.addrChunk);
+      let chunkTo = toBlock;
+      for (let f = fromBlock; f <= toBlock; f += config.batch) {
+        const t = Math.min(f + config.batch - 1, toBlock);
+        const { logs, failed } = await chain.getLogs(addrs, f, t);
+        const batch: StoreBatch = { entries: [], surveys: {} };
+
+        for (const l of logs) {
+          const survey = (l.address || "").toLowerCase();
+          const rec = surveys[survey];
+          if (!rec) continue;
+          if (Number(rec.eventsBlock || 0) >= l.blockNumber) continue;
+
+          try {
+            const e = decodeSurveyLog(l, await chain.blockTs(l.blockNumber));
+            if (!e) continue;
+            applySurveyEvent(rec, e);
+            batch.entries.push({ ...e, chainId });
+          } catch (e) {
+            console.warn(`Failed to parse survey log (${survey}):`, e);
+          }
+        }
+
+        // the window's events are applied up to its end (or the failure),
+        // and committed together with that mark
+        const appliedTo = failed ? failed.from - 1 : t;
+        for (const a of addrs) {
+          const rec = surveys[a];
+          if (!rec) continue;
+          if (Number(rec.eventsBlock || 0) < appliedTo) rec.eventsBlock = appliedTo;
+          batch.surveys[a] = rec;
+        }
+        if (appliedTo >= f) batch.checkpoints = await windowCheckpoints(f, appliedTo);
+        store.commitBatch(batch);
+
+        if (failed) {
+          recordGap(SURVEYS_CURSOR, failed);
+          chunkTo = failed.from - 1;
+          break;
+        }
+      }
+      surveysTo = Math.min(surveysTo, chunkTo);
+    }
+  }
+  if (fromBlock <= toBlock || cursors[SURVEYS_CURSOR] === undefined) {
+    cursors[SURVEYS_CURSOR] = surveysTo;
+  }
+
+  // -------- Pass 3: eligibility attestations of each gate --------
+  for (let i = 0; i < gates.length; i++) {
+    const key = gateCursor(gates[i]);
+    let scannedTo = toBlock;
+    for (let f = gateFrom[i]; f <= toBlock; f += config.batch) {
+      const t = Math.min(f + config.batch - 1, toBlock);
+      const { logs, failed } = await chain.getLogs(gates[i], f, t);
+      const batch: StoreBatch = { entries: [], surveys: {} };
+
+      for (const l of logs) {
+        try {
+          const e = decodeGateLog(l, await chain.blockTs(l.blockNumber));
+          if (e) batch.entries.push({ ...e, chainId });
+        } catch (e) {
+          console.warn(`Failed to parse gate log (${gates[i]}):`, e);
+        }
+      }
+
+      if (!failed) {
+        batch.cursor = { key, block: t };
+        batch.checkpoints = await windowCheckpoints(f, t);
+      }
+      store.commitBatch(batch);
+      if (failed) {
+        recordGap(key, failed);
+        scannedTo = failed.from - 1;
+        break;
+      }
+    }
+    if (gateFrom[i] <= toBlock || cursors[key] === undefined) {
+      cursors[key] = Math.min(scannedTo, toBlock);
+    }
+  }
+
+  // -------- Tally finalized surveys --------
+  // Votes are frozen once finalized, so each survey is read once; a reorg
+  // that drops its events also drops the tally (see resetSurveyEvents).
+  for (const sAddr of surveyAddrs) {
+    const rec = surveys[sAddr];
+    if (!rec?.finalizedAt || !rec.resultsHash || rec.results) continue;
+    try {
+      const results = await readSurveyResults(
+        (to, data) => chain.provider.call({ to, data }),
+        sAddr,
+        chainId
+      );
+      applyResults(rec, results);
+      if (!rec.resultsVerified) {
+        console.warn(
+          `[Results] ${sAddr}: tally hashes to ${rec.resultsComputedHash}, anchored resultsHash is ${rec.resultsHash}`
+        );
+      }
+    } catch (e) {
+      console.warn(`[Results] Failed to tally ${sAddr}: ${errorText(e)}`);
+    }
+  }
+
+  // -------- On-chain gates --------
+  // Survey.gate() is set by the constructor only, so each survey is read
+  // once; its meta is re-applied so the card's gate follows it.
+  const gateRead = new Set<string>();
+  for (const sAddr of surveyAddrs) {
+    const rec = surveys[sAddr];
+    if (!rec || rec.onchainGate !== undefined) continue;
+    try {
+      const data = surveyIface.encodeFunctionData("gate");
+      const [gate] = surveyIface.decodeFunctionResult(
+        "gate",
+        await chain.provider.call({ to: sAddr, data })
+      );
+      rec.onchainGate = String(gate).toLowerCase();
+      gateRead.add(sAddr);
+    } catch (e) {
+      console.warn(`[Gate] Failed to read the gate of ${sAddr}: ${errorText(e)}`);
+    }
+  }
+
+  // -------- Verify funding submissions --------
+  // Verdicts are cached in funding.json under "<survey>:<txHash>"; only
+  // pending ones are re-checked. A tx can be credited to one survey only.
+  // balances.json is rebuilt from the accepted verdicts.
+  const verdicts: Record<string, FundingVerdict> = store.loadVerdicts();
+  for (const sub of store.readFundingSubmissions()) {
+    const txHash = sub.txHash.toLowerCase();
+    const key = verdictKey(sub.survey, txHash);
+    if (verdicts[key] && verdicts[key].status !== "pending") continue;
+
+    const creditedTo = creditedElsewhere(verdicts, key);
+    try {
+      if (creditedTo) {
+        verdicts[key] = {
+          survey: sub.survey,
+          file: sub.file,
+          status: "rejected",
+          reason: `tx already credited to ${creditedTo}`,
+          checkedAt: nowSec(),
+        };
+      } else {
+        const known = !!surveys[sub.survey];
+        const [tx, receipt] = known
+          ? await Promise.all([
+              chain.provider.getTransaction(txHash),
+              chain.provider.getTransactionReceipt(txHash),
+            ])
+          : [null, null];
+        verdicts[key] = judgeFunding({ ...sub, txHash }, tx, receipt, {
+          surveys,
+          latest,
+          minConf: chainCfg.minConf,
+          treasurySafe: chainCfg.treasurySafe,
+        });
+      }
+    } catch (e) {
+      console.warn(`[Funding] Failed to verify ${txHash}:`, e);
+      continue;
+    }
+    const v = verdicts[key];
+    if (v.status !== "accepted") {
+      console.log(`[Funding] ${v.status} ${txHash} (${sub.survey}): ${v.reason}`);
+    }
+  }
+  const balances = buildBalances(verdicts);
+  applyBalances(surveys, balances);
+
+  // -------- Attestation counts and uHash reuse --------
+  // derived from the whole ledger, so a reorg or a rebuild needs no undo
+  const attestations = buildAttestationsDoc(store.readLedger(), gates);
+  applyAttestations(surveys, attestations.surveys);
+  const reused = attestations.uHashReuse.length;
+  if (reused) {
+    console.warn(
+      `[Gate] ${reused} uHash(es) attested for more than one wallet or survey (see attestations.json)`
+    );
+  }
+
+  // -------- Enrich with META --------
+  for (const sAddr of Array.from(knownSurveyAddrs)) {
+    const rec = surveys[sAddr] || (surveys[sAddr] = {});
+    if (metaRefresh === "missing" && rec.metaValid && rec.meta && !gateRead.has(sAddr)) {
+      continue;
+    }
+    const doc = await meta.fetch(sAddr, chainId, rec.metaHash);
+    surveys[sAddr] = applyMeta(rec, doc, {
+      metaUrl: meta.urlFor(sAddr, chainId),
+      gateAddrHint,
+    });
+    for (const i of surveys[sAddr].metaIssues || []) {
+      if (i.code === "missing") continue;
+      const at = i.path ? ` ${i.path}:` : "";
+      console.warn(`[Meta] ${sAddr}: ${i.code}${at} ${i.message}`);
+    }
+  }
+
+  // -------- Build artifacts --------
+  const now = nowSec();
+  const list = buildList(surveys, chainId, now);
+  const gatesDoc = buildGates(list, chainId, gateAddrHint, now);
+
+  // block-hash checkpoints: scan tip + every block that produced an entry
+  await chain.blockTs(toBlock);
+  checkpoints = mergeCheckpoints(
+    checkpoints,
+    chain.observedHashes(),
+    toBlock,
+    config.hashHistory
+  );
+
+  const output: IndexerOutput = {
+    state: {
+      network: chainCfg.name,
+      chainId,
+      factories: factories.map((f) => f.address),
+      gates,
+      treasurySafe: chainCfg.treasurySafe || null,
+      lastBlock: Math.min(...Object.values(cursors)),
+      cursors,
+      head: latest,
+      minConf: chainCfg.minConf,
+      blockHashes: checkpoints,
+      gaps,
+      updatedAt: now,
+    },
+    surveys,
+    list,
+    balances,
+    verdicts,
+    gates: gatesDoc,
+    attestations: { ...attestations, updatedAt: now },
+  };
+
+  for (const sink of sinks) await sink.write(output);
+
+  console.log(`[Indexer] ${chainCfg.name} done. Surveys: ${list.length}`);
+  return output;
+}
+
+export type ChainDeps = Pick<IndexerDeps, "source" | "store" | "sinks">;
+
+export type MultiChainDeps = {
+  config: IndexerConfig;
+  meta: MetaSource;
+  /** per-chain source, store and sinks */
+  depsFor: (chain: ChainConfig) => ChainDeps;
+  /** receive the merged cross-chain list */
+  merged: MergedSink[];
+};
+
+/**
+ * Runs every configured chain, then writes the merged cross-chain list.
+ * A failing chain does not block the others: its previous surveys stay in
+ * the merged list. Fails only when no chain could be indexed.
+ */
+export async function runAllChains({
+  config,
+  meta,
+  depsFor,
+  merged,
+}: MultiChainDeps): Promise<MergedOutput> {
+  const chains: IndexerOutput[] = [];
+  const list: SurveyCard[] = [];
+  let lastError: unknown = null;
+
+  for (const chain of config.chains) {
+    const deps = depsFor(chain);
+    try {
+      const out = await runIndexer({ config, chain, meta, ...deps });
+      chains.push(out);
+      list.push(...out.list);
+    } catch (e) {
+      lastError = e;
+      console.error(
+        `[Indexer] ${chain.name} (${chain.chainId}) failed: ${errorText(e)}`
+      );
+      list.push(...buildList(deps.store.loadSurveys(), chain.chainId));
+    }
+  }
+  if (!chains.length) throw lastError;
+
+  const output: MergedOutput = { list, chains, updatedAt: nowSec() };
+  for (const sink of merged) await sink.writeMerged(output);
+
+  console.log(
+    `[Indexer] Done. Chains: ${chains.length}/${config.chains.length}, surveys: ${list.length}`
+  );
+  return output;
+}
@@ -0,0 +1,314 @@
+// backend/indexer/sinks.ts
+import * as fs from "fs";
+import * as path from "path";
+import { createLedgerIndex, type LedgerIndex } from "./pipeline";
+import type {
+  BlockCheckpoint,
+  FundingSubmission,
+  FundingVerdict,
+  GatesDoc,
+  IndexerOutput,
+  IndexerState,
+  LedgerEntry,
+  MergedOutput,
+  SurveyMap,
+} from "./types";
+
+/** What one getLogs window changed. */
+export type StoreBatch = {
+  /** decoded entries; ones the ledger already holds are skipped */
+  entries: LedgerEntry[];
+  /** the records the window touched, as they are now */
+  surveys: SurveyMap;
+  /** the scan cursor that reached the end of the window */
+  cursor?: { key: string; block: number };
+  /** hashes of the window's blocks, up to where its scan got */
+  checkpoints?: BlockCheckpoint[];
+};
+
+/**
+ * Where the indexer keeps what it learned between runs. Every window is
+ * handed to `commitBatch`; the whole run is handed to `write` (see
+ * OutputSink) at the end. A store may persist batches atomically so an
+ * interrupted run resumes from its last window, or only keep the entries
+ * and rely on `write`.
+ */
+export interface IndexerStore {
+  loadState(): IndexerState;
+  loadSurveys(): SurveyMap;
+  loadVerdicts(): Record<string, FundingVerdict>;
+  readLedger(): LedgerEntry[];
+  /** returns how many entries were new */
+  commitBatch(batch: StoreBatch): number;
+  rewriteLedger(entries: LedgerEntry[]): void;
+  readFundingSubmissions(): FundingSubmission[];
+}
+
+/** Receives the artifacts of every run of one chain. */
+export interface OutputSink {
+  write(out: IndexerOutput): Promise<void>;
+}
+
+/** Receives the cross-chain view once all chains have run. */
+export interface MergedSink {
+  writeMerged(out: MergedOutput): Promise<void>;
+}
+
+export function readJSON<T = any>(p: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(p, "utf8"));
+  } catch {
+    return fallback;
+  }
+}
+
+export function parseLedger(raw: string): LedgerEntry[] {
+  const out: LedgerEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      out.push(JSON.parse(line));
+    } catch {}
+  }
+  return out;
+}
+
+export function parseFundingSubmission(
+  j: any,
+  file?: string
+): FundingSubmission | null {
+  if (!j?.survey || !j?.txHash) return null;
+  return {
+    survey: String(j.survey).toLowerCase(),
+    txHash: String(j.txHash),
+    createdAt: Number(j.createdAt || 0),
+    note: j.note ? String(j.note) : undefined,
+    file,
+  };
+}
+
+// ---------- Filesystem ----------
+export function outputFiles(outDir: string) {
+  return {
+    STATE: path.join(outDir, "state.json"),
+    LEDGER: path.join(outDir, "ledger.ndjson"),
+    LEDGER_SUM: path.join(outDir, "ledger.checksum.json"),
+    BAL: path.join(outDir, "balances.json"),
+    FUNDING: path.join(outDir, "funding.json"),
+    SURV: path.join(outDir, "surveys.json"),
+    LIST: path.join(outDir, "surveys.list.json"),
+    GATES: path.join(outDir, "gates.json"),
+    ATTEST: path.join(outDir, "attestations.json"),
+  };
+}
+
+const writeJSON = (p: string, v: unknown) =>
+  fs.writeFileSync(p, JSON.stringify(v, null, 2));
+
+/** Writes one run's artifacts in the layout of `outputFiles(outDir)`. */
+export function writeOutputFiles(outDir: string, out: IndexerOutput) {
+  const FILES = outputFiles(outDir);
+  writeJSON(FILES.BAL, out.balances);
+  writeJSON(FILES.FUNDING, out.verdicts);
+  writeJSON(FILES.SURV, out.surveys);
+  writeJSON(FILES.LIST, out.list);
+  writeJSON(FILES.GATES, out.gates);
+  writeJSON(FILES.ATTEST, out.attestations);
+  writeJSON(FILES.STATE, out.state);
+}
+
+export const formatLedger = (entries: LedgerEntry[]) =>
+  entries.map((e) => JSON.stringify(e) + "\n").join("");
+
+/** Funding submissions the Worker dropped into `<root>/funding/<chainId>`. */
+export function readSubmissionDir(fundingDir: string): FundingSubmission[] {
+  const list: FundingSubmission[] = [];
+  try {
+    for (const f of fs
+      .readdirSync(fundingDir)
+      .filter((f) => f.endsWith(".json"))) {
+      try {
+        const sub = parseFundingSubmission(
+          JSON.parse(fs.readFileSync(path.join(fundingDir, f), "utf8")),
+          f
+        );
+        if (sub) list.push(sub);
+      } catch {}
+    }
+  } catch {}
+  return list;
+}
+
+/** Files that move into the chain partition; the list and gates are rebuilt. */
+const PARTITIONED = ["STATE", "LEDGER", "BAL", "FUNDING", "SURV"] as const;
+
+/**
+ * Moves a pre-partition single-chain layout (state.json etc. at the root)
+ * into `<root>/<chainId>/` so the cursor and ledger survive the upgrade.
+ */
+function migrateRootLayout(rootDir: string, outDir: string, chainId: number) {
+  const root = outputFiles(rootDir);
+  const legacy = readJSON<IndexerState | null>(root.STATE, null);
+  if (!legacy || Number(legacy.chainId) !== chainId) return;
+  if (fs.existsSync(outputFiles(outDir).STATE)) return;
+
+  fs.mkdirSync(outDir, { recursive: true });
+  for (const k of PARTITIONED) {
+    if (fs.existsSync(root[k])) fs.renameSync(root[k], outputFiles(outDir)[k]);
+  }
+  console.log(`[Indexer] Moved single-chain output into ${outDir}`);
+}
+
+export type FsSink = IndexerStore & OutputSink & { outDir: string };
+
+/**
+ * The JSON/NDJSON layout the Worker and the workflow expect, partitioned by
+ * chain: `<root>/<chainId>/*.json`. Submissions (`funding/<chainId>`) and
+ * meta (`meta/<chainId>`) stay under the root where the Worker puts them.
+ */
+export function createFsSink(rootDir: string, chainId: number): FsSink {
+  const outDir = path.join(rootDir, String(chainId));
+  const FILES = outputFiles(outDir);
+  const metaDir = path.join(rootDir, "meta", String(chainId));
+  const fundingDir = path.join(rootDir, "funding", String(chainId));
+
+  migrateRootLayout(rootDir, outDir, chainId);
+  if (!fs.existsSync(outDir)) fs.mkdirSync(outDir, { recursive: true });
+  if (!fs.existsSync(metaDir)) fs.mkdirSync(metaDir, { recursive: true });
+  if (!fs.existsSync(fundingDir)) fs.mkdirSync(fundingDir, { recursive: true });
+  if (!fs.existsSync(FILES.STATE))
+    fs.writeFileSync(FILES.STATE, JSON.stringify({ lastBlock: 0 }, null, 2));
+  if (!fs.existsSync(FILES.LEDGER)) fs.writeFileSync(FILES.LEDGER, "");
+  if (!fs.existsSync(FILES.BAL)) fs.writeFileSync(FILES.BAL, "{}");
+  if (!fs.existsSync(FILES.SURV)) fs.writeFileSync(FILES.SURV, "{}");
+  if (!fs.existsSync(FILES.LIST)) fs.writeFileSync(FILES.LIST, "[]");
+
+  const readLedger = () => {
+    try {
+      return parseLedger(fs.readFileSync(FILES.LEDGER, "utf8"));
+    } catch {
+      return [];
+    }
+  };
+  // loaded on the first append, then kept in step with every write
+  let index: LedgerIndex | null = null;
+
+  return {
+    outDir,
+    loadState: () => readJSON(FILES.STATE, { lastBlock: 0 }),
+    loadSurveys: () => readJSON(FILES.SURV, {}),
+    loadVerdicts: () => readJSON(FILES.FUNDING, {}),
+    readLedger,
+    // only the ledger is written per window; the JSON files are whole-run
+    // snapshots written by `write`
+    commitBatch({ entries }) {
+      index ??= createLedgerIndex(readLedger());
+      const fresh = entries.filter((e) => index!.add(e));
+      try {
+        if (fresh.length) fs.appendFileSync(FILES.LEDGER, formatLedger(fresh));
+      } catch (err) {
+        index = null;
+        throw err;
+      }
+      return fresh.length;
+    },
+    rewriteLedger(entries) {
+      fs.writeFileSync(FILES.LEDGER, formatLedger(entries));
+      index = createLedgerIndex(entries);
+    },
+    readFundingSubmissions: () => readSubmissionDir(fundingDir),
+    async write(out) {
+      writeOutputFiles(outDir, out);
+    },
+  };
+}
+
+/**
+ * Writes the merged `surveys.list.json` at the output root, a `gates.json`
+ * carrying every chain's domain (the first chain's stays under `eip712`) and
+ * a `state.json` index of the per-chain cursors.
+ */
+export function createFsMergedSink(rootDir: string): MergedSink {
+  const FILES = outputFiles(rootDir);
+  return {
+    async writeMerged({ list, chains, updatedAt }) {
+      if (!fs.existsSync(rootDir)) fs.mkdirSync(rootDir, { recursive: true });
+      const byChain: Record<string, GatesDoc["eip712"]> = {};
+      for (const c of chains) byChain[String(c.state.chainId)] = c.gates.eip712;
+      const chainStates: Record<string, Partial<IndexerState>> = {};
+      for (const { state } of chains) {
+        chainStates[String(state.chainId)] = {
+          network: state.network,
+          factories: state.factories,
+          lastBlock: state.lastBlock,
+          head: state.head,
+          gaps: state.gaps,
+          updatedAt: state.updatedAt,
+        };
+      }
+
+      writeJSON(FILES.LIST, list);
+      if (chains.length) {
+        writeJSON(FILES.GATES, { ...chains[0].gates, byChain, updatedAt });
+      }
+      // a chain that failed this run keeps its previous entry
+      const prev = readJSON<any>(FILES.STATE, {});
+      writeJSON(FILES.STATE, {
+        chains: { ...(prev.chains || {}), ...chainStates },
+        updatedAt,
+      });
+    },
+  };
+}
+
+// ---------- In-memory ----------
+export type MemorySink = IndexerStore &
+  OutputSink & {
+    state: IndexerState;
+    surveys: SurveyMap;
+    verdicts: Record<string, FundingVerdict>;
+    ledger: LedgerEntry[];
+    submissions: FundingSubmission[];
+    outputs: IndexerOutput[];
+  };
+
+/** Keeps everything in memory (deep-copied across runs); for tests/embedding. */
+export function createMemorySink(
+  init: Partial<
+    Pick<MemorySink, "state" | "surveys" | "verdicts" | "ledger" | "submissions">
+  > = {}
+): MemorySink {
+  const clone = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+  let index: LedgerIndex | null = null;
+  const sink: MemorySink = {
+    state: init.state ?? { lastBlock: 0 },
+    surveys: init.surveys ?? {},
+    verdicts: init.verdicts ?? {},
+    ledger: init.ledger ?? [],
+    submissions: init.submissions ?? [],
+    outputs: [],
+    loadState: () => clone(sink.state),
+    loadSurveys: () => clone(sink.surveys),
+    loadVerdicts: () => clone(sink.verdicts),
+    readLedger: () => clone(sink.ledger),
+    commitBatch({ entries }) {
+      index ??= createLedgerIndex(sink.ledger);
+      const fresh = entries.filter((e) => index!.add(e));
+      sink.ledger.push(...clone(fresh));
+      return fresh.length;
+    },
+    rewriteLedger(entries) {
+      sink.ledger = clone(entries);
+      index = createLedgerIndex(sink.ledger);
+    },
+    readFundingSubmissions: () => clone(sink.submissions),
+    async write(out) {
+      const copy = clone(out);
+      sink.state = copy.state;
+      sink.surveys = copy.surveys;
+      sink.verdicts = copy.verdicts;
+      sink.outputs.push(copy);
+    },
+  };
+  return sink;
+}
@@ -0,0 +1,363 @@
+// backend/indexer/sqlite-store.ts
+// SQLite storage: one database for every chain. Each getLogs window is one
+// transaction (its events, the surveys it touched, its cursor and the block
+// hashes behind it), so an interrupted run resumes from the last window. After each run the JSON
+// layout of createFsSink is exported from the database for the Worker, the
+// workflow and the query API.
+
+import * as fs from "fs";
+import * as path from "path";
+import Database from "better-sqlite3";
+import {
+  buildAttestationsDoc,
+  buildBalances,
+  buildList,
+  createLedgerIndex,
+  dedupeLedger,
+  type LedgerIndex,
+} from "./pipeline";
+import {
+  formatLedger,
+  outputFiles,
+  parseLedger,
+  readJSON,
+  readSubmissionDir,
+  writeOutputFiles,
+  type IndexerStore,
+  type OutputSink,
+  type StoreBatch,
+} from "./sinks";
+import type {
+  BlockCheckpoint,
+  FundingVerdict,
+  GatesDoc,
+  IndexerOutput,
+  IndexerState,
+  LedgerEntry,
+  SurveyMap,
+} from "./types";
+import { nowSec } from "./util";
+
+export type SqliteDb = Database.Database;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS chains (
+  chain_id INTEGER PRIMARY KEY,
+  state TEXT NOT NULL,
+  gates TEXT
+);
+CREATE TABLE IF NOT EXISTS cursors (
+  chain_id INTEGER NOT NULL,
+  key TEXT NOT NULL,
+  block INTEGER NOT NULL,
+  PRIMARY KEY (chain_id, key)
+);
+-- block hashes for reorg detection, committed with the cursors they cover
+CREATE TABLE IF NOT EXISTS checkpoints (
+  chain_id INTEGER NOT NULL,
+  n INTEGER NOT NULL,
+  hash TEXT NOT NULL,
+  PRIMARY KEY (chain_id, n)
+);
+CREATE TABLE IF NOT EXISTS surveys (
+  chain_id INTEGER NOT NULL,
+  address TEXT NOT NULL,
+  record TEXT NOT NULL,
+  PRIMARY KEY (chain_id, address)
+);
+-- the ledger; log_index is NULL for lines imported from before ledger keys
+CREATE TABLE IF NOT EXISTS events (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  chain_id INTEGER NOT NULL,
+  tx TEXT NOT NULL,
+  log_index INTEGER,
+  block INTEGER NOT NULL,
+  survey TEXT NOT NULL,
+  type TEXT NOT NULL,
+  entry TEXT NOT NULL,
+  UNIQUE (chain_id, tx, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_by_survey ON events (chain_id, survey, block);
+-- funding verdicts by "<survey>:<txHash>"
+CREATE TABLE IF NOT EXISTS funding (
+  chain_id INTEGER NOT NULL,
+  key TEXT NOT NULL,
+  survey TEXT NOT NULL,
+  status TEXT NOT NULL,
+  verdict TEXT NOT NULL,
+  PRIMARY KEY (chain_id, key)
+);
+-- eligibility attestations from the gate contracts
+CREATE TABLE IF NOT EXISTS attestations (
+  chain_id INTEGER NOT NULL,
+  tx TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  block INTEGER NOT NULL,
+  ts INTEGER NOT NULL,
+  gate TEXT NOT NULL,
+  survey TEXT NOT NULL,
+  user TEXT NOT NULL,
+  u_hash TEXT,
+  PRIMARY KEY (chain_id, tx, log_index)
+);
+CREATE INDEX IF NOT EXISTS attestations_by_survey ON attestations (chain_id, survey);
+CREATE INDEX IF NOT EXISTS attestations_by_u_hash ON attestations (chain_id, u_hash);
+`;
+
+/** Databases created before the zkPass uHash column had its own name. */
+function migrate(db: SqliteDb) {
+  const cols = db.prepare("PRAGMA table_info(attestations)").all() as { name: string }[];
+  if (cols.some((c) => c.name === "nullifier")) {
+    db.exec("ALTER TABLE attestations RENAME COLUMN nullifier TO u_hash");
+  }
+}
+
+/** Opens (and creates) the database; ":memory:" for tests. */
+export function openSqlite(file: string): SqliteDb {
+  if (file !== ":memory:") fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  migrate(db);
+  db.exec(SCHEMA);
+  return db;
+}
+
+export type SqliteStore = IndexerStore &
+  OutputSink & {
+    outDir: string;
+    /** writes the JSON layout from the database; null before the first run */
+    exportJson(): IndexerOutput | null;
+  };
+
+/**
+ * One chain's view of the database. JSON output already under
+ * `<rootDir>/<chainId>` is imported on first use; funding submissions are
+ * still read from `<rootDir>/funding/<chainId>`, where the Worker puts them.
+ */
+export function createSqliteStore(
+  db: SqliteDb,
+  rootDir: string,
+  chainId: number
+): SqliteStore {
+  const outDir = path.join(rootDir, String(chainId));
+  const fundingDir = path.join(rootDir, "funding", String(chainId));
+
+  const q = {
+    state: db.prepare("SELECT state, gates FROM chains WHERE chain_id = ?"),
+    putState: db.prepare(
+      "INSERT INTO chains (chain_id, state, gates) VALUES (?, ?, ?) " +
+        "ON CONFLICT (chain_id) DO UPDATE SET state = excluded.state, gates = excluded.gates"
+    ),
+    cursors: db.prepare("SELECT key, block FROM cursors WHERE chain_id = ?"),
+    putCursor: db.prepare(
+      "INSERT INTO cursors (chain_id, key, block) VALUES (?, ?, ?) " +
+        "ON CONFLICT (chain_id, key) DO UPDATE SET block = excluded.block"
+    ),
+    clearCursors: db.prepare("DELETE FROM cursors WHERE chain_id = ?"),
+    checkpoints: db.prepare("SELECT n, hash FROM checkpoints WHERE chain_id = ? ORDER BY n"),
+    putCheckpoint: db.prepare(
+      "INSERT INTO checkpoints (chain_id, n, hash) VALUES (?, ?, ?) " +
+        "ON CONFLICT (chain_id, n) DO UPDATE SET hash = excluded.hash"
+    ),
+    clearCheckpoints: db.prepare("DELETE FROM checkpoints WHERE chain_id = ?"),
+    surveys: db.prepare("SELECT address, record FROM surveys WHERE chain_id = ?"),
+    putSurvey: db.prepare(
+      "INSERT INTO surveys (chain_id, address, record) VALUES (?, ?, ?) " +
+        "ON CONFLICT (chain_id, address) DO UPDATE SET record = excluded.record"
+    ),
+    clearSurveys: db.prepare("DELETE FROM surveys WHERE chain_id = ?"),
+    events: db.prepare(
+      "SELECT entry FROM events WHERE chain_id = ? ORDER BY block, log_index, seq"
+    ),
+    putEvent: db.prepare(
+      "INSERT OR IGNORE INTO events (chain_id, tx, log_index, block, survey, type, entry) " +
+        "VALUES (?, ?, ?, ?, ?, ?, ?)"
+    ),
+    keylessEvent: db.prepare(
+      "SELECT 1 FROM events WHERE chain_id = ? AND log_index IS NULL LIMIT 1"
+    ),
+    clearEvents: db.prepare("DELETE FROM events WHERE chain_id = ?"),
+    putAttestation: db.prepare(
+      "INSERT OR IGNORE INTO attestations " +
+        "(chain_id, tx, log_index, block, ts, gate, survey, user, u_hash) " +
+        "VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
+    ),
+    clearAttestations: db.prepare("DELETE FROM attestations WHERE chain_id = ?"),
+    verdicts: db.prepare("SELECT key, verdict FROM funding WHERE chain_id = ?"),
+    putVerdict: db.prepare(
+      "INSERT INTO funding (chain_id, key, survey, status, verdict) VALUES (?, ?, ?, ?, ?)"
+    ),
+    clearVerdicts: db.prepare("DELETE FROM funding WHERE chain_id = ?"),
+  };
+
+  const rows = <T>(stmt: Database.Statement) => stmt.all(chainId) as T[];
+
+  function putEvents(entries: LedgerEntry[]) {
+    let n = 0;
+    for (const e of entries) {
+      n += q.putEvent.run(
+        chainId,
+        String(e.tx).toLowerCase(),
+        e.logIndex ?? null,
+        e.block,
+        e.survey,
+        e.t,
+        JSON.stringify(e)
+      ).changes;
+      if (e.t === "EligibilityAttested" && e.logIndex !== undefined) {
+        q.putAttestation.run(
+          chainId,
+          String(e.tx).toLowerCase(),
+          e.logIndex,
+          e.block,
+          e.ts,
+          e.gate,
+          e.survey,
+          e.user,
+          e.uHash
+        );
+      }
+    }
+    return n;
+  }
+  const putSurveys = (surveys: SurveyMap) => {
+    for (const [addr, rec] of Object.entries(surveys)) {
+      q.putSurvey.run(chainId, addr, JSON.stringify(rec));
+    }
+  };
+  const putVerdicts = (verdicts: Record<string, FundingVerdict>) => {
+    for (const [key, v] of Object.entries(verdicts)) {
+      q.putVerdict.run(chainId, key, v.survey, v.status, JSON.stringify(v));
+    }
+  };
+  const putCursors = (cursors: Record<string, number> = {}) => {
+    for (const [key, block] of Object.entries(cursors)) {
+      q.putCursor.run(chainId, key, block);
+    }
+  };
+  const putCheckpoints = (checkpoints: BlockCheckpoint[] = []) => {
+    for (const cp of checkpoints) q.putCheckpoint.run(chainId, cp.n, cp.hash);
+  };
+
+  // keyless rows (imported legacy lines) need the content match of the
+  // ledger index; keyed rows are deduplicated by the UNIQUE constraint
+  let index: LedgerIndex | null = null;
+  const fresh = (entries: LedgerEntry[]) => {
+    if (!index && !q.keylessEvent.get(chainId)) return entries;
+    index ??= createLedgerIndex(store.readLedger());
+    return entries.filter((e) => index!.add(e));
+  };
+
+  const commit = db.transaction(({ entries, surveys, cursor, checkpoints }: StoreBatch) => {
+    const n = putEvents(fresh(entries));
+    putSurveys(surveys);
+    if (cursor) q.putCursor.run(chainId, cursor.key, cursor.block);
+    putCheckpoints(checkpoints);
+    return n;
+  });
+
+  const store: SqliteStore = {
+    outDir,
+    loadState() {
+      const row = q.state.get(chainId) as { state: string } | undefined;
+      const state: IndexerState = row ? JSON.parse(row.state) : { lastBlock: 0 };
+      const cursors = rows<{ key: string; block: number }>(q.cursors);
+      if (cursors.length) {
+        state.cursors = Object.fromEntries(cursors.map((c) => [c.key, c.block]));
+      }
+      const checkpoints = rows<BlockCheckpoint>(q.checkpoints);
+      if (checkpoints.length) state.blockHashes = checkpoints;
+      return state;
+    },
+    loadSurveys() {
+      const out: SurveyMap = {};
+      for (const r of rows<{ address: string; record: string }>(q.surveys)) {
+        out[r.address] = JSON.parse(r.record);
+      }
+      return out;
+    },
+    loadVerdicts() {
+      const out: Record<string, FundingVerdict> = {};
+      for (const r of rows<{ key: string; verdict: string }>(q.verdicts)) {
+        out[r.key] = JSON.parse(r.verdict);
+      }
+      return out;
+    },
+    readLedger: () =>
+      rows<{ entry: string }>(q.events).map((r) => JSON.parse(r.entry)),
+    commitBatch(batch) {
+      try {
+        return commit(batch);
+      } catch (err) {
+        index = null;
+        throw err;
+      }
+    },
+    rewriteLedger: db.transaction((entries: LedgerEntry[]) => {
+      q.clearEvents.run(chainId);
+      q.clearAttestations.run(chainId);
+      putEvents(entries);
+      index = null;
+    }),
+    readFundingSubmissions: () => readSubmissionDir(fundingDir),
+    async write(out) {
+      db.transaction(() => {
+        // the run's view is complete: surveys dropped by a reorg go too
+        q.clearSurveys.run(chainId);
+        putSurveys(out.surveys);
+        q.clearVerdicts.run(chainId);
+        putVerdicts(out.verdicts);
+        q.clearCursors.run(chainId);
+        putCursors(out.state.cursors);
+        q.clearCheckpoints.run(chainId);
+        putCheckpoints(out.state.blockHashes);
+        q.putState.run(chainId, JSON.stringify(out.state), JSON.stringify(out.gates));
+      })();
+      store.exportJson();
+    },
+    exportJson() {
+      const row = q.state.get(chainId) as { gates: string | null } | undefined;
+      if (!row) return null;
+      const state = store.loadState();
+      const surveys = store.loadSurveys();
+      const verdicts = store.loadVerdicts();
+      const ledger = store.readLedger();
+      const now = state.updatedAt || nowSec();
+      const list = buildList(surveys, chainId, now);
+      const out: IndexerOutput = {
+        state,
+        surveys,
+        list,
+        balances: buildBalances(verdicts),
+        verdicts,
+        gates: JSON.parse(row.gates || "null") as GatesDoc,
+        attestations: buildAttestationsDoc(ledger, state.gates || [], now),
+      };
+      fs.mkdirSync(outDir, { recursive: true });
+      fs.mkdirSync(fundingDir, { recursive: true });
+      writeOutputFiles(outDir, out);
+      fs.writeFileSync(outputFiles(outDir).LEDGER, formatLedger(ledger));
+      return out;
+    },
+  };
+
+  // an existing JSON partition is carried into an empty database once
+  const FILES = outputFiles(outDir);
+  if (!q.state.get(chainId) && fs.existsSync(FILES.STATE)) {
+    const state = readJSON<IndexerState>(FILES.STATE, { lastBlock: 0 });
+    let ledger: LedgerEntry[] = [];
+    try {
+      ledger = dedupeLedger(parseLedger(fs.readFileSync(FILES.LEDGER, "utf8"))).kept;
+    } catch {}
+    db.transaction(() => {
+      putEvents(ledger);
+      putSurveys(readJSON<SurveyMap>(FILES.SURV, {}));
+      putVerdicts(readJSON<Record<string, FundingVerdict>>(FILES.FUNDING, {}));
+      putCursors(state.cursors);
+      putCheckpoints(state.blockHashes);
+      q.putState.run(chainId, JSON.stringify(state), JSON.stringify(readJSON(FILES.GATES, null)));
+    })();
+    console.log(`[Indexer] Imported ${outDir} into SQLite (${ledger.length} ledger entries)`);
+  }
+  return store;
+}
@@ -0,0 +1,342 @@
+// backend/indexer/types.ts
+// Shapes shared by the indexer modules and persisted in the output directory.
+
+import type { SurveyResults } from "../results/results";
+import type { MetaIssue } from "./meta-schema";
+import type {
+  PredicateLeaf,
+  PredicateRule,
+  RejectedClause,
+} from "../predicates/schema";
+
+/** One v1 clause; see ../predicates for the full (v2) language. */
+export type Predicate = PredicateLeaf;
+
+export type GateInfo = {
+  addr: string;
+  /** the rule as a flat AND list; empty when it uses OR/NOT or is invalid (see `rule`) */
+  predicates: Predicate[];
+  rule?: PredicateRule;
+  /** clauses from meta that failed validation and were dropped */
+  rejected?: RejectedClause[];
+  epoch?: string;
+};
+
+/**
+ * upcoming → active → awaiting_finalization → finalized, then by the claim
+ * window claim_open → claim_closed; swept once the prize left the contract.
+ */
+export type SurveyStatus =
+  | "upcoming"
+  | "active"
+  | "awaiting_finalization"
+  | "finalized"
+  | "claim_open"
+  | "claim_closed"
+  | "swept";
+
+/** When each status began, or is scheduled to begin (unix seconds). */
+export type StatusTimes = Partial<Record<SurveyStatus, number>>;
+
+/**
+ * Prize funding against the planned reward: on-chain PrizeFunded events or
+ * accepted funding submissions, whichever is larger.
+ */
+export type FundingState = "unfunded" | "partial" | "funded" | "swept";
+
+export type SurveyQuestion = { index: number; text: string };
+
+/** One entry of surveys.json, keyed by lowercase survey address. */
+export interface SurveyRecord {
+  // SurveyDeployed
+  factory?: string;
+  creator?: string;
+  start?: number;
+  end?: number;
+  metaHash?: string;
+  surveyType?: number;
+  createdAt?: number;
+  /**
+   * Survey.gate(): the gate createSurveyWithGate deployed it with, the zero
+   * address for createSurvey. Read once; the contract never changes it.
+   */
+  onchainGate?: string;
+  // last block whose survey events were applied
+  eventsBlock?: number;
+
+  // survey events
+  participants?: number;
+  lastVoteAt?: number;
+  questions?: SurveyQuestion[];
+  finalizedAt?: number;
+  finalizeTxHash?: string;
+  rulesHash?: string;
+  resultsHash?: string;
+  claimOpenAt?: number;
+  claimDeadline?: number;
+  prizeFunded?: string;
+  prizeSwept?: string;
+  prizeLiveBalance?: string;
+  sweptAt?: number;
+
+  // gate attestations, derived from the ledger on every run
+  attestations?: AttestationStats;
+
+  // results tallied after Finalized, checked against resultsHash
+  results?: SurveyResults;
+  resultsVerified?: boolean;
+  /** hash of `results`, kept when it differs from resultsHash */
+  resultsComputedHash?: string;
+
+  // funding submissions
+  funded?: boolean;
+  fundingTxHash?: string | null;
+  fundedAmountWei?: string;
+
+  // meta
+  title?: string;
+  summary?: string;
+  image?: string;
+  plannedRewardEth?: string;
+  plannedRewardWei?: string;
+  /** `plannedReward` from SurveyDeployed, kept to check meta against */
+  plannedRewardOnchainWei?: string;
+  metaValid?: boolean;
+  metaIssues?: MetaIssue[];
+  metaUrl?: string;
+  meta?: unknown;
+  gate?: GateInfo;
+}
+
+export type SurveyMap = Record<string, SurveyRecord>;
+
+/** One entry of surveys.list.json. */
+export interface SurveyCard {
+  address: string;
+  factory?: string;
+  creator: string;
+  startTime: number;
+  endTime: number;
+  createdSec: number;
+  startSec: number;
+  endSec: number;
+  finalizedSec: number;
+  status: SurveyStatus;
+  statusTimes: StatusTimes;
+  fundingState: FundingState;
+  metaHash: string;
+  surveyType: number;
+  title: string;
+  summary: string;
+  image: string;
+  plannedRewardEth: string;
+  plannedRewardWei: string;
+  metaValid: boolean;
+  metaIssues: MetaIssue[];
+  metaUrl?: string;
+  prizeFunded: string;
+  prizeSwept: string;
+  prizeLiveBalance?: string;
+  participants: number;
+  questions: SurveyQuestion[];
+  rulesHash?: string;
+  resultsHash?: string;
+  /** finalized surveys only; false = the tally does not hash to resultsHash */
+  resultsVerified?: boolean;
+  resultsComputedHash?: string;
+  claimOpenAt?: number;
+  claimDeadline?: number;
+  attestations?: AttestationStats;
+  funded: boolean;
+  fundingTxHash: string | null;
+  fundedAmountWei: string;
+  gate?: GateInfo;
+  /** Survey.gate(), lowercase; absent until the indexer has read it */
+  onchainGate?: string;
+  chainId: number;
+}
+
+// ---------- Ledger (ledger.ndjson) ----------
+/**
+ * An entry is identified by (chainId, tx, logIndex); lines written before
+ * the key existed have neither field.
+ */
+type LedgerKeyFields = { chainId?: number; logIndex?: number };
+
+type LedgerBase = LedgerKeyFields & {
+  survey: string;
+  block: number;
+  ts: number;
+  tx: string;
+};
+
+export type SurveyDeployedEntry = LedgerKeyFields & {
+  t: "SurveyDeployed";
+  survey: string;
+  factory?: string;
+  creator: string;
+  start: number;
+  end: number;
+  metaHash: string;
+  surveyType: number;
+  plannedReward: string;
+  initialValue: string;
+  block: number;
+  ts: number;
+  tx: string;
+};
+export type VotedEntry = LedgerBase & { t: "Voted"; voter: string };
+export type QuestionAddedEntry = LedgerBase & {
+  t: "QuestionAdded";
+  index: number;
+  text: string;
+};
+export type FinalizedEntry = LedgerBase & {
+  t: "Finalized";
+  totalParticipants: number;
+  rulesHash: string;
+  resultsHash: string;
+  claimOpenAt: number;
+  claimDeadline: number;
+};
+export type PrizeFundedEntry = LedgerBase & {
+  t: "PrizeFunded";
+  funder: string;
+  amount: string;
+};
+export type PrizeSweptEntry = LedgerBase & {
+  t: "PrizeSwept";
+  to: string;
+  amount: string;
+};
+
+export type SurveyEventEntry =
+  | VotedEntry
+  | QuestionAddedEntry
+  | FinalizedEntry
+  | PrizeFundedEntry
+  | PrizeSweptEntry;
+
+/** Emitted by the eligibility gate; `survey` is the survey attested for. */
+export type EligibilityAttestedEntry = LedgerBase & {
+  t: "EligibilityAttested";
+  gate: string;
+  user: string;
+  uHash: string;
+};
+
+export type LedgerEntry =
+  | SurveyDeployedEntry
+  | SurveyEventEntry
+  | EligibilityAttestedEntry;
+
+// ---------- Attestations (attestations.json) ----------
+export type AttestationStats = {
+  /** distinct wallets attested for the survey */
+  eligible: number;
+  /** of those, wallets that voted */
+  voted: number;
+  /** voted / eligible, 0 when nobody was attested */
+  conversion: number;
+};
+
+/** A uHash attested for more than one wallet or survey. */
+export type UHashReuse = {
+  uHash: string;
+  wallets: string[];
+  surveys: string[];
+  attestations: number;
+  firstBlock: number;
+  lastBlock: number;
+};
+
+export type AttestationsDoc = {
+  gates: string[];
+  surveys: Record<string, AttestationStats>;
+  uHashReuse: UHashReuse[];
+  updatedAt: number;
+};
+
+// ---------- Funding ----------
+export type FundingSubmission = {
+  survey: string;
+  txHash: string;
+  createdAt?: number;
+  note?: string;
+  file?: string;
+};
+
+export type FundingVerdict = {
+  survey: string;
+  status: "accepted" | "rejected" | "pending";
+  reason?: string;
+  to?: string;
+  toKind?: "survey" | "treasury";
+  from?: string;
+  amountWei?: string;
+  block?: number;
+  file?: string;
+  checkedAt: number;
+};
+
+export type BalanceEntry = {
+  fundedWei: string;
+  fundedEth: string;
+  txs: { txHash: string; amountWei?: string; to?: string; block?: number }[];
+};
+
+// ---------- State (state.json) ----------
+export type BlockCheckpoint = { n: number; hash: string };
+export type LogGap = { from: number; to: number; error: string };
+export type GapRecord = LogGap & { scope: string; attempts: number };
+
+export interface IndexerState {
+  network?: string;
+  chainId?: number;
+  factories?: string[];
+  /** eligibility gates whose attestations are indexed */
+  gates?: string[];
+  treasurySafe?: string | null;
+  /** min over all cursors */
+  lastBlock: number;
+  /** "factory:<addr>" / "gate:<addr>" / "surveys" → last fully scanned block */
+  cursors?: Record<string, number>;
+  head?: number;
+  minConf?: number;
+  blockHashes?: BlockCheckpoint[];
+  gaps?: GapRecord[];
+  updatedAt?: number;
+}
+
+export type GatesDoc = {
+  eip712: {
+    domain: {
+      name: string;
+      version: string;
+      chainId: number;
+      verifyingContract: string;
+    };
+    types: Record<string, { name: string; type: string }[]>;
+  };
+  /** merged gates.json only: every chain's domain by chainId */
+  byChain?: Record<string, GatesDoc["eip712"]>;
+  updatedAt: number;
+};
+
+/** Everything one indexer run produces for one chain. */
+export interface IndexerOutput {
+  state: IndexerState;
+  surveys: SurveyMap;
+  list: SurveyCard[];
+  balances: Record<string, BalanceEntry>;
+  verdicts: Record<string, FundingVerdict>;
+  gates: GatesDoc;
+  attestations: AttestationsDoc;
+}
+
+/** Cross-chain view written at the output root and pushed to the Worker. */
+export interface MergedOutput {
+  list: SurveyCard[];
+  chains: IndexerOutput[];
+  updatedAt: number;
+}
@@ -0,0 +1,34 @@
+// backend/indexer/util.ts
+import { keccak256, toUtf8Bytes } from "ethers";
+
+/** JSON with object keys sorted recursively — the metaHash preimage. */
+export function canonicalize(obj: any) {
+  const sort = (v: any): any =>
+    Array.isArray(v)
+      ? v.map(sort)
+      : v && typeof v === "object"
+      ? Object.keys(v)
+          .sort()
+          .reduce((a: any, k: string) => ((a[k] = sort(v[k])), a), {})
+      : v;
+  return JSON.stringify(sort(obj));
+}
+
+/** keccak256(canonicalize(obj)), as anchored on-chain in `metaHash`. */
+export function canonicalHash(obj: any) {
+  return keccak256(toUtf8Bytes(canonicalize(obj)));
+}
+
+export function toSec(x: any) {
+  const n = Number(x || 0);
+  return n > 2e10 ? Math.floor(n / 1000) : Math.floor(n);
+}
+
+export const nowSec = () => Math.floor(Date.now() / 1000);
+
+export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export function errorText(err: any) {
+  const inner = err?.error?.message ? ` (${err.error.message})` : "";
+  return String(err?.shortMessage || err?.message || err) + inner;
+}
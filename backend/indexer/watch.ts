@@ -0,0 +1,198 @@
+// backend/indexer/watch.ts
+// Long-running mode: one provider per chain, polled for new heads. Each
+// tick scans at most one block batch per chain and persists it, so a
+// restart (or SIGTERM) never loses more than the batch in flight.
+import * as http from "http";
+import type { AddressInfo } from "net";
+import type { ChainConfig, IndexerConfig } from "./config";
+import { buildList, nextStatusChange } from "./pipeline";
+import { runIndexer, type MultiChainDeps, type ChainDeps } from "./run";
+import type { IndexerOutput, MergedOutput } from "./types";
+import { errorText, nowSec } from "./util";
+
+export type ChainHealth = {
+  chainId: number;
+  name: string;
+  head: number | null;
+  lastBlock: number | null;
+  /** head − lastBlock, MIN_CONF included */
+  lag: number | null;
+  updatedAt: number | null;
+  error?: string;
+};
+
+export type HealthReport = {
+  ok: boolean;
+  startedAt: number;
+  ticks: number;
+  chains: ChainHealth[];
+};
+
+type ChainCtx = {
+  chain: ChainConfig;
+  deps: ChainDeps;
+  out?: IndexerOutput;
+  head: number | null;
+  /** last head a scan was started for */
+  scannedHead: number;
+  nextChange: number;
+  error?: string;
+};
+
+const abortableSleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal.aborted) return resolve();
+    const t = setTimeout(done, ms);
+    function done() {
+      clearTimeout(t);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+    signal.addEventListener("abort", done);
+  });
+
+/**
+ * Keeps every chain close to head. A chain is re-run when its head moved, when
+ * a survey start/end boundary has passed (statuses are clock-derived) or while
+ * it is still catching up. Meta is only fetched for surveys that lack it.
+ */
+export function createWatcher({ config, meta, depsFor, merged }: MultiChainDeps) {
+  const startedAt = nowSec();
+  let ticks = 0;
+  // ONLY_LAST_BLOCKS only picks the starting point; afterwards the cursors do
+  const tailless: IndexerConfig = { ...config, onlyLastBlocks: 0 };
+  const ctxs: ChainCtx[] = config.chains.map((chain) => ({
+    chain,
+    deps: depsFor(chain),
+    head: null,
+    scannedHead: -1,
+    nextChange: 0,
+  }));
+
+  /** One pass over all chains; true when some chain still lags behind. */
+  async function tick(): Promise<boolean> {
+    ticks++;
+    let changed = false;
+    let behind = false;
+
+    for (const ctx of ctxs) {
+      const { chain, deps } = ctx;
+      try {
+        ctx.head = await deps.source.head();
+        const first = !ctx.out;
+        const due =
+          first ||
+          ctx.head !== ctx.scannedHead ||
+          (ctx.nextChange > 0 && nowSec() >= ctx.nextChange);
+        if (!due) continue;
+
+        ctx.scannedHead = ctx.head;
+        ctx.out = await runIndexer({
+          config: first ? config : tailless,
+          chain: first ? chain : { ...chain, onlyLastBlocks: 0 },
+          meta,
+          ...deps,
+          maxBlocks: config.batch,
+          metaRefresh: "missing",
+        });
+        ctx.nextChange = nextStatusChange(ctx.out.list);
+        ctx.error = undefined;
+        changed = true;
+
+        const caughtUp =
+          ctx.out.state.lastBlock >= Math.max(ctx.head - chain.minConf, 0);
+        if (!caughtUp && !ctx.out.state.gaps?.length) {
+          ctx.scannedHead = -1;
+          behind = true;
+        }
+      } catch (e) {
+        ctx.error = errorText(e);
+        console.error(`[Watch] ${chain.name} (${chain.chainId}): ${ctx.error}`);
+      }
+    }
+
+    if (changed) {
+      const output: MergedOutput = {
+        list: ctxs.flatMap(
+          (c) =>
+            c.out?.list ??
+            buildList(c.deps.store.loadSurveys(), c.chain.chainId)
+        ),
+        chains: ctxs.flatMap((c) => (c.out ? [c.out] : [])),
+        updatedAt: nowSec(),
+      };
+      for (const sink of merged) {
+        try {
+          await sink.writeMerged(output);
+        } catch (e) {
+          console.error(`[Watch] Merged output failed: ${errorText(e)}`);
+        }
+      }
+    }
+    return behind;
+  }
+
+  function health(): HealthReport {
+    const chains = ctxs.map(({ chain, out, head, error }): ChainHealth => {
+      const lastBlock = out ? out.state.lastBlock : null;
+      return {
+        chainId: chain.chainId,
+        name: chain.name,
+        head,
+        lastBlock,
+        lag: head !== null && lastBlock !== null ? head - lastBlock : null,
+        updatedAt: out?.state.updatedAt ?? null,
+        ...(error ? { error } : {}),
+      };
+    });
+    return {
+      ok: chains.every(
+        (c) => !c.error && c.lag !== null && c.lag <= config.watch.maxLag
+      ),
+      startedAt,
+      ticks,
+      chains,
+    };
+  }
+
+  /** Polls until `signal` aborts; the tick in flight is finished first. */
+  async function run(signal: AbortSignal) {
+    console.log(
+      `[Watch] Polling ${ctxs.length} chain(s) every ${config.watch.intervalMs}ms`
+    );
+    while (!signal.aborted) {
+      const behind = await tick();
+      if (!behind) await abortableSleep(config.watch.intervalMs, signal);
+    }
+    console.log("[Watch] Stopped");
+  }
+
+  return { tick, health, run };
+}
+
+export type Watcher = ReturnType<typeof createWatcher>;
+
+/** `GET /health` → the watcher's report; 503 while unhealthy. */
+export function serveHealth(
+  watcher: Pick<Watcher, "health">,
+  port: number
+): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.method !== "GET" || (req.url || "").split("?")[0] !== "/health") {
+      res.writeHead(404).end();
+      return;
+    }
+    const report = watcher.health();
+    res
+      .writeHead(report.ok ? 200 : 503, { "content-type": "application/json" })
+      .end(JSON.stringify(report));
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      const { port: bound } = server.address() as AddressInfo;
+      console.log(`[Watch] Health on http://127.0.0.1:${bound}/health`);
+      resolve(server);
+    });
+  });
+}
@@ -0,0 +1,252 @@
+// backend/indexer/worker-sink.ts
+import * as fs from "fs";
+import * as path from "path";
+import { readJSON, type MergedSink } from "./sinks";
+import type { SurveyCard } from "./types";
+import { canonicalHash, errorText } from "./util";
+
+export type HttpError = Error & { status: number };
+
+export async function httpPostJSON(
+  url: string,
+  body: any,
+  hdr: Record<string, string> = {}
+) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...hdr },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw Object.assign(new Error(`POST ${url} -> ${res.status} ${t}`), {
+      status: res.status,
+    }) as HttpError;
+  }
+  try {
+    return await res.json();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Admin routes of the D-Scope Worker, authorized with ADMIN_TOKEN.
+ * List mutations answer `{ version }`; a `list.upsert` sent with a stale
+ * `x-list-version` is refused with 409.
+ */
+export function createWorkerClient(apiBase: string, adminToken: string) {
+  const base = apiBase.replace(/\/+$/, "");
+  const auth = { authorization: `Bearer ${adminToken}` };
+  const versionOf = (r: any) =>
+    r?.version !== undefined && r?.version !== null ? String(r.version) : null;
+  return {
+    putMeta: (chainId: number, survey: string, meta: unknown) =>
+      httpPostJSON(`${base}/admin/meta.put`, { chainId, survey, meta }, auth),
+    upsertCard: async (card: SurveyCard, version?: string | null) =>
+      versionOf(
+        await httpPostJSON(
+          `${base}/admin/list.upsert`,
+          card,
+          version ? { ...auth, "x-list-version": version } : auth
+        )
+      ),
+    replaceList: async (list: SurveyCard[]) =>
+      versionOf(await httpPostJSON(`${base}/admin/list.replace`, list, auth)),
+  };
+}
+
+export type WorkerClient = ReturnType<typeof createWorkerClient>;
+
+// ---------- Push journal ----------
+type OutboxBase = { key: string; hash: string; attempts: number; error?: string };
+
+export type OutboxItem =
+  | (OutboxBase & {
+      kind: "meta";
+      chainId: number;
+      survey: string;
+      meta: unknown;
+    })
+  | (OutboxBase & { kind: "card"; card: SurveyCard });
+
+/** What the Worker is known to hold, plus pushes still owed to it. */
+export type PushState = {
+  /** list version the Worker reported after our last list mutation */
+  version: string | null;
+  /** "<chainId>:<survey>" → content hash last pushed successfully */
+  cards: Record<string, string>;
+  meta: Record<string, string>;
+  outbox: OutboxItem[];
+};
+
+export interface PushStore {
+  load(): PushState;
+  save(s: PushState): void;
+}
+
+const emptyPushState = (): PushState => ({
+  version: null,
+  cards: {},
+  meta: {},
+  outbox: [],
+});
+
+/** `worker-push.json` next to the merged outputs. */
+export function createFsPushStore(rootDir: string): PushStore {
+  const file = path.join(rootDir, "worker-push.json");
+  return {
+    load: () => ({ ...emptyPushState(), ...readJSON(file, {}) }),
+    save(s) {
+      if (!fs.existsSync(rootDir)) fs.mkdirSync(rootDir, { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(s, null, 2));
+    },
+  };
+}
+
+export function createMemoryPushStore(
+  init: Partial<PushState> = {}
+): PushStore & { state: PushState } {
+  const clone = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+  const store = {
+    state: { ...emptyPushState(), ...init },
+    load: () => clone(store.state),
+    save: (s: PushState) => void (store.state = clone(s)),
+  };
+  return store;
+}
+
+export const cardKey = (chainId: number, survey: string) =>
+  `${chainId}:${survey.toLowerCase()}`;
+
+/**
+ * Pushes only what changed since the last successful push: meta documents of
+ * valid surveys, then changed cards via `list.upsert`. Failed pushes stay in
+ * a persistent outbox and are retried on the next write. The whole list is
+ * replaced only on the first sync, when cards disappeared (reorg), or when
+ * the Worker refuses an upsert because its list version moved.
+ */
+export function createWorkerSink(
+  apiBase: string,
+  adminToken: string,
+  store: PushStore
+): MergedSink {
+  const worker = createWorkerClient(apiBase, adminToken);
+
+  return {
+    async writeMerged({ list, chains }) {
+      if (!apiBase || !adminToken) return;
+      const state = store.load();
+
+      // 1. queue whatever differs from what the Worker holds; the outbox
+      // also carries items whose chain produced no output this time
+      const queue = new Map<string, OutboxItem>();
+      for (const item of state.outbox) queue.set(`${item.kind}:${item.key}`, item);
+      const enqueue = (item: OutboxItem) => {
+        const id = `${item.kind}:${item.key}`;
+        const pushed = item.kind === "meta" ? state.meta : state.cards;
+        if (pushed[item.key] === item.hash) queue.delete(id);
+        else queue.set(id, { ...item, attempts: queue.get(id)?.attempts ?? 0 });
+      };
+
+      for (const { state: chainState, list: chainList, surveys } of chains) {
+        const chainId = Number(chainState.chainId);
+        for (const card of chainList) {
+          const meta = surveys[card.address]?.meta;
+          if (!card.metaValid || !meta) continue;
+          enqueue({
+            kind: "meta",
+            key: cardKey(chainId, card.address),
+            hash: canonicalHash(meta),
+            chainId,
+            survey: card.address,
+            meta,
+            attempts: 0,
+          });
+        }
+      }
+
+      const listed = new Set<string>();
+      for (const card of list) {
+        const key = cardKey(card.chainId, card.address);
+        listed.add(key);
+        enqueue({ kind: "card", key, hash: canonicalHash(card), card, attempts: 0 });
+      }
+      for (const [id, item] of queue) {
+        if (item.kind === "card" && !listed.has(item.key)) queue.delete(id);
+      }
+      // The Worker has no route that deletes one card, so a card that left
+      // the list is dropped by replacing it. That only happens when a reorg
+      // drops a SurveyDeployed or a factory leaves the config: rare enough
+      // that the full replace costs nothing in practice.
+      const removed = Object.keys(state.cards).filter((k) => !listed.has(k));
+      let replace = state.version === null || removed.length > 0;
+
+      const fail = (item: OutboxItem, e: unknown) => {
+        item.attempts++;
+        item.error = errorText(e).slice(0, 500);
+        console.warn(
+          `[Push] ${item.kind} ${item.key} failed (${item.attempts}x): ${item.error}`
+        );
+      };
+
+      // 2. meta first, so a card never points at a document the Worker lacks
+      for (const [id, item] of queue) {
+        if (item.kind !== "meta") continue;
+        try {
+          await worker.putMeta(item.chainId, item.survey, item.meta);
+          state.meta[item.key] = item.hash;
+          queue.delete(id);
+        } catch (e) {
+          fail(item, e);
+        }
+      }
+
+      // 3. changed cards, one upsert each
+      if (!replace) {
+        const cards = Array.from(queue).filter(([, i]) => i.kind === "card");
+        if (cards.length) {
+          console.log(`[Push] Upserting ${cards.length} changed card(s)...`);
+        }
+        for (const [id, item] of cards) {
+          if (item.kind !== "card") continue;
+          try {
+            const version = await worker.upsertCard(item.card, state.version);
+            if (version) state.version = version;
+            state.cards[item.key] = item.hash;
+            queue.delete(id);
+          } catch (e) {
+            if ((e as HttpError).status === 409) {
+              console.warn("[Push] Worker list version moved; replacing the list");
+              replace = true;
+              break;
+            }
+            fail(item, e);
+          }
+        }
+      }
+
+      // 4. full replace as the fallback
+      if (replace) {
+        console.log(`[Push] Replacing the full list of ${list.length} surveys...`);
+        try {
+          // "" = synced with a Worker that does not report versions
+          state.version = (await worker.replaceList(list)) ?? "";
+          state.cards = {};
+          for (const card of list) {
+            state.cards[cardKey(card.chainId, card.address)] = canonicalHash(card);
+          }
+          for (const [id, item] of queue) {
+            if (item.kind === "card") queue.delete(id);
+          }
+          console.log("[Push] ✅ Successfully replaced surveys.list.json on Worker");
+        } catch (e) {
+          console.error("[Push] ❌ Failed to replace list on Worker:", e);
+        }
+      }
+
+      state.outbox = Array.from(queue.values());
+      store.save(state);
+    },
+  };
+}
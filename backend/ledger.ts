@@ -0,0 +1,79 @@
+// backend/ledger.ts
+
+/**
+ * Ledger maintenance for every configured chain under OUTPUT_DIR. Stop the
+ * indexer first. Thin CLI entry; the work lives in ./indexer/ledger.
+ *
+ *   ledger.ts compact [--chain <id>]
+ *     dedupe the ledger by (chainId, tx, logIndex), sort it into chain order
+ *     and write ledger.checksum.json
+ *   ledger.ts rebuild [--chain <id>] [--force]
+ *     regenerate surveys.json / surveys.list.json from the ledger (and the
+ *     merged list at the root) without touching the chain
+ *
+ * JSON storage only. With STORAGE=sqlite the events table is the ledger
+ * (already keyed by (chainId, tx, logIndex)) and ledger.ndjson an export the
+ * next run overwrites, so both commands refuse rather than diverge from it.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  compactLedger,
+  configFromEnv,
+  loadDotenv,
+  outputFiles,
+  rebuildFromLedger,
+  rebuildMergedList,
+} from "./indexer";
+
+(async () => {
+  loadDotenv();
+  const cmd = process.argv[2];
+  if (cmd !== "compact" && cmd !== "rebuild") {
+    throw new Error("Usage: ledger.ts <compact|rebuild> [--chain <id>] [--force]");
+  }
+  const config = configFromEnv();
+  if (config.storage.kind !== "json") {
+    throw new Error(
+      `ledger ${cmd} works on the JSON layout; STORAGE=${config.storage.kind} keeps the ledger ` +
+        `in ${config.storage.sqliteFile}, whose ledger.ndjson is an export`
+    );
+  }
+  const chainIdx = process.argv.indexOf("--chain");
+  const only = chainIdx > 0 ? Number(process.argv[chainIdx + 1]) : null;
+  const chainIds = config.chains.map((c) => c.chainId);
+  if (only !== null && !chainIds.includes(only)) {
+    throw new Error(`Chain ${process.argv[chainIdx + 1]} is not configured`);
+  }
+
+  for (const chainId of only !== null ? [only] : chainIds) {
+    const outDir = path.join(config.outputDir, String(chainId));
+    if (!fs.existsSync(outputFiles(outDir).LEDGER)) {
+      console.log(`[Ledger] ${chainId}: no ledger in ${outDir}, skipped`);
+      continue;
+    }
+    if (cmd === "compact") {
+      const r = compactLedger(outDir);
+      console.log(
+        `[Ledger] ${chainId}: ${r.entries} entries, dropped ${r.duplicates} duplicate(s) ` +
+          `and ${r.unreadable} unreadable line(s); sha256 ${r.checksum.digest}`
+      );
+    } else {
+      const r = rebuildFromLedger(outDir, chainId, {
+        force: process.argv.includes("--force"),
+      });
+      if (r.verified === false) console.warn(`[Ledger] ${chainId}: checksum mismatch ignored (--force)`);
+      if (r.orphans) console.warn(`[Ledger] ${chainId}: ${r.orphans} event(s) of undeployed surveys skipped`);
+      console.log(`[Ledger] ${chainId}: rebuilt ${r.list.length} survey(s) from ${r.entries} entries`);
+    }
+  }
+
+  if (cmd === "rebuild") {
+    const list = rebuildMergedList(config.outputDir, chainIds);
+    console.log(`[Ledger] Merged list: ${list.length} survey(s)`);
+  }
+})().catch((e) => {
+  console.error("[Ledger] Fatal:", e);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+// backend/local-worker.ts
+
+/**
+ * Local D-Scope Worker for offline work: point the indexer's API_BASE at it.
+ * Thin CLI entry; the server lives in ./worker.
+ *
+ *   WORKER_DATA_DIR (default ./local-worker-data), WORKER_PORT (default 8788),
+ *   ADMIN_TOKEN (required)
+ */
+
+import * as path from "path";
+import { loadDotenv } from "./indexer";
+import { startLocalWorker } from "./worker";
+
+(async () => {
+  loadDotenv();
+  const dataDir = path.resolve(process.env.WORKER_DATA_DIR || "local-worker-data");
+  const worker = await startLocalWorker({
+    dataDir,
+    adminToken: process.env.ADMIN_TOKEN || "",
+    port: Number(process.env.WORKER_PORT || 8788),
+  });
+  console.log(`[Worker] Listening on ${worker.url}, data in ${dataDir}`);
+
+  for (const sig of ["SIGTERM", "SIGINT"] as const) {
+    process.on(sig, () => void worker.close().then(() => process.exit(0)));
+  }
+})().catch((e) => {
+  console.error("[Worker] Fatal:", e);
+  process.exit(1);
+});
@@ -0,0 +1,157 @@
+// backend/predicates/evaluate.ts
+import {
+  isLeaf,
+  type PredicateExpr,
+  type PredicateLeaf,
+  type PredicateRule,
+  type Scalar,
+} from "./schema";
+
+/** Why a respondent does not match; `path` points into the rule. */
+export type PredicateFailure = {
+  path: string;
+  predicate?: PredicateLeaf;
+  reason: string;
+};
+
+export type Evaluation = { eligible: boolean; failures: PredicateFailure[] };
+
+const OP_TEXT: Record<string, string> = {
+  "==": "be",
+  "!=": "not be",
+  ">=": "be at least",
+  "<=": "be at most",
+  ">": "be more than",
+  "<": "be less than",
+  in: "be one of",
+  not_in: "not be one of",
+  between: "be between",
+};
+
+const show = (v: Scalar | Scalar[]) =>
+  Array.isArray(v) ? v.map(String).join(", ") : String(v);
+
+/** "age must be at least 18" */
+export function describePredicate(p: PredicateLeaf) {
+  const value =
+    p.op === "between" && Array.isArray(p.value)
+      ? `${p.value[0]} and ${p.value[1]}`
+      : show(p.value);
+  return `${p.key} must ${OP_TEXT[p.op] ?? p.op} ${value}`;
+}
+
+// strings compare case-insensitively ("de" matches "DE")
+const norm = (v: unknown) => (typeof v === "string" ? v.toLowerCase() : v);
+
+function testLeaf(p: PredicateLeaf, actual: unknown): boolean {
+  const a = norm(actual);
+  const v = p.value;
+  switch (p.op) {
+    case "==":
+      return a === norm(v);
+    case "!=":
+      return a !== norm(v);
+    case ">=":
+      return typeof a === "number" && a >= Number(v);
+    case "<=":
+      return typeof a === "number" && a <= Number(v);
+    case ">":
+      return typeof a === "number" && a > Number(v);
+    case "<":
+      return typeof a === "number" && a < Number(v);
+    case "in":
+      return Array.isArray(v) && v.map(norm).includes(a);
+    case "not_in":
+      return Array.isArray(v) && !v.map(norm).includes(a);
+    case "between":
+      return (
+        Array.isArray(v) &&
+        typeof a === "number" &&
+        a >= Number(v[0]) &&
+        a <= Number(v[1])
+      );
+  }
+  return false;
+}
+
+/**
+ * Evaluates a rule (or a v1 list of leaves, AND-ed) against a respondent's
+ * attributes. A missing attribute fails its clause, also under `not`, so
+ * withholding an attribute never gets around an exclusion. `failures` says
+ * which clauses failed and why, so the respondent can be told what is
+ * missing. A rule with rejected clauses matches nobody.
+ */
+export function evaluatePredicates(
+  predicates: PredicateRule | PredicateLeaf[] | null | undefined,
+  attributes: Record<string, unknown>
+): Evaluation {
+  if (!predicates) return { eligible: true, failures: [] };
+  if (!Array.isArray(predicates) && predicates.rejected?.length) {
+    return {
+      eligible: false,
+      failures: predicates.rejected.map((r) => ({
+        path: r.path,
+        reason: `the rule is invalid: ${r.reason}`,
+      })),
+    };
+  }
+  const root: PredicateExpr = Array.isArray(predicates)
+    ? { all: predicates }
+    : predicates.rule;
+
+  // "not provided" failures, which `not` passes up instead of inverting
+  const missing = new Set<PredicateFailure>();
+
+  function run(e: PredicateExpr, path: string): PredicateFailure[] {
+    if (isLeaf(e)) {
+      const actual = attributes[e.key];
+      if (actual === undefined || actual === null) {
+        const f = { path, predicate: e, reason: `${e.key} is not provided` };
+        missing.add(f);
+        return [f];
+      }
+      return testLeaf(e, actual)
+        ? []
+        : [
+            {
+              path,
+              predicate: e,
+              reason: `${describePredicate(e)} (is ${String(actual)})`,
+            },
+          ];
+    }
+    if ("all" in e) {
+      return e.all.flatMap((x, i) => run(x, `${path}.all[${i}]`));
+    }
+    if ("any" in e) {
+      if (!e.any.length) return [];
+      const branches = e.any.map((x, i) => run(x, `${path}.any[${i}]`));
+      if (branches.some((f) => !f.length)) return [];
+      return [
+        { path, reason: "none of the alternatives is met" },
+        ...branches.flat(),
+      ];
+    }
+    const inner = run(e.not, `${path}.not`);
+    const unknown = inner.filter((f) => missing.has(f));
+    if (unknown.length) return unknown;
+    return inner.length
+      ? []
+      : [{ path, reason: `must not match ${describeExpr(e.not)}` }];
+  }
+
+  const failures = run(root, "rule");
+  return { eligible: failures.length === 0, failures };
+}
+
+/** One-line rendering of a whole expression, for messages and UIs. */
+export function describeExpr(e: PredicateExpr): string {
+  if (isLeaf(e)) {
+    return e.op === "between" && Array.isArray(e.value)
+      ? `${e.key} between ${e.value[0]}..${e.value[1]}`
+      : `${e.key} ${e.op} ${show(e.value)}`;
+  }
+  if ("all" in e) return `(${e.all.map(describeExpr).join(" AND ")})`;
+  if ("any" in e) return `(${e.any.map(describeExpr).join(" OR ")})`;
+  return `NOT ${describeExpr(e.not)}`;
+}
@@ -0,0 +1,4 @@
+// backend/predicates/index.ts
+export * from "./schema";
+export * from "./validate";
+export * from "./evaluate";
@@ -0,0 +1,70 @@
+// backend/predicates/schema.ts
+// Eligibility predicates as published in survey meta. Shared by the indexer,
+// the frontend and the attester, so nothing here may depend on Node APIs.
+
+/**
+ * v1: the legacy flat object (`{ age: { gte: 18 }, country: { in: [...] } }`)
+ *     or a plain list of leaves, implicitly AND-ed.
+ * v2: `{ version: 2, rule }` with AND/OR/NOT composition.
+ */
+export const PREDICATE_SCHEMA_VERSION = 2;
+
+export type AttributeType = "number" | "string" | "boolean";
+
+/** Attributes a respondent can prove; a key outside this table is rejected. */
+export const ATTRIBUTES: Record<string, AttributeType> = {
+  age: "number",
+  age_bucket: "number",
+  gender: "string",
+  country: "string",
+  region: "string",
+  human: "boolean",
+};
+
+export type PredicateOp =
+  | "=="
+  | "!="
+  | ">="
+  | "<="
+  | ">"
+  | "<"
+  | "in"
+  | "not_in"
+  | "between";
+
+export const OPS_BY_TYPE: Record<AttributeType, PredicateOp[]> = {
+  number: ["==", "!=", ">=", "<=", ">", "<", "in", "not_in", "between"],
+  string: ["==", "!=", "in", "not_in"],
+  boolean: ["==", "!="],
+};
+
+export type Scalar = number | string | boolean;
+
+/** `between` is inclusive on both ends: `[min, max]`. */
+export type PredicateLeaf = {
+  key: string;
+  op: PredicateOp;
+  value: Scalar | Scalar[];
+};
+
+export type PredicateExpr =
+  | PredicateLeaf
+  | { all: PredicateExpr[] }
+  | { any: PredicateExpr[] }
+  | { not: PredicateExpr };
+
+export type PredicateRule = {
+  version: typeof PREDICATE_SCHEMA_VERSION;
+  rule: PredicateExpr;
+  /**
+   * Set when the submitted rule had clauses that failed validation. `rule`
+   * then holds only what survived, for display; the rule as a whole is
+   * invalid and matches nobody.
+   */
+  rejected?: RejectedClause[];
+};
+
+/** A clause the validator dropped; `path` points into the submitted document. */
+export type RejectedClause = { path: string; clause: unknown; reason: string };
+
+export const isLeaf = (e: PredicateExpr): e is PredicateLeaf => "key" in e;
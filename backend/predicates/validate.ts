@@ -0,0 +1,227 @@
+// backend/predicates/validate.ts
+import {
+  ATTRIBUTES,
+  OPS_BY_TYPE,
+  PREDICATE_SCHEMA_VERSION,
+  isLeaf,
+  type PredicateExpr,
+  type PredicateLeaf,
+  type PredicateOp,
+  type PredicateRule,
+  type RejectedClause,
+  type Scalar,
+} from "./schema";
+
+export const MAX_DEPTH = 8;
+export const MAX_CLAUSES = 64;
+
+/** Keys of the legacy object format → operators. */
+const LEGACY_OPS: Record<string, PredicateOp> = {
+  eq: "==",
+  ne: "!=",
+  gte: ">=",
+  lte: "<=",
+  gt: ">",
+  lt: "<",
+  in: "in",
+  not_in: "not_in",
+  between: "between",
+};
+
+export type ParsedPredicates = {
+  /** null when nothing was submitted; carries `rejected` when it is invalid */
+  rule: PredicateRule | null;
+  rejected: RejectedClause[];
+};
+
+class Rejection extends Error {}
+
+function coerce(type: string, v: unknown): Scalar {
+  switch (type) {
+    case "number": {
+      const n = typeof v === "string" && v.trim() !== "" ? Number(v) : v;
+      if (typeof n !== "number" || !Number.isFinite(n)) {
+        throw new Rejection(`expected a number, got ${JSON.stringify(v)}`);
+      }
+      return n;
+    }
+    case "string":
+      if (typeof v !== "string" && typeof v !== "number") {
+        throw new Rejection(`expected a string, got ${JSON.stringify(v)}`);
+      }
+      return String(v);
+    default:
+      // legacy meta wrote `human: 1`
+      if (typeof v !== "boolean" && v !== 0 && v !== 1) {
+        throw new Rejection(`expected a boolean, got ${JSON.stringify(v)}`);
+      }
+      return !!v;
+  }
+}
+
+/** Type-checks one leaf and coerces its value; throws a Rejection. */
+function checkLeaf(key: unknown, op: unknown, value: unknown): PredicateLeaf {
+  if (typeof key !== "string" || !key) throw new Rejection("missing key");
+  const type = ATTRIBUTES[key];
+  if (!type) throw new Rejection(`unknown attribute "${key}"`);
+  if (!OPS_BY_TYPE[type].includes(op as PredicateOp)) {
+    throw new Rejection(`operator "${op}" is not supported for ${type} "${key}"`);
+  }
+
+  switch (op) {
+    case "in":
+    case "not_in": {
+      if (!Array.isArray(value) || !value.length) {
+        throw new Rejection(`"${op}" needs a non-empty list`);
+      }
+      return { key, op, value: value.map((v) => coerce(type, v)) };
+    }
+    case "between": {
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new Rejection('"between" needs [min, max]');
+      }
+      const [min, max] = value.map((v) => coerce(type, v)) as number[];
+      if (min > max) throw new Rejection(`empty range [${min}, ${max}]`);
+      return { key, op, value: [min, max] };
+    }
+    default:
+      if (Array.isArray(value)) {
+        throw new Rejection(`"${op}" needs a single value`);
+      }
+      return { key, op: op as PredicateOp, value: coerce(type, value) };
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+/**
+ * Validates predicates from survey meta in any supported version and returns
+ * them as a v2 rule. Invalid clauses are listed in `rejected` with the
+ * reason, and any of them invalidates the whole rule: dropping a clause
+ * under an AND or a NOT would make the gate broader than its author meant.
+ */
+export function parsePredicates(raw: unknown): ParsedPredicates {
+  const rejected: RejectedClause[] = [];
+  let clauses = 0;
+  const reject = (path: string, clause: unknown, reason: string) => {
+    rejected.push({ path, clause, reason });
+    return null;
+  };
+
+  function leaf(path: string, clause: unknown, key: unknown, op: unknown, value: unknown) {
+    if (++clauses > MAX_CLAUSES) {
+      return reject(path, clause, `more than ${MAX_CLAUSES} clauses`);
+    }
+    try {
+      return checkLeaf(key, op, value);
+    } catch (e) {
+      if (e instanceof Rejection) return reject(path, clause, e.message);
+      throw e;
+    }
+  }
+
+  function group(
+    kind: "all" | "any",
+    path: string,
+    items: unknown,
+    depth: number
+  ): PredicateExpr | null {
+    if (!Array.isArray(items)) return reject(path, items, `"${kind}" needs a list`);
+    if (kind === "any" && !items.length) {
+      return reject(path, items, '"any" needs at least one alternative');
+    }
+    const kept = items
+      .map((x, i) => expr(`${path}[${i}]`, x, depth + 1))
+      .filter((x): x is PredicateExpr => x !== null);
+    if (!kept.length && items.length) {
+      return reject(
+        path,
+        items,
+        kind === "any" ? "every alternative was rejected" : "every clause was rejected"
+      );
+    }
+    return kind === "all" ? { all: kept } : { any: kept };
+  }
+
+  function expr(path: string, e: unknown, depth: number): PredicateExpr | null {
+    if (depth > MAX_DEPTH) return reject(path, e, `nested deeper than ${MAX_DEPTH}`);
+    if (!isObject(e)) return reject(path, e, "expected an object");
+    const shape = ["key", "all", "any", "not"].filter((k) => k in e);
+    if (shape.length !== 1) {
+      return reject(path, e, 'expected exactly one of "key", "all", "any", "not"');
+    }
+    switch (shape[0]) {
+      case "key":
+        return leaf(path, e, e.key, e.op, e.value);
+      case "all":
+        return group("all", `${path}.all`, e.all, depth);
+      case "any":
+        return group("any", `${path}.any`, e.any, depth);
+      default: {
+        const inner = expr(`${path}.not`, e.not, depth + 1);
+        return inner ? { not: inner } : null;
+      }
+    }
+  }
+
+  /** `{ age: { gte: 18 }, human: true }` — each key an implicit AND. */
+  function legacyObject(obj: Record<string, any>): PredicateExpr {
+    const all: PredicateExpr[] = [];
+    for (const [key, spec] of Object.entries(obj)) {
+      if (isObject(spec)) {
+        for (const [name, value] of Object.entries(spec)) {
+          const op = LEGACY_OPS[name];
+          const l = op
+            ? leaf(`${key}.${name}`, value, key, op, value)
+            : reject(`${key}.${name}`, value, `unknown operator "${name}"`);
+          if (l) all.push(l);
+        }
+      } else {
+        const l = leaf(key, spec, key, "==", spec);
+        if (l) all.push(l);
+      }
+    }
+    return { all };
+  }
+
+  const wrap = (rule: PredicateExpr | null): ParsedPredicates => ({
+    rule: rejected.length
+      ? { version: PREDICATE_SCHEMA_VERSION, rule: rule ?? { all: [] }, rejected }
+      : rule
+      ? { version: PREDICATE_SCHEMA_VERSION, rule }
+      : null,
+    rejected,
+  });
+
+  if (raw === null || raw === undefined) return wrap(null);
+  if (Array.isArray(raw)) return wrap(group("all", "", raw, 0));
+  if (!isObject(raw)) return wrap(reject("", raw, "expected an object or a list"));
+  if ("version" in raw) {
+    if (Number(raw.version) !== PREDICATE_SCHEMA_VERSION) {
+      return wrap(reject("version", raw.version, `unsupported schema version ${raw.version}`));
+    }
+    return wrap(expr("rule", raw.rule, 0));
+  }
+  return wrap(legacyObject(raw));
+}
+
+/**
+ * The leaves of a rule that is a plain AND of leaves (the v1 shape), or null
+ * when it uses OR/NOT or is invalid and cannot be flattened without changing
+ * its meaning.
+ */
+export function flattenConjunction(rule: PredicateRule | null): PredicateLeaf[] | null {
+  if (!rule) return [];
+  if (rule.rejected?.length) return null;
+  const out: PredicateLeaf[] = [];
+  const walk = (e: PredicateExpr): boolean => {
+    if (isLeaf(e)) {
+      out.push(e);
+      return true;
+    }
+    if ("all" in e) return e.all.every(walk);
+    return false;
+  };
+  return walk(rule.rule) ? out : null;
+}
@@ -0,0 +1,32 @@
+// backend/query-api.ts
+
+/**
+ * Read-only query API over the indexer output (OUTPUT_DIR). Files are
+ * re-read when the indexer rewrites them; no restart needed.
+ * Thin CLI entry; the service lives in ./api.
+ *
+ *   OUTPUT_DIR (default ../dscope-api/api), API_PORT (default 8789),
+ *   API_HOST (default 127.0.0.1)
+ */
+
+import * as path from "path";
+import { startQueryApi } from "./api";
+import { loadDotenv } from "./indexer";
+
+(async () => {
+  loadDotenv();
+  const outDir = path.resolve(process.env.OUTPUT_DIR || "../dscope-api/api");
+  const api = await startQueryApi({
+    outDir,
+    port: Number(process.env.API_PORT || 8789),
+    host: process.env.API_HOST || "127.0.0.1",
+  });
+  console.log(`[API] Serving ${outDir} on ${api.url}`);
+
+  for (const sig of ["SIGTERM", "SIGINT"] as const) {
+    process.on(sig, () => void api.close().then(() => process.exit(0)));
+  }
+})().catch((e) => {
+  console.error("[API] Fatal:", e);
+  process.exit(1);
+});
@@ -0,0 +1,2 @@
+// backend/registry/index.ts
+export * from "./registry";
@@ -0,0 +1,127 @@
+// backend/registry/registry.ts
+// Per-network deployment registry, registry/<network>.json. Every run of
+// scripts/deploy.ts appends a numbered version holding the gate and the
+// factory it deployed; the indexer takes factories, start blocks and gates
+// from it instead of hard-coded addresses.
+
+import * as fs from "fs";
+import * as path from "path";
+import { canonicalHash } from "../indexer/util";
+
+export const REGISTRY_SCHEMA = 1;
+export const GATE_CONTRACT = "ZkPassEligibilityGate";
+export const FACTORY_CONTRACT = "SurveyFactory";
+
+export type DeployedContract = {
+  address: string;
+  /** block of the deployment; the factory's is the indexer start block */
+  block: number;
+  tx?: string;
+  /** `abiHash()` of the artifact that was deployed */
+  abiHash?: string;
+  verified?: boolean;
+};
+
+export type DeploymentVersion = {
+  version: number;
+  deployedAt: number;
+  deployer?: string;
+  /** git commit the contracts were compiled from */
+  commit?: string;
+  note?: string;
+  /** by contract name: GATE_CONTRACT, FACTORY_CONTRACT */
+  contracts: Record<string, DeployedContract>;
+};
+
+export type DeploymentRegistry = {
+  schema: number;
+  network: string;
+  chainId: number;
+  /** the version new surveys are created against */
+  current: number;
+  versions: DeploymentVersion[];
+};
+
+export const registryFile = (dir: string, network: string) =>
+  path.join(dir, `${network}.json`);
+
+/** Hash of a contract ABI, independent of key order and whitespace. */
+export const abiHash = (abi: unknown) => canonicalHash(abi);
+
+const isAddress = (s: unknown) => /^0x[0-9a-fA-F]{40}$/.test(String(s));
+
+/** Reads and checks a registry file; throws on anything malformed. */
+export function readRegistry(file: string): DeploymentRegistry {
+  let reg: DeploymentRegistry;
+  try {
+    reg = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new Error(`Cannot read deployment registry ${file}: ${(e as Error).message}`);
+  }
+  const bad = (why: string) => new Error(`Invalid deployment registry ${file}: ${why}`);
+  if (reg?.schema !== REGISTRY_SCHEMA) throw bad(`schema ${reg?.schema}, expected ${REGISTRY_SCHEMA}`);
+  if (!Number.isInteger(reg.chainId) || reg.chainId <= 0) throw bad(`chainId ${reg.chainId}`);
+  if (!Array.isArray(reg.versions) || !reg.versions.length) throw bad("no versions");
+  for (const v of reg.versions) {
+    const factory = v.contracts?.[FACTORY_CONTRACT];
+    if (!isAddress(factory?.address)) throw bad(`version ${v.version} has no ${FACTORY_CONTRACT}`);
+    const gate = v.contracts[GATE_CONTRACT];
+    if (gate && !isAddress(gate.address)) throw bad(`version ${v.version} has an invalid gate`);
+  }
+  if (!reg.versions.some((v) => v.version === reg.current)) {
+    throw bad(`current version ${reg.current} is not listed`);
+  }
+  return reg;
+}
+
+export function writeRegistry(file: string, reg: DeploymentRegistry) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(reg, null, 2) + "\n");
+  fs.renameSync(tmp, file);
+}
+
+/** `reg` with `entry` appended as the next version and made current. */
+export function addVersion(
+  reg: DeploymentRegistry | null,
+  network: string,
+  chainId: number,
+  entry: Omit<DeploymentVersion, "version">
+): DeploymentRegistry {
+  if (reg && reg.chainId !== chainId) {
+    throw new Error(`Registry of ${network} is for chain ${reg.chainId}, not ${chainId}`);
+  }
+  const versions = reg?.versions || [];
+  const version = Math.max(0, ...versions.map((v) => v.version)) + 1;
+  return {
+    schema: REGISTRY_SCHEMA,
+    network,
+    chainId,
+    current: version,
+    versions: [...versions, { version, ...entry }],
+  };
+}
+
+export const currentVersion = (reg: DeploymentRegistry) =>
+  reg.versions.find((v) => v.version === reg.current)!;
+
+/**
+ * What the indexer scans: the factory of every version (surveys created on
+ * an older one keep emitting) and every gate, the current one first.
+ */
+export function registryTargets(reg: DeploymentRegistry) {
+  const factories: { address: string; startBlock: number; version: string }[] = [];
+  for (const v of [...reg.versions].sort((a, b) => a.version - b.version)) {
+    const f = v.contracts[FACTORY_CONTRACT];
+    const address = f.address.toLowerCase();
+    if (factories.some((x) => x.address === address)) continue;
+    factories.push({ address, startBlock: f.block || 0, version: `${FACTORY_CONTRACT}@v${v.version}` });
+  }
+  const byRecency = [currentVersion(reg), ...[...reg.versions].sort((a, b) => b.version - a.version)];
+  const gates: string[] = [];
+  for (const v of byRecency) {
+    const g = v.contracts[GATE_CONTRACT]?.address.toLowerCase();
+    if (g && !gates.includes(g)) gates.push(g);
+  }
+  return { factories, gates };
+}
@@ -0,0 +1,43 @@
+// backend/results-hash.ts
+
+/**
+ * Tallies a survey from the chain and prints its results document and the
+ * resultsHash to pass to `Survey.finalize`. Run it after endTime, before
+ * finalizing. Thin CLI entry; the rules live in ./results.
+ *
+ *   results-hash.ts <survey> [--out results.json]
+ *   SCROLL_RPC / RPC_URL (default https://sepolia-rpc.scroll.io)
+ */
+
+import * as fs from "fs";
+import { JsonRpcProvider, isAddress } from "ethers";
+import { loadDotenv } from "./indexer";
+import { readSurveyResults, resultsHash } from "./results";
+
+(async () => {
+  loadDotenv();
+  const [survey] = process.argv.slice(2).filter((a) => !a.startsWith("--"));
+  if (!survey || !isAddress(survey)) {
+    throw new Error("Usage: results-hash.ts <survey address> [--out file]");
+  }
+  const outIdx = process.argv.indexOf("--out");
+  const outFile = outIdx > 0 ? process.argv[outIdx + 1] : "";
+
+  const rpc =
+    process.env.SCROLL_RPC || process.env.RPC_URL || "https://sepolia-rpc.scroll.io";
+  const provider = new JsonRpcProvider(rpc);
+  const { chainId } = await provider.getNetwork();
+
+  const results = await readSurveyResults(
+    (to, data) => provider.call({ to, data }),
+    survey,
+    Number(chainId)
+  );
+  const hash = resultsHash(results);
+  if (outFile) fs.writeFileSync(outFile, JSON.stringify(results, null, 2));
+  console.log(JSON.stringify({ resultsHash: hash, results }, null, 2));
+  provider.destroy();
+})().catch((e) => {
+  console.error("[Results] Fatal:", e);
+  process.exit(1);
+});
@@ -0,0 +1,264 @@
+// backend/results/export.ts
+// Respondent-level export of a survey's answers, read from the contract.
+//
+// Writes next to `outBase`:
+//   <outBase>.csv             one row per respondent, one 0/1 column per option
+//   <outBase>.ndjson          the same rows as JSON objects
+//   <outBase>.questions.json  what each `q<i>.o<j>` column stands for
+//   <outBase>.progress.json   resume point; removed when the export completes
+
+import * as fs from "fs";
+import * as path from "path";
+import { Interface } from "ethers";
+import { SURVEY_ABI } from "../abi";
+import type { ChainSource } from "../indexer/chain-source";
+import { decodeSurveyLog } from "../indexer/pipeline";
+import type { ViewCall } from "./results";
+
+const surveyIface = new Interface(SURVEY_ABI);
+
+export type ExportQuestion = {
+  index: number;
+  text: string;
+  selectionType: number;
+  options: string[];
+};
+
+export type Respondent = { address: string; block?: number };
+
+export type ExportOptions = {
+  survey: string;
+  chainId: number;
+  outBase: string;
+  /** only respondents whose `Voted` event lies in [fromBlock, toBlock] */
+  fromBlock?: number;
+  toBlock?: number;
+  /** eth_calls issued together; ethers sends them as one JSON-RPC batch */
+  batchSize?: number;
+  /** blocks per getLogs window when filtering by block range */
+  logWindow?: number;
+  signal?: AbortSignal;
+};
+
+export type ExportResult = {
+  rows: number;
+  /** false when stopped by `signal`; run again to resume */
+  done: boolean;
+  resumed: boolean;
+  files: { csv: string; ndjson: string; questions: string };
+};
+
+type Progress = {
+  survey: string;
+  chainId: number;
+  fromBlock: number | null;
+  toBlock: number | null;
+  /** respondents written so far */
+  next: number;
+  /** file sizes after the last complete batch */
+  csvBytes: number;
+  ndjsonBytes: number;
+};
+
+/** Runs `fn` over `items` in groups of `size`, each group concurrently. */
+export async function inBatches<T, R>(
+  items: T[],
+  size: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const out: R[] = [];
+  for (let i = 0; i < items.length; i += size) {
+    out.push(...(await Promise.all(items.slice(i, i + size).map(fn))));
+  }
+  return out;
+}
+
+function viewReader(call: ViewCall, survey: string) {
+  return async (fn: string, args: unknown[] = []) =>
+    surveyIface.decodeFunctionResult(
+      fn,
+      await call(survey, surveyIface.encodeFunctionData(fn, args))
+    );
+}
+
+export const columnKey = (q: number, o: number) => `q${q}.o${o}`;
+
+function csvCell(v: unknown) {
+  const s = v === undefined || v === null ? "" : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Voters with a `Voted` event in [from, to], in chain order. */
+export async function readVoters(
+  source: ChainSource,
+  survey: string,
+  from: number,
+  to: number,
+  window = 10_000
+): Promise<Respondent[]> {
+  const out: Respondent[] = [];
+  for (let f = from; f <= to; f += window) {
+    const t = Math.min(f + window - 1, to);
+    const { logs, failed } = await source.getLogs(survey, f, t);
+    if (failed) {
+      throw new Error(`getLogs failed for ${failed.from}-${failed.to}: ${failed.error}`);
+    }
+    for (const l of logs) {
+      const e = decodeSurveyLog(l, 0);
+      if (e?.t === "Voted") out.push({ address: e.voter, block: e.block });
+    }
+  }
+  return out;
+}
+
+/**
+ * Exports every respondent of `survey` (or those who voted inside the block
+ * range) with their selections. Progress is saved after each batch; a run
+ * with the same survey, chain and range resumes where the last one stopped.
+ */
+export async function exportRespondents(
+  source: ChainSource,
+  opts: ExportOptions
+): Promise<ExportResult> {
+  const survey = opts.survey.toLowerCase();
+  const batchSize = Math.max(1, opts.batchSize ?? 100);
+  const files = {
+    csv: `${opts.outBase}.csv`,
+    ndjson: `${opts.outBase}.ndjson`,
+    questions: `${opts.outBase}.questions.json`,
+  };
+  const progressFile = `${opts.outBase}.progress.json`;
+  const view = viewReader((to, data) => source.provider.call({ to, data }), survey);
+
+  const prev: Progress | null = fs.existsSync(progressFile)
+    ? JSON.parse(fs.readFileSync(progressFile, "utf8"))
+    : null;
+  const ranged = opts.fromBlock !== undefined || opts.toBlock !== undefined;
+  const fromBlock = ranged ? opts.fromBlock ?? 0 : null;
+  // an open-ended range keeps the head it started with, so a resumed run
+  // walks the same respondent list
+  const toBlock = ranged
+    ? opts.toBlock ?? (prev?.fromBlock === fromBlock ? prev?.toBlock : null) ?? (await source.head())
+    : null;
+
+  // -------- questions --------
+  const [count] = await view("getQuestionsCount");
+  const questions: ExportQuestion[] = await inBatches(
+    Array.from({ length: Number(count) }, (_, i) => i),
+    batchSize,
+    async (i) => {
+      const [text, options, selectionType] = await view("getQuestion", [i]);
+      return {
+        index: i,
+        text: String(text),
+        selectionType: Number(selectionType),
+        options: Array.from(options as string[], String),
+      };
+    }
+  );
+  const columns = questions.flatMap((q) => q.options.map((_, o) => columnKey(q.index, o)));
+  const header = ["index", "respondent", "block", ...columns];
+
+  // -------- respondents --------
+  // the block range needs the Voted events; otherwise the append-only
+  // `participants` array is read one batch at a time
+  const voters = ranged
+    ? await readVoters(source, survey, fromBlock!, toBlock!, opts.logWindow)
+    : null;
+  const total = voters ? voters.length : Number((await view("getParticipantsCount"))[0]);
+  const respondentsAt = async (start: number, n: number): Promise<Respondent[]> => {
+    const end = Math.min(start + n, total);
+    if (voters) return voters.slice(start, end);
+    return Promise.all(
+      Array.from({ length: end - start }, async (_, k) => ({
+        address: String((await view("participants", [start + k]))[0]).toLowerCase(),
+      }))
+    );
+  };
+
+  // -------- resume --------
+  let progress: Progress = {
+    survey,
+    chainId: opts.chainId,
+    fromBlock,
+    toBlock,
+    next: 0,
+    csvBytes: 0,
+    ndjsonBytes: 0,
+  };
+  let resumed = false;
+  if (prev) {
+    const same =
+      prev.survey === survey &&
+      prev.chainId === opts.chainId &&
+      prev.fromBlock === fromBlock &&
+      prev.toBlock === toBlock;
+    if (!same) {
+      throw new Error(
+        `${progressFile} belongs to a different export; delete it or choose another output`
+      );
+    }
+    progress = prev;
+    resumed = true;
+    // drop a batch that was written but not recorded
+    fs.truncateSync(files.csv, prev.csvBytes);
+    fs.truncateSync(files.ndjson, prev.ndjsonBytes);
+    console.log(`[Export] Resuming ${survey} at respondent ${prev.next}/${total}`);
+  } else {
+    fs.mkdirSync(path.dirname(path.resolve(opts.outBase)), { recursive: true });
+    fs.writeFileSync(files.questions, JSON.stringify({ survey, chainId: opts.chainId, questions }, null, 2));
+    fs.writeFileSync(files.csv, header.join(",") + "\n");
+    fs.writeFileSync(files.ndjson, "");
+  }
+  const saveProgress = () => {
+    progress.csvBytes = fs.statSync(files.csv).size;
+    progress.ndjsonBytes = fs.statSync(files.ndjson).size;
+    fs.writeFileSync(progressFile, JSON.stringify(progress, null, 2));
+  };
+  saveProgress();
+
+  // -------- rows --------
+  const perBatch = Math.max(1, Math.floor(batchSize / Math.max(questions.length, 1)));
+  while (progress.next < total) {
+    if (opts.signal?.aborted) {
+      console.log(`[Export] Stopped at ${progress.next}/${total}; run again to resume`);
+      return { rows: progress.next, done: false, resumed, files };
+    }
+    const start = progress.next;
+    const slice = await respondentsAt(start, perBatch);
+    const answers = await Promise.all(
+      slice.map((r) =>
+        Promise.all(
+          questions.map(async (q) => {
+            const [sel] = await view("getParticipantResponse", [r.address, q.index]);
+            return Array.from(sel as bigint[], Number);
+          })
+        )
+      )
+    );
+
+    let csv = "";
+    let ndjson = "";
+    slice.forEach((r, k) => {
+      const row: Record<string, string | number | null> = {
+        index: start + k,
+        respondent: r.address,
+        block: r.block ?? null,
+      };
+      for (const q of questions) {
+        const picked = new Set(answers[k][q.index]);
+        q.options.forEach((_, o) => (row[columnKey(q.index, o)] = picked.has(o) ? 1 : 0));
+      }
+      csv += header.map((c) => csvCell(row[c])).join(",") + "\n";
+      ndjson += JSON.stringify(row) + "\n";
+    });
+    fs.appendFileSync(files.csv, csv);
+    fs.appendFileSync(files.ndjson, ndjson);
+    progress.next = start + slice.length;
+    saveProgress();
+  }
+
+  fs.rmSync(progressFile, { force: true });
+  console.log(`[Export] ${survey}: ${total} respondent(s) → ${files.csv}`);
+  return { rows: total, done: true, resumed, files };
+}
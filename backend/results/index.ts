@@ -0,0 +1,3 @@
+// backend/results/index.ts
+export * from "./results";
+export * from "./export";
@@ -0,0 +1,119 @@
+// backend/results/results.ts
+// The results document a creator anchors with `Survey.finalize`:
+//
+//   resultsHash = keccak256(canonicalize(results))
+//
+// where `results` is built from the survey's view functions once voting has
+// ended. Counts are decimal strings (they are uint256 on-chain), addresses
+// lowercase, questions and options in contract order.
+
+import { Interface } from "ethers";
+import { SURVEY_ABI } from "../abi";
+import { canonicalHash } from "../indexer/util";
+
+export const RESULTS_VERSION = 1;
+
+export interface ResultsOption {
+  index: number;
+  text: string;
+  votes: string;
+}
+
+export interface ResultsQuestion {
+  index: number;
+  text: string;
+  /** Survey.SelectionType: 0 = single, 1 = multiple */
+  selectionType: number;
+  options: ResultsOption[];
+}
+
+export interface SurveyResults {
+  version: typeof RESULTS_VERSION;
+  chainId: number;
+  survey: string;
+  participants: string;
+  questions: ResultsQuestion[];
+}
+
+export type RawQuestion = {
+  text: string;
+  options: string[];
+  selectionType: number | bigint;
+  votes: (number | bigint | string)[];
+};
+
+export function buildResults(input: {
+  chainId: number;
+  survey: string;
+  participants: number | bigint | string;
+  questions: RawQuestion[];
+}): SurveyResults {
+  return {
+    version: RESULTS_VERSION,
+    chainId: Number(input.chainId),
+    survey: input.survey.toLowerCase(),
+    participants: BigInt(input.participants).toString(),
+    questions: input.questions.map((q, index) => {
+      if (q.votes.length !== q.options.length) {
+        throw new Error(
+          `question ${index}: ${q.votes.length} vote counts for ${q.options.length} options`
+        );
+      }
+      return {
+        index,
+        text: q.text,
+        selectionType: Number(q.selectionType),
+        options: q.options.map((text, i) => ({
+          index: i,
+          text,
+          votes: BigInt(q.votes[i]).toString(),
+        })),
+      };
+    }),
+  };
+}
+
+/** The value to pass as `_resultsHash` to `Survey.finalize`. */
+export const resultsHash = (results: SurveyResults) => canonicalHash(results);
+
+/** eth_call against a contract; returns the raw result data. */
+export type ViewCall = (to: string, data: string) => Promise<string>;
+
+const surveyIface = new Interface(SURVEY_ABI);
+
+/** Tallies a survey from `getQuestionsCount`/`getQuestion`/`getVotes`. */
+export async function readSurveyResults(
+  call: ViewCall,
+  survey: string,
+  chainId: number
+): Promise<SurveyResults> {
+  const view = async (fn: string, args: unknown[] = []) =>
+    surveyIface.decodeFunctionResult(
+      fn,
+      await call(survey, surveyIface.encodeFunctionData(fn, args))
+    );
+
+  const [count] = await view("getQuestionsCount");
+  const [participants] = await view("getParticipantsCount");
+  const questions: RawQuestion[] = [];
+  for (let i = 0; i < Number(count); i++) {
+    const [text, options, selectionType] = await view("getQuestion", [i]);
+    const [votes] = await view("getVotes", [i]);
+    questions.push({
+      text: String(text),
+      options: Array.from(options as string[], String),
+      selectionType,
+      votes: Array.from(votes as bigint[]),
+    });
+  }
+  return buildResults({ chainId, survey, participants, questions });
+}
+
+export type ResultsCheck = { verified: boolean; expected: string; computed: string };
+
+/** Compares the tally with the `resultsHash` anchored by `Finalized`. */
+export function checkResults(results: SurveyResults, anchored: string): ResultsCheck {
+  const computed = resultsHash(results).toLowerCase();
+  const expected = String(anchored || "").toLowerCase();
+  return { verified: computed === expected, expected, computed };
+}
@@ -0,0 +1,240 @@
+// backend/sdk/client.ts
+// Typed client for creating and running surveys with any ethers v6 signer:
+// meta hashing as the indexer does it, factory deployment, question setup,
+// voting, finalization with a results hash, and the prize pool.
+
+import {
+  Contract,
+  parseEther,
+  ZeroHash,
+  type ContractTransactionReceipt,
+  type ContractTransactionResponse,
+  type Signer,
+} from "ethers";
+import { decodeFactoryEvent, SURVEY_ABI, SURVEY_FACTORY_ABI } from "../abi";
+import { validateMeta, type MetaQuestion, type SurveyMeta } from "../indexer/meta-schema";
+import { canonicalHash } from "../indexer/util";
+import { createWorkerClient, type WorkerClient } from "../indexer/worker-sink";
+import { readSurveyResults, resultsHash, type SurveyResults } from "../results/results";
+import { attest } from "../zkpass/attest";
+import type { Proof } from "../zkpass/proof";
+
+export const SurveyType = { MULTIPLE_CHOICE: 0, BINARY_VOTE: 1 } as const;
+export const SelectionType = { SINGLE: 0, MULTIPLE: 1 } as const;
+
+export type DScopeClientOptions = {
+  /** any ethers v6 signer connected to a provider */
+  signer: Signer;
+  /** SurveyFactory address (see registry/<network>.json) */
+  factory: string;
+  /** where `createSurvey` uploads meta; a client or `{ apiBase, adminToken }` */
+  worker?: WorkerClient | { apiBase: string; adminToken: string };
+  /** addQuestion transactions in flight at once */
+  questionBatch?: number;
+};
+
+export type CreateSurveyInput = {
+  meta: SurveyMeta;
+  /** unix seconds; questions are added before it, so it must be ahead */
+  startTime: number;
+  endTime: number;
+  surveyType?: number;
+  /** wei; defaults to meta.plannedReward, which the indexer checks it against */
+  plannedReward?: bigint;
+  /** wei sent along as the initial prize pool */
+  value?: bigint;
+  /** ZkPassEligibilityGate address; the survey then only takes voteWithGate */
+  gate?: string;
+  /** defaults to meta.questions */
+  questions?: MetaQuestion[];
+  /** upload meta to the worker (default: when a worker is configured) */
+  uploadMeta?: boolean;
+};
+
+export type CreatedSurvey = {
+  address: string;
+  metaHash: string;
+  receipt: ContractTransactionReceipt;
+  questionReceipts: ContractTransactionReceipt[];
+  metaUploaded: boolean;
+};
+
+export type FinalizeInput = {
+  rulesHash?: string;
+  /** both unix seconds; together they select the 4-argument finalize */
+  claimOpenAt?: number;
+  claimDeadline?: number;
+};
+
+export type FinalizedSurvey = {
+  results: SurveyResults;
+  resultsHash: string;
+  receipt: ContractTransactionReceipt;
+};
+
+/** The `metaHash` a survey anchors for `meta`; throws on an invalid document. */
+export function metaHashOf(meta: SurveyMeta) {
+  const issues = validateMeta(meta);
+  if (issues.length) {
+    throw new Error(
+      "Invalid survey meta: " +
+        issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join("; ")
+    );
+  }
+  return canonicalHash(meta);
+}
+
+async function mined(tx: ContractTransactionResponse | Promise<ContractTransactionResponse>) {
+  const receipt = await (await tx).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+}
+
+export function createDScopeClient(opts: DScopeClientOptions) {
+  const { signer } = opts;
+  if (!signer.provider) throw new Error("DScopeClient needs a signer connected to a provider");
+  const provider = signer.provider;
+  const worker =
+    opts.worker && "putMeta" in opts.worker
+      ? opts.worker
+      : opts.worker
+      ? createWorkerClient(opts.worker.apiBase, opts.worker.adminToken)
+      : null;
+  const batch = Math.max(1, opts.questionBatch ?? 8);
+  const factory = new Contract(opts.factory, SURVEY_FACTORY_ABI, signer);
+  const survey = (address: string) => new Contract(address, SURVEY_ABI, signer);
+
+  const chainId = async () => Number((await provider.getNetwork()).chainId);
+  const now = async () => (await provider.getBlock("latest"))!.timestamp;
+
+  /**
+   * Sends addQuestion for each question, one send after the other so the
+   * signer assigns the nonces, and waits for the receipts `batch` at a time.
+   */
+  async function addQuestions(address: string, questions: MetaQuestion[]) {
+    const s = survey(address);
+    const receipts: ContractTransactionReceipt[] = [];
+    for (let i = 0; i < questions.length; i += batch) {
+      const sent: ContractTransactionResponse[] = [];
+      for (const q of questions.slice(i, i + batch)) {
+        sent.push(
+          await s.getFunction("addQuestion")(
+            q.text,
+            q.options || [],
+            q.selectionType ?? SelectionType.SINGLE
+          )
+        );
+      }
+      receipts.push(...(await Promise.all(sent.map(mined))));
+    }
+    return receipts;
+  }
+
+  /** Tallies the survey through its view functions. */
+  async function readResults(address: string) {
+    const call = (to: string, data: string) => provider.call({ to, data });
+    return readSurveyResults(call, address, await chainId());
+  }
+
+  return {
+    signer,
+    chainId,
+    metaHashOf,
+
+    /**
+     * Deploys a survey through the factory, uploads its meta and adds its
+     * questions; resolves once every transaction is mined.
+     */
+    async createSurvey(input: CreateSurveyInput): Promise<CreatedSurvey> {
+      const metaHash = metaHashOf(input.meta);
+      const questions = input.questions ?? input.meta.questions ?? [];
+      questions.forEach((q, i) => {
+        if (!q.options?.length) throw new Error(`Question ${i} has no options`);
+      });
+      if (input.startTime >= input.endTime) throw new Error("startTime must be before endTime");
+      if (questions.length && input.startTime <= (await now())) {
+        throw new Error("startTime has passed; questions can only be added before it");
+      }
+      const plannedReward =
+        input.plannedReward ?? parseEther(String(input.meta.plannedReward ?? "0"));
+      const args = [
+        input.surveyType ?? SurveyType.MULTIPLE_CHOICE,
+        input.startTime,
+        input.endTime,
+        metaHash,
+        plannedReward,
+      ];
+      const overrides = { value: input.value ?? 0n };
+      const receipt = await mined(
+        input.gate
+          ? factory.getFunction("createSurveyWithGate")(...args, input.gate, overrides)
+          : factory.getFunction("createSurvey")(...args, overrides)
+      );
+      const deployed = receipt.logs
+        .map((l) => decodeFactoryEvent(l))
+        .find((e) => e?.name === "SurveyDeployed");
+      if (!deployed) throw new Error(`No SurveyDeployed event in ${receipt.hash}`);
+      const address = deployed.args.survey.toLowerCase();
+
+      const upload = input.uploadMeta ?? !!worker;
+      if (upload) {
+        if (!worker) throw new Error("uploadMeta needs a worker");
+        await worker.putMeta(await chainId(), address, input.meta);
+      }
+      const questionReceipts = await addQuestions(address, questions);
+      return { address, metaHash, receipt, questionReceipts, metaUploaded: upload };
+    },
+
+    addQuestions,
+
+    /** One list of option indexes per question, in question order. */
+    vote: (address: string, selections: number[][]) =>
+      mined(survey(address).getFunction("vote")(selections)),
+
+    /** Attests the signer for `survey` at `gate`; see ../zkpass for building the proof. */
+    attest: (gate: string, proof: Proof, survey: string) => attest(signer, gate, proof, survey),
+
+    /** Vote on a gated survey; the signer must be attested by its gate. */
+    voteWithGate: (address: string, selections: number[][]) =>
+      mined(survey(address).getFunction("voteWithGate")(selections)),
+
+    readResults,
+
+    /**
+     * Tallies the ended survey and anchors the hash of that tally (what the
+     * indexer verifies against); with a claim window it uses the 4-argument
+     * finalize.
+     */
+    async finalize(address: string, input: FinalizeInput = {}): Promise<FinalizedSurvey> {
+      const results = await readResults(address);
+      const hash = resultsHash(results);
+      const rules = input.rulesHash ?? ZeroHash;
+      const s = survey(address);
+      const windowed = input.claimOpenAt !== undefined || input.claimDeadline !== undefined;
+      const receipt = await mined(
+        windowed
+          ? s.getFunction("finalize(bytes32,bytes32,uint64,uint64)")(
+              rules,
+              hash,
+              input.claimOpenAt ?? 0,
+              input.claimDeadline ?? 0
+            )
+          : s.getFunction("finalize(bytes32,bytes32)")(rules, hash)
+      );
+      return { results, resultsHash: hash, receipt };
+    },
+
+    fundPrize: (address: string, amount: bigint) =>
+      mined(survey(address).getFunction("fundPrize")({ value: amount })),
+
+    /** Sends the whole pool of a finalized survey to `to` (default: the signer). */
+    async sweepPrize(address: string, to?: string) {
+      return mined(survey(address).getFunction("sweepPrize")(to ?? (await signer.getAddress())));
+    },
+
+    prizeBalance: (address: string): Promise<bigint> =>
+      survey(address).getFunction("prizeBalance")(),
+  };
+}
+
+export type DScopeClient = ReturnType<typeof createDScopeClient>;
@@ -0,0 +1,2 @@
+// backend/sdk/index.ts
+export * from "./client";
@@ -0,0 +1,123 @@
+// backend/worker/app.ts
+// Local stand-in for the D-Scope Worker: the routes the indexer and the
+// frontend use, the same Bearer ADMIN_TOKEN check, data kept on disk.
+import * as http from "http";
+import { timingSafeEqual } from "crypto";
+import type { AddressInfo } from "net";
+import express, { type NextFunction, type Request, type Response } from "express";
+import cors from "cors";
+import bodyParser from "body-parser";
+import { createDiskStore, type WorkerStore } from "./store";
+
+const ADDR_RE = /^0x[0-9a-fA-F]{40}$/;
+
+function bearerMatches(header: string | undefined, token: string) {
+  const m = /^Bearer\s+(.+)$/i.exec(header || "");
+  if (!m) return false;
+  const a = Buffer.from(m[1].trim());
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function createWorkerApp(store: WorkerStore, adminToken: string) {
+  if (!adminToken) throw new Error("ADMIN_TOKEN is required");
+
+  const app = express();
+  app.use(cors());
+  app.use(bodyParser.json({ limit: "5mb" }));
+
+  // ---------- Public ----------
+  app.get("/surveys.list.json", (_req, res) => {
+    res.json(store.getList().list);
+  });
+
+  app.get("/meta/:chainId/:file", (req, res) => {
+    const chainId = Number(req.params.chainId);
+    const survey = String(req.params.file).replace(/\.json$/, "");
+    if (!Number.isInteger(chainId) || !ADDR_RE.test(survey)) {
+      return void res.status(400).json({ error: "bad chainId or address" });
+    }
+    const meta = store.getMeta(chainId, survey);
+    if (meta === null) return void res.status(404).json({ error: "not found" });
+    res.json(meta);
+  });
+
+  // ---------- Admin ----------
+  const admin = express.Router();
+  admin.use((req, res, next) => {
+    if (!bearerMatches(req.headers.authorization, adminToken)) {
+      return void res.status(401).json({ error: "unauthorized" });
+    }
+    next();
+  });
+
+  admin.post("/meta.put", (req, res) => {
+    const { chainId, survey, meta } = req.body || {};
+    if (!Number.isInteger(Number(chainId)) || !ADDR_RE.test(String(survey))) {
+      return void res.status(400).json({ error: "bad chainId or survey" });
+    }
+    if (!meta || typeof meta !== "object") {
+      return void res.status(400).json({ error: "meta must be an object" });
+    }
+    store.putMeta(Number(chainId), String(survey), meta);
+    res.json({ ok: true });
+  });
+
+  admin.post("/list.upsert", (req, res) => {
+    const card = req.body;
+    if (!card || !ADDR_RE.test(String(card.address)) || !card.chainId) {
+      return void res.status(400).json({ error: "bad card" });
+    }
+    const expected = req.headers["x-list-version"];
+    const current = store.getList().version;
+    if (expected !== undefined && Number(expected) !== current) {
+      return void res
+        .status(409)
+        .json({ error: "list version mismatch", version: current });
+    }
+    res.json({ ok: true, version: store.upsertCard(card).version });
+  });
+
+  admin.post("/list.replace", (req, res) => {
+    if (!Array.isArray(req.body)) {
+      return void res.status(400).json({ error: "list must be an array" });
+    }
+    res.json({ ok: true, version: store.replaceList(req.body).version });
+  });
+
+  app.use("/admin", admin);
+
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err?.status || 500).json({ error: String(err?.message || err) });
+  });
+  return app;
+}
+
+export type LocalWorker = { url: string; server: http.Server; close(): Promise<void> };
+
+/** Starts the local Worker; port 0 picks a free one. */
+export function startLocalWorker(opts: {
+  dataDir: string;
+  adminToken: string;
+  port?: number;
+  host?: string;
+}): Promise<LocalWorker> {
+  const app = createWorkerApp(createDiskStore(opts.dataDir), opts.adminToken);
+  const host = opts.host ?? "127.0.0.1";
+  return new Promise((resolve, reject) => {
+    const server = app.listen(opts.port ?? 8788, host, (err?: Error) => {
+      if (err) return reject(err);
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${host}:${port}`,
+        server,
+        close: () =>
+          new Promise<void>((r) => {
+            server.closeAllConnections();
+            server.close(() => r());
+          }),
+      });
+    });
+    server.once("error", reject);
+  });
+}
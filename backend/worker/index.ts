@@ -0,0 +1,3 @@
+// backend/worker/index.ts
+export * from "./store";
+export * from "./app";
@@ -0,0 +1,69 @@
+// backend/worker/store.ts
+// On-disk storage of the local Worker: the survey list with a version
+// counter and one meta document per survey.
+import * as fs from "fs";
+import * as path from "path";
+import type { SurveyCard } from "../indexer/types";
+
+export type ListDoc = { version: number; list: SurveyCard[]; updatedAt: number };
+
+export interface WorkerStore {
+  getList(): ListDoc;
+  replaceList(list: SurveyCard[]): ListDoc;
+  upsertCard(card: SurveyCard): ListDoc;
+  getMeta(chainId: number, survey: string): unknown | null;
+  putMeta(chainId: number, survey: string, meta: unknown): void;
+}
+
+function readJSON<T>(p: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(p, "utf8"));
+  } catch {
+    return fallback;
+  }
+}
+
+/** tmp + rename, so a crash never leaves a half-written file behind */
+function writeJSONAtomic(p: string, v: unknown) {
+  fs.mkdirSync(path.dirname(p), { recursive: true });
+  const tmp = `${p}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(v, null, 2));
+  fs.renameSync(tmp, p);
+}
+
+const sameCard = (a: SurveyCard, b: SurveyCard) =>
+  a.chainId === b.chainId &&
+  a.address.toLowerCase() === b.address.toLowerCase();
+
+export function createDiskStore(dataDir: string): WorkerStore {
+  const LIST = path.join(dataDir, "surveys.list.json");
+  const metaFile = (chainId: number, survey: string) =>
+    path.join(dataDir, "meta", String(chainId), `${survey.toLowerCase()}.json`);
+
+  const getList = (): ListDoc =>
+    readJSON(LIST, { version: 0, list: [], updatedAt: 0 });
+  const save = (list: SurveyCard[], prev: ListDoc): ListDoc => {
+    const doc = {
+      version: prev.version + 1,
+      list,
+      updatedAt: Math.floor(Date.now() / 1000),
+    };
+    writeJSONAtomic(LIST, doc);
+    return doc;
+  };
+
+  return {
+    getList,
+    replaceList: (list) => save(list, getList()),
+    upsertCard(card) {
+      const prev = getList();
+      return save(
+        prev.list.filter((c) => !sameCard(c, card)).concat(card),
+        prev
+      );
+    },
+    getMeta: (chainId, survey) => readJSON(metaFile(chainId, survey), null),
+    putMeta: (chainId, survey, meta) =>
+      writeJSONAtomic(metaFile(chainId, survey), meta),
+  };
+}
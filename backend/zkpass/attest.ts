@@ -0,0 +1,37 @@
+// backend/zkpass/attest.ts
+// ZkPassEligibilityGate.attest with the gate's checks run first, so a bad
+// proof fails with a reason before it costs gas.
+
+import { Contract, type ContractTransactionReceipt, type Signer } from "ethers";
+import { ELIGIBILITY_GATE_ABI } from "../abi";
+import { checkProof, type Proof } from "./proof";
+
+/** The gate's own allocator: `defaultAllocator()` is a storage slot, not a constant. */
+export async function gateAllocator(signer: Signer, gate: string): Promise<string> {
+  return new Contract(gate, ELIGIBILITY_GATE_ABI, signer).getFunction("defaultAllocator")();
+}
+
+/**
+ * Checks `proof` against the gate's allocator with the signer as caller,
+ * then attests it for `survey`. Throws with the reason (and what the gate
+ * would revert with) instead of sending a transaction that would revert;
+ * checkProof gives the same issues as data.
+ */
+export async function attest(
+  signer: Signer,
+  gate: string,
+  proof: Proof,
+  survey: string
+): Promise<ContractTransactionReceipt> {
+  const caller = await signer.getAddress();
+  const issues = checkProof(proof, { allocator: await gateAllocator(signer, gate), caller });
+  if (issues.length) {
+    throw new Error(
+      `Gate would revert with "${issues[0].revert}": ` + issues.map((i) => i.message).join("; ")
+    );
+  }
+  const g = new Contract(gate, ELIGIBILITY_GATE_ABI, signer);
+  const receipt = await (await g.getFunction("attest")(proof, survey)).wait();
+  if (!receipt) throw new Error("Transaction was dropped");
+  return receipt;
+}
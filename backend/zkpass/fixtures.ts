@@ -0,0 +1,69 @@
+// backend/zkpass/fixtures.ts
+// Proofs signed with local keys, for tests and local chains. A gate only
+// accepts them once its defaultAllocator (storage slot 0) is the local
+// allocator; see test/contracts/fixtures.ts.
+
+import { getBytes, keccak256, toUtf8Bytes, Wallet, ZeroHash, type HDNodeWallet } from "ethers";
+import { allocatorHash, validatorHash, type Proof, type ZkPassResult } from "./proof";
+
+type LocalKey = Wallet | HDNodeWallet;
+
+export type ProofFields = {
+  uHash: string;
+  recipient: string;
+  taskId?: string;
+  schemaId?: string;
+  publicFieldsHash?: string;
+};
+
+/** Signs a proof the way ProofVerifier checks it (EIP-191 over abi.encode). */
+export async function signProof(
+  allocator: LocalKey,
+  validator: LocalKey,
+  fields: ProofFields
+): Promise<Proof> {
+  const p = {
+    taskId: fields.taskId ?? keccak256(toUtf8Bytes("task")),
+    schemaId: fields.schemaId ?? keccak256(toUtf8Bytes("schema")),
+    uHash: fields.uHash,
+    recipient: fields.recipient,
+    publicFieldsHash: fields.publicFieldsHash ?? ZeroHash,
+    validator: validator.address,
+  };
+  return {
+    ...p,
+    allocatorSignature: await allocator.signMessage(getBytes(allocatorHash(p))),
+    validatorSignature: await validator.signMessage(getBytes(validatorHash(p))),
+  };
+}
+
+/**
+ * A local allocator/validator pair (random unless given) that signs proofs,
+ * as `Proof` structs or in the shape the TransGate SDK returns them.
+ */
+export function createProofFixtures(keys: { allocator?: LocalKey; validator?: LocalKey } = {}) {
+  const allocator = keys.allocator ?? Wallet.createRandom();
+  const validator = keys.validator ?? Wallet.createRandom();
+  return {
+    allocator,
+    validator,
+    sign: (fields: ProofFields) => signProof(allocator, validator, fields),
+
+    /** What TransGate resolves with for `fields`; feed it to toProof. */
+    async sdkResult(fields: ProofFields): Promise<ZkPassResult> {
+      const p = await signProof(allocator, validator, fields);
+      return {
+        taskId: p.taskId,
+        uHash: p.uHash,
+        publicFieldsHash: p.publicFieldsHash,
+        validatorAddress: p.validator,
+        allocatorSignature: p.allocatorSignature,
+        validatorSignature: p.validatorSignature,
+        recipient: p.recipient,
+        allocatorAddress: allocator.address,
+      };
+    },
+  };
+}
+
+export type ProofFixtures = ReturnType<typeof createProofFixtures>;
@@ -0,0 +1,4 @@
+// backend/zkpass/index.ts
+export * from "./proof";
+export * from "./attest";
+export * from "./fixtures";
@@ -0,0 +1,219 @@
+// backend/zkpass/proof.ts
+// The zkPass `Proof` struct of contracts/Common.sol and an off-chain copy of
+// ProofVerifier: same encoding, same personal-sign prefix, same s/v checks,
+// but it says which check failed instead of "Invalid proof".
+
+import {
+  AbiCoder,
+  getAddress,
+  getBytes,
+  hashMessage,
+  hexlify,
+  isAddress,
+  isHexString,
+  keccak256,
+  recoverAddress,
+  toUtf8Bytes,
+  zeroPadBytes,
+  ZeroAddress,
+} from "ethers";
+
+/** `ProofVerifier.defaultAllocator`, zkPass' allocator key. */
+export const DEFAULT_ALLOCATOR = "0x19a567b3b212a5b35bA0E3B600FbEd5c2eE9083d";
+
+/** Largest `s` recoverSigner accepts (secp256k1 n / 2). */
+export const MAX_S = 0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0n;
+
+export type Proof = {
+  taskId: string;
+  schemaId: string;
+  uHash: string;
+  recipient: string;
+  publicFieldsHash: string;
+  validator: string;
+  allocatorSignature: string;
+  validatorSignature: string;
+};
+
+/** What the zkPass TransGate SDK resolves with (fields this module reads). */
+export type ZkPassResult = {
+  taskId: string;
+  uHash: string;
+  publicFieldsHash: string;
+  validatorAddress: string;
+  allocatorSignature: string;
+  validatorSignature: string;
+  recipient?: string;
+  allocatorAddress?: string;
+};
+
+export type ProofIssueCode =
+  | "recipient"
+  | "signature_length"
+  | "signature_s"
+  | "signature_v"
+  | "invalid_signer"
+  | "wrong_allocator"
+  | "wrong_validator";
+
+/** One failed check; `revert` is what `attest` reverts with because of it. */
+export type ProofIssue = {
+  code: ProofIssueCode;
+  check: "recipient" | "allocator" | "validator";
+  message: string;
+  revert: string;
+  expected?: string;
+  actual?: string;
+};
+
+const coder = AbiCoder.defaultAbiCoder();
+
+/**
+ * A bytes32 field: 0x-prefixed 32-byte hex is taken as is, anything else
+ * as UTF-8 right-padded to 32 bytes (the SDK's taskId and schemaId are
+ * 32-character strings, which is what `stringToHex` sends on-chain).
+ */
+export function toBytes32(value: string, field = "value") {
+  if (isHexString(value, 32)) return value.toLowerCase();
+  const bytes = toUtf8Bytes(value);
+  if (bytes.length > 32) throw new Error(`${field} does not fit in bytes32: ${value}`);
+  return zeroPadBytes(bytes, 32);
+}
+
+/**
+ * Converts TransGate output into the `Proof` struct `attest` takes.
+ * `recipient` defaults to the result's and must be the wallet that attests.
+ */
+export function toProof(
+  result: ZkPassResult,
+  opts: { schemaId: string; recipient?: string }
+): Proof {
+  const recipient = opts.recipient ?? result.recipient;
+  if (!recipient || !isAddress(recipient)) {
+    throw new Error(`Proof recipient is not an address: ${recipient}`);
+  }
+  if (!isAddress(result.validatorAddress)) {
+    throw new Error(`Proof validator is not an address: ${result.validatorAddress}`);
+  }
+  return {
+    taskId: toBytes32(result.taskId, "taskId"),
+    schemaId: toBytes32(opts.schemaId, "schemaId"),
+    uHash: toBytes32(result.uHash, "uHash"),
+    recipient: getAddress(recipient),
+    publicFieldsHash: toBytes32(result.publicFieldsHash, "publicFieldsHash"),
+    validator: getAddress(result.validatorAddress),
+    allocatorSignature: hexlify(result.allocatorSignature),
+    validatorSignature: hexlify(result.validatorSignature),
+  };
+}
+
+/** keccak256(abi.encode(taskId, schemaId, validator)), before the prefix. */
+export function allocatorHash(p: Pick<Proof, "taskId" | "schemaId" | "validator">) {
+  return keccak256(
+    coder.encode(["bytes32", "bytes32", "address"], [p.taskId, p.schemaId, p.validator])
+  );
+}
+
+/**
+ * keccak256(abi.encode(taskId, schemaId, uHash, publicFieldsHash, recipient)),
+ * before the prefix. Note the order differs from the struct's.
+ */
+export function validatorHash(
+  p: Pick<Proof, "taskId" | "schemaId" | "uHash" | "publicFieldsHash" | "recipient">
+) {
+  return keccak256(
+    coder.encode(
+      ["bytes32", "bytes32", "bytes32", "bytes32", "address"],
+      [p.taskId, p.schemaId, p.uHash, p.publicFieldsHash, p.recipient]
+    )
+  );
+}
+
+type Recovered =
+  | { signer: string }
+  | { code: Exclude<ProofIssueCode, "recipient" | "wrong_allocator" | "wrong_validator">; revert: string };
+
+/** ProofVerifier.recoverSigner over prefixed(hash), including its reverts. */
+export function recoverSigner(hash: string, signature: string): Recovered {
+  const sig = getBytes(signature);
+  if (sig.length !== 65) return { code: "signature_length", revert: "Invalid signature length" };
+  const r = hexlify(sig.subarray(0, 32));
+  const s = hexlify(sig.subarray(32, 64));
+  const v = sig[64];
+  if (BigInt(s) > MAX_S) {
+    return {
+      code: "signature_s",
+      revert: "SignatureValidator#recoverSigner: invalid signature 's' value",
+    };
+  }
+  if (v !== 27 && v !== 28) {
+    return {
+      code: "signature_v",
+      revert: "SignatureValidator#recoverSigner: invalid signature 'v' value",
+    };
+  }
+  let signer = ZeroAddress;
+  try {
+    signer = recoverAddress(hashMessage(getBytes(hash)), { r, s, v });
+  } catch {
+    // ecrecover returns 0x0 where ethers throws
+  }
+  if (signer === ZeroAddress) {
+    return { code: "invalid_signer", revert: "SignatureValidator#recoverSigner: INVALID_SIGNER" };
+  }
+  return { signer };
+}
+
+/**
+ * Runs the checks of `attest` off-chain, in the order the gate does:
+ * recipient (when `caller` is given), allocator signature, validator
+ * signature. Every failing check is reported, so the first issue carries
+ * the reason `attest` reverts with. Empty when the proof is accepted.
+ */
+export function checkProof(
+  proof: Proof,
+  opts: { allocator?: string; caller?: string } = {}
+): ProofIssue[] {
+  const issues: ProofIssue[] = [];
+  const allocator = getAddress(opts.allocator ?? DEFAULT_ALLOCATOR);
+
+  if (opts.caller && getAddress(opts.caller) !== getAddress(proof.recipient)) {
+    issues.push({
+      code: "recipient",
+      check: "recipient",
+      message: `proof is made out to ${proof.recipient}, not the caller ${opts.caller}`,
+      revert: "Recipient must be caller",
+      expected: getAddress(opts.caller),
+      actual: getAddress(proof.recipient),
+    });
+  }
+
+  const signed = (
+    check: "allocator" | "validator",
+    hash: string,
+    signature: string,
+    expected: string
+  ) => {
+    const rec = recoverSigner(hash, signature);
+    if ("code" in rec) {
+      issues.push({
+        code: rec.code,
+        check,
+        message: `${check}Signature: ${rec.revert}`,
+        revert: rec.revert,
+      });
+    } else if (rec.signer !== expected) {
+      issues.push({
+        code: check === "allocator" ? "wrong_allocator" : "wrong_validator",
+        check,
+        message: `${check}Signature is signed by ${rec.signer}, not the ${check} ${expected}`,
+        revert: "Invalid proof",
+        expected,
+        actual: rec.signer,
+      });
+    }
+  };
+  signed("allocator", allocatorHash(proof), proof.allocatorSignature, allocator);
+  signed("validator", validatorHash(proof), proof.validatorSignature, getAddress(proof.validator));
+  return issues;
+}
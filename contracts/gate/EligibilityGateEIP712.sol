@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {IEligibilityGate} from "./IEligibilityGate.sol";
+
+/**
+ * @notice Accepts Eligibility messages signed by an off-chain attester
+ * (backend/eligibility). Domain and type match the `eip712` block the
+ * indexer publishes in gates.json.
+ * @dev Stateless: the survey marks `nullifier` as used (see
+ * verify-factory's Survey.voteWithProof).
+ */
+contract EligibilityGateEIP712 is IEligibilityGate, EIP712 {
+    bytes32 public constant ELIGIBILITY_TYPEHASH =
+        keccak256("Eligibility(address user,address survey,bytes32 nullifier,uint256 deadline,uint256 chainId)");
+
+    address public owner;
+    address public attester;
+
+    event AttesterChanged(address indexed previous, address indexed current);
+
+    constructor(address _attester) EIP712("DScopeEligibility", "1") {
+        require(_attester != address(0), "INVALID_ATTESTER");
+        owner = msg.sender;
+        attester = _attester;
+        emit AttesterChanged(address(0), _attester);
+    }
+
+    /// @notice Rotates the attester key; messages signed by the old key stop verifying.
+    function setAttester(address _attester) external {
+        require(msg.sender == owner, "NOT_OWNER");
+        require(_attester != address(0), "INVALID_ATTESTER");
+        emit AttesterChanged(attester, _attester);
+        attester = _attester;
+    }
+
+    /// @notice True when `sig` is the attester's signature over this message and it has not expired.
+    function verify(
+        address account,
+        address survey,
+        bytes32 nullifier,
+        uint256 deadline,
+        bytes calldata sig
+    ) external view returns (bool) {
+        if (block.timestamp > deadline) return false;
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(ELIGIBILITY_TYPEHASH, account, survey, nullifier, deadline, block.chainid))
+        );
+        (address signer, ECDSA.RecoverError err, ) = ECDSA.tryRecover(digest, sig);
+        return err == ECDSA.RecoverError.NoError && signer == attester;
+    }
+}
@@ -0,0 +1,126 @@
+// scripts/deploy.ts
+
+/**
+ * Deploys ZkPassEligibilityGate and SurveyFactory together, verifies both on
+ * the network's explorer and records them as the next version in
+ * registry/<network>.json, which the indexer reads its factories, start
+ * blocks and gates from.
+ *
+ *   hardhat run scripts/deploy.ts --network scrollSepolia
+ *
+ * Env: CONFIRMATIONS (default 2) blocks to wait before verifying,
+ * SKIP_VERIFY=1, REGISTRY_DIR (default registry/).
+ */
+
+import { execSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import hre from "hardhat";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  abiHash,
+  addVersion,
+  DeployedContract,
+  FACTORY_CONTRACT,
+  GATE_CONTRACT,
+  readRegistry,
+  registryFile,
+  writeRegistry,
+} from "../backend/registry";
+import { nowSec } from "../backend/indexer/util";
+
+export type DeployOptions = {
+  registryDir: string;
+  confirmations: number;
+  verify: boolean;
+  now?: number;
+};
+
+// development networks: no explorer to verify on
+const LOCAL_CHAINS = [31337, 1337];
+
+/** Submits `address` for verification; true when the explorer has the source. */
+export async function verifyContract(
+  h: HardhatRuntimeEnvironment,
+  address: string,
+  constructorArguments: unknown[] = []
+) {
+  try {
+    await h.run("verify:verify", { address, constructorArguments });
+    return true;
+  } catch (e) {
+    const msg = (e as Error).message || String(e);
+    if (/already verified/i.test(msg)) return true;
+    console.warn(`[Deploy] Verification of ${address} failed: ${msg}`);
+    return false;
+  }
+}
+
+function gitCommit() {
+  try {
+    return execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim();
+  } catch {
+    return undefined;
+  }
+}
+
+export async function deploySuite(h: HardhatRuntimeEnvironment, opts: DeployOptions) {
+  const [deployer] = await h.ethers.getSigners();
+  const chainId = Number((await h.ethers.provider.getNetwork()).chainId);
+  const network = h.network.name;
+  const file = registryFile(opts.registryDir, network);
+  const prev = fs.existsSync(file) ? readRegistry(file) : null;
+  const local = LOCAL_CHAINS.includes(chainId);
+  const verify = opts.verify && !local;
+  // an automining node never adds the blocks further confirmations wait for
+  const confirmations = local ? 1 : opts.confirmations;
+
+  const deploy = async (name: string): Promise<DeployedContract> => {
+    const contract = await h.ethers.deployContract(name, [], deployer);
+    const tx = contract.deploymentTransaction()!;
+    const receipt = (await tx.wait(confirmations))!;
+    const address = await contract.getAddress();
+    console.log(`[Deploy] ${name} at ${address} (block ${receipt.blockNumber})`);
+    return {
+      address,
+      block: receipt.blockNumber,
+      tx: tx.hash,
+      abiHash: abiHash((await h.artifacts.readArtifact(name)).abi),
+      verified: false,
+    };
+  };
+
+  const contracts: Record<string, DeployedContract> = {};
+  for (const name of [GATE_CONTRACT, FACTORY_CONTRACT]) {
+    contracts[name] = await deploy(name);
+  }
+  if (verify) {
+    for (const [name, c] of Object.entries(contracts)) {
+      c.verified = await verifyContract(h, c.address);
+      if (c.verified) console.log(`[Deploy] ${name} verified`);
+    }
+  }
+
+  const registry = addVersion(prev, network, chainId, {
+    deployedAt: opts.now ?? nowSec(),
+    deployer: deployer.address,
+    commit: gitCommit(),
+    contracts,
+  });
+  writeRegistry(file, registry);
+  console.log(`[Deploy] ${network} v${registry.current} recorded in ${file}`);
+  return registry;
+}
+
+if (require.main === module) {
+  deploySuite(hre, {
+    registryDir: path.resolve(process.env.REGISTRY_DIR || "registry"),
+    confirmations: Number(process.env.CONFIRMATIONS || 2),
+    verify: process.env.SKIP_VERIFY !== "1",
+  }).catch((e) => {
+    console.error("[Deploy] Fatal:", e);
+    process.exit(1);
+  });
+}
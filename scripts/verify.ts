@@ -0,0 +1,28 @@
+// scripts/verify.ts
+
+/**
+ * Retries explorer verification for the contracts of the current registry
+ * version that scripts/deploy.ts could not verify, and records the outcome.
+ *
+ *   hardhat run scripts/verify.ts --network scrollSepolia
+ */
+
+import * as path from "path";
+import hre from "hardhat";
+import { currentVersion, readRegistry, registryFile, writeRegistry } from "../backend/registry";
+import { verifyContract } from "./deploy";
+
+(async () => {
+  const file = registryFile(path.resolve(process.env.REGISTRY_DIR || "registry"), hre.network.name);
+  const registry = readRegistry(file);
+  const version = currentVersion(registry);
+  for (const [name, c] of Object.entries(version.contracts)) {
+    if (c.verified) continue;
+    c.verified = await verifyContract(hre, c.address);
+    console.log(`[Deploy] ${name} ${c.address}: ${c.verified ? "verified" : "still unverified"}`);
+  }
+  writeRegistry(file, registry);
+})().catch((e) => {
+  console.error("[Deploy] Fatal:", e);
+  process.exit(1);
+});
@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { buildCard, SurveyCard } from "../../backend/indexer";
+import { QueryApi, startQueryApi } from "../../backend/api";
+
+const A = "0x" + "a".repeat(40);
+const B = "0x" + "b".repeat(40);
+const C = "0x" + "c".repeat(40);
+const GATE = "0x" + "9".repeat(40);
+const ALICE = "0x" + "1".repeat(40);
+const BOB = "0x" + "2".repeat(40);
+
+function card(address: string, chainId: number, over: Partial<SurveyCard>) {
+  return { ...buildCard(address, {}, chainId, 0), ...over };
+}
+
+describe("query API", function () {
+  let outDir: string;
+  let api: QueryApi;
+
+  const writeJSON = (rel: string, v: unknown) => {
+    const p = path.join(outDir, rel);
+    fs.mkdirSync(path.dirname(p), { recursive: true });
+    fs.writeFileSync(p, JSON.stringify(v));
+  };
+  const get = async (p: string) => {
+    const res = await fetch(`${api.url}${p}`);
+    return { status: res.status, body: await res.json() };
+  };
+  const addrs = (items: SurveyCard[]) => items.map((c) => c.address);
+
+  before(async function () {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-api-"));
+    writeJSON("surveys.list.json", [
+      card(A, 534351, { creator: ALICE, createdSec: 100, endSec: 900, status: "active", metaValid: true }),
+      card(B, 534351, { creator: BOB, createdSec: 200, endSec: 300, status: "claim_open", gate: { addr: GATE, predicates: [] } }),
+      card(C, 1, { creator: ALICE, createdSec: 300, endSec: 600, status: "upcoming", metaValid: true }),
+    ]);
+    writeJSON("534351/surveys.json", { [A]: { creator: ALICE, participants: 1 } });
+    writeJSON("534351/balances.json", {});
+    fs.writeFileSync(
+      path.join(outDir, "534351", "ledger.ndjson"),
+      [
+        { t: "SurveyDeployed", survey: A, block: 10, ts: 1, tx: "0x1" },
+        { t: "Voted", survey: A, voter: BOB, block: 12, ts: 2, tx: "0x2" },
+        { t: "Voted", survey: B, voter: BOB, block: 13, ts: 3, tx: "0x3" },
+      ]
+        .map((e) => JSON.stringify(e) + "\n")
+        .join("")
+    );
+    fs.mkdirSync(path.join(outDir, "1"));
+    api = await startQueryApi({ outDir, port: 0 });
+  });
+
+  after(async function () {
+    await api.close();
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("Should filter by status, creator, chainId, gate and metaValid", async function () {
+    expect(addrs((await get("/surveys?status=active,past")).body.items)).to.have.members([A, B]);
+    expect(addrs((await get("/surveys?status=claim_open")).body.items)).to.deep.equal([B]);
+    expect(addrs((await get(`/surveys?creator=${ALICE}`)).body.items)).to.have.members([A, C]);
+    expect(addrs((await get("/surveys?chainId=1")).body.items)).to.deep.equal([C]);
+    expect(addrs((await get(`/surveys?gate=${GATE}`)).body.items)).to.deep.equal([B]);
+    expect(addrs((await get("/surveys?gate=none")).body.items)).to.have.members([A, C]);
+    expect(addrs((await get("/surveys?metaValid=false")).body.items)).to.deep.equal([B]);
+  });
+
+  it("Should sort and page with a cursor", async function () {
+    let res = await get("/surveys?sort=endSec&order=asc&limit=2");
+    expect(addrs(res.body.items)).to.deep.equal([B, C]);
+    expect(res.body.total).to.equal(3);
+
+    res = await get(`/surveys?sort=endSec&order=asc&limit=2&cursor=${res.body.nextCursor}`);
+    expect(addrs(res.body.items)).to.deep.equal([A]);
+    expect(res.body.nextCursor).to.equal(null);
+
+    res = await get("/surveys");
+    expect(addrs(res.body.items)).to.deep.equal([C, B, A]);
+  });
+
+  it("Should reject bad parameters with 400", async function () {
+    for (const q of ["status=open", "creator=bob", "sort=title", "limit=0", "cursor=zzz", "metaValid=yes"]) {
+      expect((await get(`/surveys?${q}`)).status, q).to.equal(400);
+    }
+  });
+
+  it("Should return a survey with its ledger history", async function () {
+    const { status, body } = await get(`/surveys/534351/${A}`);
+    expect(status).to.equal(200);
+    expect(body.card.address).to.equal(A);
+    expect(body.record.participants).to.equal(1);
+    expect(body.ledger.map((e: any) => e.t)).to.deep.equal(["SurveyDeployed", "Voted"]);
+
+    const votes = await get(`/surveys/534351/${A}/ledger?type=Voted`);
+    expect(votes.body.items).to.have.length(1);
+    expect((await get(`/surveys/1/${A}`)).status).to.equal(404);
+  });
+
+  it("Should pick up files the indexer rewrote", async function () {
+    writeJSON("surveys.list.json", [card(A, 534351, { status: "finalized" })]);
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(path.join(outDir, "surveys.list.json"), later, later);
+
+    const { body } = await get("/surveys");
+    expect(body.total).to.equal(1);
+    expect(body.items[0].status).to.equal("finalized");
+  });
+});
@@ -0,0 +1,88 @@
+// EligibilityGateEIP712 against messages signed the way the attester
+// service (backend/eligibility) signs them.
+// Run with: npm run test:contracts
+import { expect } from "chai";
+import { keccak256, Wallet } from "ethers";
+import hre from "hardhat";
+import {
+  eligibilityDomain,
+  signEligibility,
+  type EligibilityMessage,
+} from "../../backend/eligibility";
+import { asSigner, eventsOf, expectRevert, increaseTo, latest, useSnapshot } from "./fixtures";
+
+describe("EligibilityGateEIP712", function () {
+  useSnapshot();
+
+  const attester = Wallet.createRandom();
+
+  async function deploy(key = attester.address) {
+    const gate = await hre.ethers.deployContract("EligibilityGateEIP712", [key]);
+    await gate.waitForDeployment();
+    return gate;
+  }
+
+  async function signed(gate: string, over: Partial<EligibilityMessage> = {}, key = attester) {
+    const [, user] = await hre.ethers.getSigners();
+    const message: EligibilityMessage = {
+      user: user.address,
+      survey: Wallet.createRandom().address,
+      nullifier: keccak256(Buffer.from("nullifier")),
+      deadline: (await latest()) + 600,
+      chainId: 31337,
+      ...over,
+    };
+    const sig = await signEligibility(key, eligibilityDomain(31337, gate), message);
+    return { message, sig };
+  }
+
+  const verify = (
+    gate: Awaited<ReturnType<typeof deploy>>,
+    m: EligibilityMessage,
+    sig: string,
+    account = m.user
+  ) => gate.verify(account, m.survey, m.nullifier, m.deadline, sig);
+
+  it("Should verify the attester's message until its deadline", async function () {
+    const gate = await deploy();
+    const { message, sig } = await signed(await gate.getAddress());
+    expect(await verify(gate, message, sig)).to.equal(true);
+
+    await increaseTo(message.deadline + 1);
+    expect(await verify(gate, message, sig)).to.equal(false);
+  });
+
+  it("Should refuse another account, key, gate or chain", async function () {
+    const gate = await deploy();
+    const address = await gate.getAddress();
+    const [, , stranger] = await hre.ethers.getSigners();
+
+    const { message, sig } = await signed(address);
+    expect(await verify(gate, message, sig, stranger.address)).to.equal(false);
+    expect(await verify(gate, { ...message, nullifier: keccak256("0x01") }, sig)).to.equal(false);
+
+    const foreign = await signed(address, {}, Wallet.createRandom());
+    expect(await verify(gate, foreign.message, foreign.sig)).to.equal(false);
+    const otherGate = await signed(await (await deploy()).getAddress());
+    expect(await verify(gate, otherGate.message, otherGate.sig)).to.equal(false);
+    const otherChain = await signed(address, { chainId: 1 });
+    expect(await verify(gate, otherChain.message, otherChain.sig)).to.equal(false);
+    expect(await verify(gate, message, "0x1234")).to.equal(false);
+  });
+
+  it("Should let only the owner rotate the attester", async function () {
+    const [owner, user] = await hre.ethers.getSigners();
+    const gate = await deploy();
+    const { message, sig } = await signed(await gate.getAddress());
+    const next = Wallet.createRandom();
+
+    expect(await gate.owner()).to.equal(owner.address);
+    await expectRevert(asSigner(gate, user).setAttester(next.address), "NOT_OWNER");
+    await expectRevert(gate.setAttester(hre.ethers.ZeroAddress), "INVALID_ATTESTER");
+
+    const [e] = await eventsOf(gate.setAttester(next.address), gate);
+    expect([e.name, ...e.args]).to.deep.equal(["AttesterChanged", attester.address, next.address]);
+    expect(await gate.attester()).to.equal(next.address);
+    expect(await verify(gate, message, sig)).to.equal(false);
+  });
+});
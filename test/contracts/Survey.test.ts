@@ -0,0 +1,226 @@
+// Survey on the in-process Hardhat network; time is moved with evm_* calls.
+// Run with: npm run test:contracts
+import { expect } from "chai";
+import { encodeBytes32String, keccak256, toUtf8Bytes, Wallet, ZeroAddress } from "ethers";
+import hre from "hardhat";
+import {
+  asSigner,
+  deploySurvey,
+  eventsOf,
+  expectRevert,
+  increaseTo,
+  latest,
+  Selection,
+  useSnapshot,
+} from "./fixtures";
+
+const RULES = "0x" + "11".repeat(32);
+const RESULTS = "0x" + "22".repeat(32);
+
+describe("Survey", function () {
+  useSnapshot();
+
+  describe("questions", function () {
+    it("Should let only the creator add questions, and only before start", async function () {
+      const [, other] = await hre.ethers.getSigners();
+      const { survey, start } = await deploySurvey();
+      expect(await survey.getQuestionsCount()).to.equal(2n);
+      expect((await survey.getQuestion(1)).toArray(true)).to.deep.equal(["Multiple?", ["x", "y", "z"], 1n]);
+
+      await expectRevert(
+        asSigner(survey, other).addQuestion("Q", ["a"], Selection.SINGLE),
+        "Only creator"
+      );
+      await expectRevert(survey.addQuestion("", ["a"], Selection.SINGLE), "Empty question");
+      await expectRevert(survey.addQuestion("Q", [], Selection.SINGLE), "Invalid options count");
+
+      await increaseTo(start);
+      await expectRevert(survey.addQuestion("Late", ["a"], Selection.SINGLE), "Already started");
+    });
+  });
+
+  describe("ungated voting", function () {
+    it("Should accept votes only inside the time window", async function () {
+      const [, voter, late] = await hre.ethers.getSigners();
+      const { survey, start, end } = await deploySurvey();
+      const asVoter = asSigner(survey, voter);
+
+      await expectRevert(asVoter.vote([[0], [0]]), "Survey not started");
+      await increaseTo(start);
+      const events = await eventsOf(asVoter.vote([[1], [0, 2]]), survey);
+      expect(events.map((e) => [e.name, e.args.voter])).to.deep.equal([["Voted", voter.address]]);
+
+      await increaseTo(end + 1);
+      await expectRevert(asSigner(survey, late).vote([[0], [0]]), "Survey ended");
+    });
+
+    it("Should tally votes and keep each participant's response", async function () {
+      const [, a, b] = await hre.ethers.getSigners();
+      const { survey, start } = await deploySurvey();
+      await increaseTo(start);
+      await (await asSigner(survey, a).vote([[0], [0, 1]])).wait();
+      await (await asSigner(survey, b).vote([[0], [2]])).wait();
+
+      expect(await survey.getParticipantsCount()).to.equal(2n);
+      expect(await survey.participants(1)).to.equal(b.address);
+      expect([...(await survey.getVotes(0))]).to.deep.equal([2n, 0n, 0n]);
+      expect([...(await survey.getVotes(1))]).to.deep.equal([1n, 1n, 1n]);
+      expect([...(await survey.getParticipantResponse(a.address, 1))]).to.deep.equal([0n, 1n]);
+      await expectRevert(asSigner(survey, a).vote([[1], [1]]), "Already participated");
+    });
+
+    it("Should refuse voteWithGate without a gate", async function () {
+      const { survey, start } = await deploySurvey();
+      await increaseTo(start);
+      await expectRevert(survey.voteWithGate([[0], [0]]), "NO_GATE");
+    });
+
+    it("Should refuse the open vote on a gated survey", async function () {
+      const { survey, start } = await deploySurvey({ gate: Wallet.createRandom().address });
+      await increaseTo(start);
+      await expectRevert(survey.vote([[0], [0]]), "GATED_SURVEY");
+    });
+  });
+
+  describe("selection validation", function () {
+    let survey: Awaited<ReturnType<typeof deploySurvey>>["survey"];
+    beforeEach(async function () {
+      const d = await deploySurvey();
+      survey = d.survey;
+      await increaseTo(d.start);
+    });
+
+    it("Should require exactly one option on a SINGLE question", async function () {
+      await expectRevert(survey.vote([[0, 1], [0]]), "Must select exactly 1 option");
+      await expectRevert(survey.vote([[], [0]]), "Must select exactly 1 option");
+    });
+
+    it("Should require at least one option on a MULTIPLE question", async function () {
+      await expectRevert(survey.vote([[0], []]), "Must select at least 1 option");
+    });
+
+    it("Should reject unknown options and a wrong number of answers", async function () {
+      await expectRevert(survey.vote([[3], [0]]), "Invalid option index");
+      await expectRevert(survey.vote([[0], [0, 5]]), "Invalid option index");
+      await expectRevert(survey.vote([[0]]), "Invalid number of responses");
+    });
+  });
+
+  describe("finalize", function () {
+    it("Should anchor hashes without a claim window (2-argument overload)", async function () {
+      const [, voter] = await hre.ethers.getSigners();
+      const { survey, start, end } = await deploySurvey();
+      await increaseTo(start);
+      await (await asSigner(survey, voter).vote([[0], [0]])).wait();
+
+      const finalize = survey["finalize(bytes32,bytes32)"];
+      await expectRevert(finalize(RULES, RESULTS), "Survey still active");
+      await increaseTo(end);
+      await expectRevert(
+        asSigner(survey, voter)["finalize(bytes32,bytes32)"](RULES, RESULTS),
+        "Only creator"
+      );
+
+      const [e] = await eventsOf(finalize(RULES, RESULTS), survey);
+      expect(e.name).to.equal("Finalized");
+      expect([...e.args]).to.deep.equal([await survey.getAddress(), 1n, RULES, RESULTS, 0n, 0n]);
+      expect(await survey.finalized()).to.equal(true);
+      expect(await survey.resultsHash()).to.equal(RESULTS);
+      await expectRevert(finalize(RULES, RESULTS), "Already finalized");
+    });
+
+    it("Should record the claim window (4-argument overload)", async function () {
+      const { survey, end } = await deploySurvey();
+      await increaseTo(end);
+      const [e] = await eventsOf(
+        survey["finalize(bytes32,bytes32,uint64,uint64)"](RULES, RESULTS, end + 10, end + 100),
+        survey
+      );
+      expect(e.args.totalParticipants).to.equal(0n);
+      expect(await survey.claimOpenAt()).to.equal(BigInt(end + 10));
+      expect(await survey.claimDeadline()).to.equal(BigInt(end + 100));
+      expect(await survey.rulesHash()).to.equal(RULES);
+    });
+
+    it("Should refuse to finalize a survey without questions", async function () {
+      const { survey, end } = await deploySurvey({ questions: [] });
+      await increaseTo(end);
+      await expectRevert(survey["finalize(bytes32,bytes32)"](RULES, RESULTS), "No questions");
+    });
+  });
+
+  describe("prize pool", function () {
+    it("Should take funding from the creator only", async function () {
+      const [creator, other] = await hre.ethers.getSigners();
+      const { survey } = await deploySurvey({ value: 5n });
+      const address = await survey.getAddress();
+      expect(await survey.prizeBalance()).to.equal(5n);
+
+      const [funded] = await eventsOf(survey.fundPrize({ value: 3n }), survey);
+      expect([funded.name, funded.args.funder, funded.args.amount]).to.deep.equal([
+        "PrizeFunded",
+        creator.address,
+        3n,
+      ]);
+      await (await creator.sendTransaction({ to: address, value: 2n })).wait();
+      expect(await survey.prizeBalance()).to.equal(10n);
+
+      await expectRevert(survey.fundPrize({ value: 0n }), "Zero value");
+      await expectRevert(asSigner(survey, other).fundPrize({ value: 1n }), "Only creator");
+      await expectRevert(other.sendTransaction({ to: address, value: 1n }), "Only creator");
+    });
+
+    it("Should sweep the balance once finalized", async function () {
+      const { survey, end } = await deploySurvey({ value: 7n });
+      const to = Wallet.createRandom().address;
+      await expectRevert(survey.sweepPrize(to), "Not finalized");
+
+      await increaseTo(end);
+      await (await survey["finalize(bytes32,bytes32)"](RULES, RESULTS)).wait();
+      const [swept] = await eventsOf(survey.sweepPrize(to), survey);
+      expect([swept.name, swept.args.to, swept.args.amount]).to.deep.equal(["PrizeSwept", to, 7n]);
+      expect(await hre.ethers.provider.getBalance(to)).to.equal(7n);
+      expect(await survey.prizeBalance()).to.equal(0n);
+
+      // an empty pool sweeps nothing and emits nothing
+      expect(await eventsOf(survey.sweepPrize(ZeroAddress), survey)).to.deep.equal([]);
+    });
+  });
+
+  // the original zkSync flow test, moved from test/Survey.test.ts onto the
+  // Hardhat network: clock moved with evm_* instead of waited for
+  describe("minimal flow", function () {
+    it("Should allow adding one question, voting, and finalizing", async function () {
+      const [owner, voter] = await hre.ethers.getSigners();
+      const startTime = (await latest()) + 45;
+      const endTime = startTime + 120;
+      const metaHash32 = keccak256(toUtf8Bytes("ipfs://bafy...meta.json"));
+
+      const survey = await hre.ethers.deployContract("Survey", [
+        0,
+        startTime,
+        endTime,
+        owner.address,
+        metaHash32,
+        ZeroAddress,
+      ]);
+      await survey.waitForDeployment();
+      await (await survey.addQuestion("Do you like zkSync?", ["Yes", "No"], 0)).wait();
+
+      await increaseTo(startTime + 2);
+      await (await asSigner(survey, voter).vote([[0]])).wait();
+      expect(await survey.getParticipantsCount()).to.equal(1n);
+
+      await increaseTo(endTime + 2);
+      const rulesHash = encodeBytes32String("rules-v1");
+      const resultsHash = encodeBytes32String("results-v1");
+      await (await survey["finalize(bytes32,bytes32)"](rulesHash, resultsHash)).wait();
+
+      expect(await survey.finalized()).to.equal(true);
+      expect(await survey.surveyType()).to.equal(0n);
+      expect(await survey.metaHash()).to.equal(metaHash32);
+      expect(await survey.startTime()).to.equal(BigInt(startTime));
+      expect(await survey.endTime()).to.equal(BigInt(endTime));
+    });
+  });
+});
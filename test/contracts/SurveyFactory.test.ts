@@ -0,0 +1,115 @@
+// SurveyFactory on the in-process Hardhat network.
+// Run with: npm run test:contracts
+import { expect } from "chai";
+import { keccak256, toUtf8Bytes, Wallet, ZeroAddress } from "ethers";
+import hre from "hardhat";
+import { eventsOf, expectRevert, latest, SurveyType, useSnapshot } from "./fixtures";
+
+const META = keccak256(Buffer.from("ipfs://meta.json"));
+
+describe("SurveyFactory", function () {
+  useSnapshot();
+
+  async function deployFactory() {
+    const factory = await hre.ethers.deployContract("SurveyFactory");
+    await factory.waitForDeployment();
+    const start = (await latest()) + 100;
+    return { factory, start, end: start + 3600 };
+  }
+
+  it("Should deploy an ungated survey and announce it", async function () {
+    const [owner] = await hre.ethers.getSigners();
+    const { factory, start, end } = await deployFactory();
+
+    const [e] = await eventsOf(
+      factory.createSurvey(SurveyType.BINARY_VOTE, start, end, META, 10n, { value: 4n }),
+      factory
+    );
+    expect(e.name).to.equal("SurveyDeployed");
+    const surveyAddr = e.args.survey as string;
+    expect([...e.args].slice(1)).to.deep.equal([
+      owner.address,
+      BigInt(start),
+      BigInt(end),
+      BigInt(SurveyType.BINARY_VOTE),
+      META,
+      10n,
+      4n,
+    ]);
+
+    const survey = await hre.ethers.getContractAt("Survey", surveyAddr);
+    expect(await survey.creator()).to.equal(owner.address);
+    expect(await survey.gate()).to.equal(ZeroAddress);
+    expect(await survey.startTime()).to.equal(BigInt(start));
+    expect(await survey.endTime()).to.equal(BigInt(end));
+    expect(await survey.surveyType()).to.equal(BigInt(SurveyType.BINARY_VOTE));
+    expect(await survey.metaHash()).to.equal(META);
+    expect(await survey.prizeBalance()).to.equal(4n);
+  });
+
+  it("Should deploy a gated survey and refuse a zero gate", async function () {
+    const { factory, start, end } = await deployFactory();
+    const gate = Wallet.createRandom().address;
+
+    const [e] = await eventsOf(
+      factory.createSurveyWithGate(SurveyType.MULTIPLE_CHOICE, start, end, META, 0n, gate),
+      factory
+    );
+    const survey = await hre.ethers.getContractAt("Survey", e.args.survey);
+    expect(await survey.gate()).to.equal(gate);
+
+    await expectRevert(
+      factory.createSurveyWithGate(SurveyType.MULTIPLE_CHOICE, start, end, META, 0n, ZeroAddress),
+      "INVALID_GATE"
+    );
+  });
+
+  it("Should refuse an empty time window", async function () {
+    const { factory, start } = await deployFactory();
+    await expectRevert(
+      factory.createSurvey(SurveyType.MULTIPLE_CHOICE, start, start, META, 0n),
+      "Invalid time window"
+    );
+  });
+
+  it("Should list every survey it deployed", async function () {
+    const { factory, start, end } = await deployFactory();
+    const created: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const [e] = await eventsOf(
+        factory.createSurvey(SurveyType.MULTIPLE_CHOICE, start, end, META, 0n),
+        factory
+      );
+      created.push(e.args.survey);
+    }
+    expect(await factory.getSurveysCount()).to.equal(3n);
+    expect([...(await factory.getAllSurveys())]).to.deep.equal(created);
+    expect(await factory.allSurveys(2)).to.equal(created[2]);
+  });
+
+  // moved from test/SurveyFactory.test.ts (zkSync, factoryDeps) onto the
+  // Hardhat network; createSurvey now takes the bytes32 hash and plannedReward
+  it("deploys Survey via Factory and sets fields", async function () {
+    const [owner] = await hre.ethers.getSigners();
+    const { factory } = await deployFactory();
+    const startTime = (await latest()) + 10;
+    const endTime = startTime + 3600;
+    const metaHash32 = keccak256(toUtf8Bytes("ipfs://bafy...meta.json"));
+
+    const [e] = await eventsOf(
+      factory.createSurvey(SurveyType.MULTIPLE_CHOICE, startTime, endTime, metaHash32, 0n),
+      factory
+    );
+    const surveyAddr = e?.name === "SurveyDeployed" ? (e.args.survey as string) : undefined;
+    expect(surveyAddr, "Survey address not found").to.match(/^0x[a-fA-F0-9]{40}$/);
+
+    const survey = await hre.ethers.getContractAt("Survey", surveyAddr!);
+    expect(await survey.creator()).to.equal(owner.address);
+    expect(await survey.startTime()).to.equal(BigInt(startTime));
+    expect(await survey.endTime()).to.equal(BigInt(endTime));
+    expect(await survey.surveyType()).to.equal(0n);
+    expect(await survey.metaHash()).to.equal(metaHash32);
+
+    expect(await factory.getSurveysCount()).to.equal(1n);
+  });
+});
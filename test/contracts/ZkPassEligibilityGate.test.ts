@@ -0,0 +1,135 @@
+// ZkPassEligibilityGate with proofs signed by local allocator/validator keys,
+// and gated voting on a Survey behind it.
+// Run with: npm run test:contracts
+import { expect } from "chai";
+import { getBytes, hexlify, keccak256, Wallet } from "ethers";
+import hre from "hardhat";
+import { attest, checkProof } from "../../backend/zkpass";
+import {
+  asSigner,
+  deployGate,
+  deploySurvey,
+  eventsOf,
+  expectRevert,
+  increaseTo,
+  signProof,
+  useSnapshot,
+} from "./fixtures";
+
+const U_HASH = keccak256(Buffer.from("zkpass-user-1"));
+
+describe("ZkPassEligibilityGate", function () {
+  useSnapshot();
+
+  const allocator = Wallet.createRandom();
+  const validator = Wallet.createRandom();
+
+  it("Should attest a valid proof for its recipient", async function () {
+    const [, user] = await hre.ethers.getSigners();
+    const gate = await deployGate(allocator);
+    const survey = Wallet.createRandom().address;
+    const proof = await signProof(allocator, validator, { uHash: U_HASH, recipient: user.address });
+
+    expect(await gate.verify(proof)).to.equal(true);
+    const [e] = await eventsOf(asSigner(gate, user).attest(proof, survey), gate);
+    expect([e.name, ...e.args]).to.deep.equal(["EligibilityAttested", user.address, survey, U_HASH]);
+    expect(await gate.checkEligibility(user.address, survey)).to.equal(true);
+    expect(await gate.isEligible(user.address, Wallet.createRandom().address)).to.equal(false);
+    expect(await gate.usedUHash(U_HASH)).to.equal(true);
+  });
+
+  it("Should refuse a proof made out to another wallet", async function () {
+    const [, user, other] = await hre.ethers.getSigners();
+    const gate = await deployGate(allocator);
+    const proof = await signProof(allocator, validator, { uHash: U_HASH, recipient: user.address });
+    await expectRevert(
+      asSigner(gate, other).attest(proof, Wallet.createRandom().address),
+      "Recipient must be caller"
+    );
+  });
+
+  it("Should refuse proofs with a foreign allocator or altered fields", async function () {
+    const [, user] = await hre.ethers.getSigners();
+    const gate = await deployGate(allocator);
+    const survey = Wallet.createRandom().address;
+
+    const foreign = await signProof(Wallet.createRandom(), validator, {
+      uHash: U_HASH,
+      recipient: user.address,
+    });
+    await expectRevert(asSigner(gate, user).attest(foreign, survey), "Invalid proof");
+
+    const proof = await signProof(allocator, validator, { uHash: U_HASH, recipient: user.address });
+    const altered = { ...proof, uHash: keccak256(Buffer.from("zkpass-user-2")) };
+    expect(await gate.verify(altered)).to.equal(false);
+    await expectRevert(asSigner(gate, user).attest(altered, survey), "Invalid proof");
+  });
+
+  it("Should revert with the reason checkProof reports first", async function () {
+    const [, user, other] = await hre.ethers.getSigners();
+    const gate = await deployGate(allocator);
+    const survey = Wallet.createRandom().address;
+    const proof = await signProof(allocator, validator, { uHash: U_HASH, recipient: user.address });
+    const sig = getBytes(proof.validatorSignature);
+    const proofs = [
+      await signProof(Wallet.createRandom(), validator, { uHash: U_HASH, recipient: user.address }),
+      { ...proof, uHash: keccak256(Buffer.from("zkpass-user-2")) },
+      { ...proof, allocatorSignature: "0x1234" },
+      { ...proof, validatorSignature: hexlify(Uint8Array.from([...sig.subarray(0, 64), 1])) },
+    ];
+    for (const p of proofs) {
+      const [issue] = checkProof(p, { allocator: allocator.address, caller: user.address });
+      if (issue.revert === "Invalid proof") expect(await gate.verify(p)).to.equal(false);
+      else await expectRevert(gate.verify(p), issue.revert);
+      await expectRevert(asSigner(gate, user).attest(p, survey), issue.revert);
+    }
+    const [issue] = checkProof(proof, { allocator: allocator.address, caller: other.address });
+    await expectRevert(asSigner(gate, other).attest(proof, survey), issue.revert);
+  });
+
+  it("Should attest through the helper and refuse without sending", async function () {
+    const [, user, other] = await hre.ethers.getSigners();
+    const gate = await deployGate(allocator);
+    const survey = Wallet.createRandom().address;
+    const proof = await signProof(allocator, validator, { uHash: U_HASH, recipient: user.address });
+    const nonce = await other.getNonce();
+
+    try {
+      await attest(other, await gate.getAddress(), proof, survey);
+      expect.fail("expected a refusal");
+    } catch (e) {
+      expect((e as Error).message).to.match(/^Gate would revert with "Recipient must be caller"/);
+    }
+    expect(await other.getNonce()).to.equal(nonce);
+    await attest(user, await gate.getAddress(), proof, survey);
+    expect(await gate.checkEligibility(user.address, survey)).to.equal(true);
+  });
+
+  it("Should accept the same uHash for another survey (demo mode)", async function () {
+    const [, user] = await hre.ethers.getSigners();
+    const gate = await deployGate(allocator);
+    const proof = await signProof(allocator, validator, { uHash: U_HASH, recipient: user.address });
+    const [s1, s2] = [Wallet.createRandom().address, Wallet.createRandom().address];
+
+    await (await asSigner(gate, user).attest(proof, s1)).wait();
+    await (await asSigner(gate, user).attest(proof, s2)).wait();
+    expect(await gate.checkEligibility(user.address, s2)).to.equal(true);
+  });
+
+  it("Should let only attested wallets vote on a gated survey", async function () {
+    const [, user, stranger] = await hre.ethers.getSigners();
+    const gate = await deployGate(allocator);
+    const { survey, start } = await deploySurvey({ gate: await gate.getAddress() });
+    const proof = await signProof(allocator, validator, { uHash: U_HASH, recipient: user.address });
+
+    await (await asSigner(gate, user).attest(proof, await survey.getAddress())).wait();
+    await increaseTo(start);
+    await expectRevert(asSigner(survey, stranger).voteWithGate([[0], [0]]), "Not eligible");
+    await expectRevert(asSigner(survey, user).vote([[0], [0]]), "GATED_SURVEY");
+
+    const [e] = await eventsOf(asSigner(survey, user).voteWithGate([[2], [1]]), survey);
+    expect([e.name, e.args.voter]).to.deep.equal(["Voted", user.address]);
+    expect([...(await survey.getVotes(0))]).to.deep.equal([0n, 0n, 1n]);
+    await expectRevert(asSigner(survey, user).voteWithGate([[0], [0]]), "Already participated");
+  });
+});
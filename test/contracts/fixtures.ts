@@ -0,0 +1,129 @@
+// Hardhat-network helpers for the contract tests: clock control, deployment
+// of a survey in a known time window and locally signed zkPass proofs.
+import { expect } from "chai";
+import {
+  keccak256,
+  zeroPadValue,
+  ZeroAddress,
+  type BaseContract,
+  type ContractTransactionResponse,
+  type HDNodeWallet,
+  type LogDescription,
+  type Signer,
+  type Wallet,
+} from "ethers";
+import hre from "hardhat";
+
+export const SurveyType = { MULTIPLE_CHOICE: 0, BINARY_VOTE: 1 } as const;
+export const Selection = { SINGLE: 0, MULTIPLE: 1 } as const;
+
+const send = (method: string, params: unknown[] = []) =>
+  hre.network.provider.send(method, params);
+
+export async function latest() {
+  return (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+}
+
+/** Mines the next block at `ts`; the next transaction lands after it. */
+export async function increaseTo(ts: number) {
+  await send("evm_setNextBlockTimestamp", [ts]);
+  await send("evm_mine");
+}
+
+/** Reverts the chain after every test of the calling suite. */
+export function useSnapshot() {
+  let id: string;
+  beforeEach(async function () {
+    id = await send("evm_snapshot");
+  });
+  afterEach(async function () {
+    await send("evm_revert", [id]);
+  });
+}
+
+/** Awaits `p` and asserts that it reverted with `reason`. */
+export async function expectRevert(p: Promise<unknown>, reason: string) {
+  try {
+    await p;
+  } catch (e) {
+    const err = e as { reason?: string; message: string };
+    expect(err.reason ?? err.message).to.include(reason);
+    return;
+  }
+  expect.fail(`expected a revert with "${reason}"`);
+}
+
+/** `contract` sending from `signer`, keeping its type. */
+export const asSigner = <C extends BaseContract>(contract: C, signer: Signer) =>
+  contract.connect(signer) as C;
+
+/** Decoded logs of `contract` in the receipt of `tx`. */
+export async function eventsOf(
+  tx: Promise<ContractTransactionResponse>,
+  contract: BaseContract
+): Promise<LogDescription[]> {
+  const receipt = await (await tx).wait();
+  const address = (await contract.getAddress()).toLowerCase();
+  return receipt!.logs
+    .filter((l) => l.address.toLowerCase() === address)
+    .map((l) => contract.interface.parseLog(l)!)
+    .filter(Boolean);
+}
+
+export type SurveyOptions = {
+  gate?: string;
+  value?: bigint;
+  creator?: Signer;
+  questions?: [string, string[], number][];
+};
+
+/**
+ * Deploys a Survey open from `start` to `end` with its questions added;
+ * the clock is still before `start` afterwards.
+ */
+export async function deploySurvey(opts: SurveyOptions = {}) {
+  const [owner] = await hre.ethers.getSigners();
+  const creator = opts.creator ?? owner;
+  const start = (await latest()) + 100;
+  const end = start + 1000;
+  const survey = await hre.ethers.deployContract(
+    "Survey",
+    [
+      SurveyType.MULTIPLE_CHOICE,
+      start,
+      end,
+      await creator.getAddress(),
+      keccak256(Buffer.from("ipfs://meta.json")),
+      opts.gate ?? ZeroAddress,
+    ],
+    { value: opts.value ?? 0n, signer: creator }
+  );
+  await survey.waitForDeployment();
+  const questions = opts.questions ?? [
+    ["Single?", ["a", "b", "c"], Selection.SINGLE],
+    ["Multiple?", ["x", "y", "z"], Selection.MULTIPLE],
+  ];
+  for (const [text, options, selection] of questions) {
+    await (await survey.addQuestion(text, options, selection)).wait();
+  }
+  return { survey, start, end };
+}
+
+// ---------- zkPass ----------
+
+export { signProof, type Proof } from "../../backend/zkpass";
+
+/**
+ * Deploys ZkPassEligibilityGate trusting `allocator`. ProofVerifier hardcodes
+ * zkPass' allocator in slot 0; the test overwrites it with a local key.
+ */
+export async function deployGate(allocator: Wallet | HDNodeWallet) {
+  const gate = await hre.ethers.deployContract("ZkPassEligibilityGate");
+  await gate.waitForDeployment();
+  await send("hardhat_setStorageAt", [
+    await gate.getAddress(),
+    "0x0",
+    zeroPadValue(allocator.address, 32),
+  ]);
+  return gate;
+}
@@ -0,0 +1,206 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Wallet, ZeroAddress } from "ethers";
+import { createOutputReader } from "../../backend/api";
+import {
+  AttesterService,
+  createAttester,
+  createKeystore,
+  createRateLimiter,
+  openKeystore,
+  parseRateLimit,
+  recoverEligibilitySigner,
+  startAttesterService,
+} from "../../backend/eligibility";
+import { buildCard, GateInfo, SurveyCard } from "../../backend/indexer";
+
+const GATE = "0x" + "9".repeat(40);
+const A = "0x" + "a".repeat(40);
+const B = "0x" + "b".repeat(40);
+const UNGATED = "0x" + "c".repeat(40);
+const DROPPED = "0x" + "d".repeat(40);
+const ENDED = "0x" + "e".repeat(40);
+const UNVERIFIED = "0x" + "1".repeat(40);
+const CLAIMED = "0x" + "2".repeat(40);
+const NOW = 1_000_000;
+
+function card(address: string, over: Partial<SurveyCard>) {
+  return {
+    ...buildCard(address, { metaValid: true, onchainGate: GATE }, 31337, 0),
+    status: "active",
+    endSec: NOW + 3600,
+    ...over,
+  };
+}
+
+const adult: GateInfo = { addr: GATE, predicates: [{ key: "age", op: ">=", value: 18 }] };
+
+describe("eligibility attester", function () {
+  this.timeout(20_000);
+
+  let dir: string;
+  let service: AttesterService;
+  let signer: string;
+  const auditFile = () => path.join(dir, "audit.ndjson");
+  const audit = () =>
+    fs
+      .readFileSync(auditFile(), "utf8")
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+
+  const post = async (body: unknown, headers: Record<string, string> = {}) => {
+    const res = await fetch(`${service.url}/eligibility`, {
+      method: "POST",
+      headers: { "content-type": "application/json", authorization: "Bearer t0ken", ...headers },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json(), retryAfter: res.headers.get("retry-after") };
+  };
+  const request = (over: Record<string, unknown> = {}) => ({
+    chainId: 31337,
+    survey: A,
+    user: Wallet.createRandom().address,
+    attributes: { age: 30 },
+    ...over,
+  });
+
+  before(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-attester-"));
+    const outDir = path.join(dir, "out");
+    fs.mkdirSync(outDir);
+    fs.writeFileSync(
+      path.join(outDir, "surveys.list.json"),
+      JSON.stringify([
+        card(A, { gate: adult }),
+        card(B, { gate: adult, endSec: NOW + 100 }),
+        card(UNGATED, { onchainGate: ZeroAddress }),
+        card(UNVERIFIED, { gate: adult, metaValid: false }),
+        // meta names our gate, the survey was deployed with another one
+        card(CLAIMED, { gate: adult, onchainGate: "0x" + "3".repeat(40) }),
+        card(DROPPED, {
+          gate: { ...adult, rejected: [{ path: "predicates[1]", clause: {}, reason: "unknown" }] },
+        }),
+        card(ENDED, { gate: adult, status: "awaiting_finalization", endSec: NOW - 1 }),
+      ])
+    );
+    const keys = path.join(dir, "keys");
+    signer = (await createKeystore(keys, "pw", { scryptN: 1024 })).signer;
+    const attester = createAttester({
+      keys: await openKeystore(keys, "pw"),
+      reader: createOutputReader(outDir),
+      gates: [GATE],
+      now: () => NOW,
+    });
+    service = await startAttesterService(attester, {
+      auditLog: auditFile(),
+      rateLimit: { max: 3, windowSec: 60 },
+      clientToken: "t0ken",
+      port: 0,
+    });
+  });
+
+  after(async function () {
+    await service?.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should keep keys in an encrypted keystore it will not overwrite", async function () {
+    const keys = path.join(dir, "keys");
+    expect(fs.readFileSync(path.join(keys, "signer.json"), "utf8")).to.not.include("privateKey");
+    try {
+      await createKeystore(keys, "pw", { scryptN: 1024 });
+      expect.fail("expected a refusal");
+    } catch (e) {
+      expect((e as Error).message).to.match(/^Keystore already exists/);
+    }
+    const wrong = await openKeystore(keys, "nope").then(
+      () => "opened",
+      () => "refused"
+    );
+    expect(wrong).to.equal("refused");
+  });
+
+  it("Should sign an Eligibility message the gate domain recovers", async function () {
+    const req = request();
+    const { status, body } = await post(req);
+    expect(status).to.equal(200);
+    expect(body.domain).to.deep.equal({
+      name: "DScopeEligibility",
+      version: "1",
+      chainId: 31337,
+      verifyingContract: "0x9999999999999999999999999999999999999999",
+    });
+    expect(body.message).to.include({ user: req.user, deadline: NOW + 600, chainId: 31337 });
+    expect(body.signer).to.equal(signer);
+    expect(recoverEligibilitySigner(body.domain, body.message, body.signature)).to.equal(signer);
+
+    // capped at the survey's end
+    const late = await post(request({ survey: B }));
+    expect(late.body.message.deadline).to.equal(NOW + 100);
+  });
+
+  it("Should derive one nullifier per subject and survey", async function () {
+    const [one, other, again, elsewhere] = await Promise.all([
+      post(request({ subject: "person-1" })),
+      post(request({ subject: "person-2" })),
+      post(request({ subject: "person-1" })),
+      post(request({ subject: "person-1", survey: B })),
+    ]);
+    const n = [one, other, again, elsewhere].map((r) => r.body.message.nullifier);
+    expect(n[0]).to.equal(n[2]);
+    expect(n[0]).to.not.equal(n[1]);
+    expect(n[0]).to.not.equal(n[3]);
+  });
+
+  it("Should refuse failed predicates, foreign gates, unverified meta and closed surveys", async function () {
+    const young = await post(request({ attributes: { age: 16 } }));
+    expect(young.status).to.equal(403);
+    expect(young.body.failures[0].reason).to.equal("age must be at least 18 (is 16)");
+
+    for (const [survey, status, error] of [
+      [UNGATED, 409, "survey is not gated by this attester"],
+      [CLAIMED, 409, "survey is not gated by this attester"],
+      [UNVERIFIED, 409, "survey meta does not match its metaHash"],
+      [DROPPED, 409, "survey gate has predicates the indexer could not validate"],
+      [ENDED, 409, "survey is awaiting_finalization"],
+      ["0x" + "f".repeat(40), 404, "survey not found"],
+    ]) {
+      expect(await post(request({ survey }))).to.deep.include({ status, body: { error } });
+    }
+    expect((await post(request({ user: "bob" }))).status).to.equal(400);
+    expect((await post(request(), { authorization: "Bearer nope" })).status).to.equal(401);
+  });
+
+  it("Should rate-limit per wallet and audit every request", async function () {
+    const user = Wallet.createRandom().address;
+    const replies = [];
+    for (let i = 0; i < 4; i++) replies.push(await post(request({ user })));
+    expect(replies.map((r) => r.status)).to.deep.equal([200, 200, 200, 429]);
+    expect(replies[3].retryAfter).to.equal("60");
+
+    const mine = audit().filter((e) => e.user === user.toLowerCase());
+    expect(mine.map((e) => e.outcome)).to.deep.equal(["issued", "issued", "issued", "rate_limited"]);
+    expect(mine[0]).to.include({ chainId: 31337, survey: A.toLowerCase(), signer });
+    expect(mine[0].attributesHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(JSON.stringify(mine)).to.not.include('"age"');
+    expect(audit().map((e) => e.outcome)).to.include.members(["denied", "invalid"]);
+  });
+
+  it("Should parse and apply rate limits", function () {
+    expect(parseRateLimit("5/60")).to.deep.equal({ max: 5, windowSec: 60 });
+    expect(() => parseRateLimit("5 per minute")).to.throw(/Bad rate limit/);
+
+    let t = 100;
+    const limiter = createRateLimiter({ max: 2, windowSec: 10 }, () => t);
+    expect([limiter.take("k"), limiter.take("k"), limiter.take("k")]).to.deep.equal([
+      { ok: true },
+      { ok: true },
+      { ok: false, retryAfter: 10 },
+    ]);
+    t = 110;
+    expect(limiter.take("k")).to.deep.equal({ ok: true });
+  });
+});
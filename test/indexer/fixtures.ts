@@ -0,0 +1,156 @@
+// Canned chain for the offline indexer tests.
+import { Interface, ZeroAddress, ZeroHash, getAddress } from "ethers";
+import { ELIGIBILITY_GATE_ABI, SURVEY_FACTORY_ABI, SURVEY_ABI } from "../../backend/abi";
+import {
+  ChainConfig,
+  ChainLog,
+  ChainProvider,
+  ChainReceipt,
+  ChainTx,
+  IndexerConfig,
+  configFromEnv,
+} from "../../backend/indexer";
+import type { RawQuestion } from "../../backend/results";
+
+export const FACTORY = "0x7da8ed6956140c2ac7dad610c4e03d5256247e3c";
+export const FACTORY2 = "0x3333333333333333333333333333333333333333";
+export const SURVEY = "0x1111111111111111111111111111111111111111";
+export const CREATOR = "0x2222222222222222222222222222222222222222";
+export const GATE = "0x5555555555555555555555555555555555555555";
+
+const factoryIface = new Interface(SURVEY_FACTORY_ABI);
+const surveyIface = new Interface(SURVEY_ABI);
+const gateIface = new Interface(ELIGIBILITY_GATE_ABI);
+
+export function makeLog(
+  address: string,
+  event: string,
+  args: any[],
+  blockNumber: number,
+  index = 0
+): ChainLog {
+  const iface =
+    address === FACTORY || address === FACTORY2
+      ? factoryIface
+      : address === GATE
+      ? gateIface
+      : surveyIface;
+  const { data, topics } = iface.encodeEventLog(iface.getEvent(event)!, args);
+  return {
+    address: getAddress(address),
+    data,
+    topics,
+    blockNumber,
+    index,
+    transactionHash: "0x" + blockNumber.toString(16).padStart(64, "0"),
+  };
+}
+
+/** Deployed at 10, funded, one question, one vote, finalized, swept. */
+export function surveyLifecycle(): ChainLog[] {
+  return [
+    makeLog(FACTORY, "SurveyDeployed", [SURVEY, CREATOR, 100, 200, 0, ZeroHash, 5, 7], 10),
+    makeLog(SURVEY, "PrizeFunded", [CREATOR, 7], 10, 1),
+    makeLog(SURVEY, "QuestionAdded", [0, "Do you like zk?"], 11),
+    makeLog(SURVEY, "Voted", [CREATOR], 12),
+    makeLog(SURVEY, "Finalized", [SURVEY, 1, ZeroHash, ZeroHash, 300, 400], 13),
+    makeLog(SURVEY, "PrizeSwept", [CREATOR, 7], 14),
+  ];
+}
+
+/** The tally behind surveyLifecycle(): one question, one "yes". */
+export function lifecycleTally(): RawQuestion[] {
+  return [{ text: "Do you like zk?", options: ["yes", "no"], selectionType: 0, votes: [1, 0] }];
+}
+
+export type FakeProvider = ChainProvider & {
+  head: number;
+  logs: ChainLog[];
+  txs: Record<string, { tx: ChainTx; receipt: ChainReceipt }>;
+  /** blocks >= forkAt get a different hash */
+  forkAt?: number;
+  /** getLogs rejects windows wider than this */
+  maxRange?: number;
+  /** getLogs fails for any window covering this block */
+  failBlock?: number;
+  calls: number;
+  /** what the survey view functions return, by survey address */
+  tallies: Record<string, RawQuestion[]>;
+  /** Survey.gate() by survey address; the zero address when absent */
+  gates: Record<string, string>;
+};
+
+export function fakeProvider(logs: ChainLog[], head = 20): FakeProvider {
+  const p: FakeProvider = {
+    head,
+    logs,
+    txs: {},
+    calls: 0,
+    tallies: { [SURVEY]: lifecycleTally() },
+    gates: {},
+    async getBlockNumber() {
+      return p.head;
+    },
+    async getBlock(n) {
+      if (n > p.head) return null;
+      const fill = p.forkAt !== undefined && n >= p.forkAt ? "b" : "a";
+      return { timestamp: 1000 + n, hash: "0x" + String(n).padStart(64, fill) };
+    },
+    async getLogs({ address, fromBlock, toBlock }) {
+      p.calls++;
+      if (p.maxRange && toBlock - fromBlock + 1 > p.maxRange) {
+        throw new Error("block range too large");
+      }
+      if (
+        p.failBlock !== undefined &&
+        fromBlock <= p.failBlock &&
+        toBlock >= p.failBlock
+      ) {
+        throw new Error("internal error");
+      }
+      const addrs = ([] as string[]).concat(address).map((a) => a.toLowerCase());
+      return p.logs.filter(
+        (l) =>
+          l.blockNumber >= fromBlock &&
+          l.blockNumber <= toBlock &&
+          addrs.includes(l.address.toLowerCase())
+      );
+    },
+    async getTransaction(h) {
+      return p.txs[h]?.tx ?? null;
+    },
+    async getTransactionReceipt(h) {
+      return p.txs[h]?.receipt ?? null;
+    },
+    async call({ to, data }) {
+      const fn = surveyIface.parseTransaction({ data })!;
+      if (fn.name === "gate") {
+        return surveyIface.encodeFunctionResult("gate", [p.gates[to.toLowerCase()] ?? ZeroAddress]);
+      }
+      const questions = p.tallies[to.toLowerCase()];
+      if (!questions) throw new Error("execution reverted");
+      const q = questions[fn.args.length ? Number(fn.args[0]) : 0];
+      const result: Record<string, unknown[]> = {
+        getQuestionsCount: [questions.length],
+        getParticipantsCount: [1],
+        getQuestion: [q?.text, q?.options, q?.selectionType],
+        getVotes: [q?.votes],
+      };
+      return surveyIface.encodeFunctionResult(fn.name, result[fn.name]);
+    },
+  };
+  return p;
+}
+
+export function testConfig(over: Partial<IndexerConfig> = {}): IndexerConfig {
+  return {
+    ...configFromEnv({ FACTORY_ADDRESS: FACTORY, OUTPUT_DIR: "/dev/null" }),
+    rpcRetries: 1,
+    rpcBackoffMs: 0,
+    ...over,
+  };
+}
+
+export function testChain(over: Partial<ChainConfig> = {}): ChainConfig {
+  return { ...testConfig().chains[0], ...over };
+}
@@ -0,0 +1,146 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  compactLedger,
+  createChainSource,
+  createFsSink,
+  dedupeLedger,
+  LedgerEntry,
+  MetaSource,
+  outputFiles,
+  rebuildFromLedger,
+  runIndexer,
+  verifyLedger,
+} from "../../backend/indexer";
+import { fakeProvider, SURVEY, surveyLifecycle, testChain, testConfig } from "./fixtures";
+
+const noMeta: MetaSource = {
+  urlFor: (s, c) => `/meta/${c}/${s}.json`,
+  fetch: async () => null,
+};
+
+const voted = (over: Partial<LedgerEntry> = {}) =>
+  ({
+    t: "Voted",
+    survey: SURVEY,
+    block: 12,
+    ts: 1,
+    tx: "0xaa",
+    voter: "0xbb",
+    ...over,
+  }) as LedgerEntry;
+
+describe("ledger", function () {
+  let dir: string;
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-ledger-"));
+  });
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function indexInto(rootDir: string) {
+    const config = testConfig({ onlyLastBlocks: 100 });
+    const sink = createFsSink(rootDir, testChain().chainId);
+    const provider = fakeProvider(surveyLifecycle());
+    const deps = {
+      config,
+      chain: testChain(),
+      source: createChainSource(provider, { retries: 1, backoffMs: 0 }),
+      meta: noMeta,
+      store: sink,
+      sinks: [sink],
+    };
+    await runIndexer(deps);
+    // the tail window overlaps the first run entirely
+    const out = await runIndexer(deps);
+    return { sink, out };
+  }
+
+  it("Should key entries by chain, tx and log index", function () {
+    const a = voted({ chainId: 1, logIndex: 0 });
+    const { kept, dropped } = dedupeLedger([
+      voted(),
+      a,
+      { ...a },
+      voted({ chainId: 1, logIndex: 1 }),
+      voted({ chainId: 2, logIndex: 0 }),
+    ]);
+    // the keyless line written before keys existed is the same event as `a`
+    expect(dropped).to.equal(2);
+    expect(kept.map((e) => [e.chainId, e.logIndex])).to.deep.equal([
+      [undefined, undefined],
+      [1, 1],
+      [2, 0],
+    ]);
+  });
+
+  it("Should append each event once across overlapping runs", async function () {
+    const { sink } = await indexInto(dir);
+    const ledger = sink.readLedger();
+    expect(ledger).to.have.length(6);
+    expect(ledger[0]).to.include({ t: "SurveyDeployed", logIndex: 0 });
+    expect(ledger[1]).to.include({ t: "PrizeFunded", logIndex: 1 });
+    expect(ledger.every((e) => e.chainId === testChain().chainId)).to.equal(true);
+  });
+
+  it("Should compact the ledger and detect a tampered one", async function () {
+    const { sink } = await indexInto(dir);
+    const files = outputFiles(sink.outDir);
+    const lines = fs.readFileSync(files.LEDGER, "utf8").trim().split("\n");
+    const legacy = JSON.parse(lines[3]);
+    delete legacy.chainId;
+    delete legacy.logIndex;
+    fs.writeFileSync(
+      files.LEDGER,
+      [lines[5], lines[0], lines[3], JSON.stringify(legacy), "{broken", ...lines].join("\n") + "\n"
+    );
+
+    const r = compactLedger(sink.outDir);
+    expect(r).to.include({ entries: 6, duplicates: 4, unreadable: 1 });
+    expect(sink.readLedger().map((e) => e.t)).to.deep.equal([
+      "SurveyDeployed",
+      "PrizeFunded",
+      "QuestionAdded",
+      "Voted",
+      "Finalized",
+      "PrizeSwept",
+    ]);
+    expect(verifyLedger(sink.outDir).ok).to.equal(true);
+
+    // appended lines are outside the checksum
+    fs.appendFileSync(files.LEDGER, lines[0] + "\n");
+    expect(verifyLedger(sink.outDir).ok).to.equal(true);
+
+    fs.writeFileSync(files.LEDGER, fs.readFileSync(files.LEDGER, "utf8").replace('"Voted"', '"Votes"'));
+    expect(verifyLedger(sink.outDir).ok).to.equal(false);
+    expect(() => rebuildFromLedger(sink.outDir, testChain().chainId)).to.throw(
+      /does not match ledger\.checksum\.json/
+    );
+  });
+
+  it("Should rebuild surveys.json and the list from the ledger alone", async function () {
+    const { sink, out } = await indexInto(dir);
+    const files = outputFiles(sink.outDir);
+    fs.writeFileSync(files.SURV, "{ corrupted");
+    fs.writeFileSync(files.LIST, "");
+
+    const r = rebuildFromLedger(sink.outDir, testChain().chainId, { now: out.state.updatedAt });
+    expect(r).to.include({ entries: 6, orphans: 0, verified: null });
+    expect(JSON.parse(fs.readFileSync(files.SURV, "utf8"))[SURVEY]).to.include({
+      participants: 1,
+      prizeFunded: "7",
+      prizeSwept: "7",
+      claimDeadline: 400,
+      eventsBlock: out.surveys[SURVEY].eventsBlock,
+    });
+    // meta is not in the ledger; the next indexer run fetches it again
+    const list = JSON.parse(fs.readFileSync(files.LIST, "utf8"));
+    const fields = ["address", "creator", "startSec", "endSec", "finalizedSec", "status"];
+    fields.push("participants", "questions", "prizeFunded", "prizeSwept", "resultsHash");
+    const pick = (c: any) => fields.map((k) => c[k]);
+    expect(pick(list[0])).to.deep.equal(pick(out.list[0]));
+  });
+});
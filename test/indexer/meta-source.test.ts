@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { encodeBase58, getBytes, sha256 } from "ethers";
+import {
+  applyMeta,
+  canonicalHash,
+  cidAnchor,
+  cidToString,
+  createCidMetaSource,
+  createFsMetaCache,
+  createMemoryMetaCache,
+  createMetaResolver,
+  createMirrorMetaSource,
+  MetaDoc,
+  MetaSource,
+  rawCid,
+} from "../../backend/indexer";
+import { SURVEY } from "./fixtures";
+
+const meta = { title: "Stored", plannedReward: "0" };
+const bytesOf = (v: unknown) => new TextEncoder().encode(JSON.stringify(v));
+
+/** What `ipfs add` makes of a small file: a dag-pb node addressed by a CIDv0. */
+function unixfsFile(content: Uint8Array) {
+  const unixfs = [0x08, 0x02, 0x12, content.length, ...content, 0x18, content.length];
+  const node = Uint8Array.from([0x0a, unixfs.length, ...unixfs]);
+  const cid = encodeBase58(Uint8Array.from([0x12, 0x20, ...getBytes(sha256(node))]));
+  return { node, cid };
+}
+
+function fakeSource(doc: MetaDoc | null): MetaSource & { calls: number } {
+  const s = {
+    calls: 0,
+    urlFor: (survey: string, chainId: number) => `https://w/meta/${chainId}/${survey}.json`,
+    async fetch() {
+      s.calls++;
+      return doc;
+    },
+  };
+  return s;
+}
+
+describe("meta sources", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-meta-"));
+  });
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("createMetaResolver", function () {
+    it("Should skip copies that do not match metaHash and cache the verified one", async function () {
+      const mirrorDir = path.join(dir, "mirror");
+      fs.mkdirSync(path.join(mirrorDir, "534351"), { recursive: true });
+      fs.writeFileSync(
+        path.join(mirrorDir, "534351", `${SURVEY}.json`),
+        JSON.stringify({ title: "Edited locally" })
+      );
+      const worker = fakeSource({ meta, url: "https://w/x.json", source: "worker" });
+      const cache = createMemoryMetaCache();
+      const resolver = createMetaResolver(
+        [createMirrorMetaSource(mirrorDir), worker],
+        cache
+      );
+      const hash = canonicalHash(meta);
+
+      const doc = await resolver.fetch(SURVEY, 534351, hash);
+      expect(doc).to.include({ source: "worker" });
+      expect(cache.get(hash)?.meta).to.deep.equal(meta);
+
+      expect(await resolver.fetch(SURVEY, 534351, hash)).to.include({ source: "cache" });
+      expect(worker.calls).to.equal(1);
+    });
+
+    it("Should link mirror copies to the public URL", async function () {
+      fs.writeFileSync(path.join(dir, `${canonicalHash(meta)}.json`), JSON.stringify(meta));
+      const resolver = createMetaResolver(
+        [createMirrorMetaSource(dir), fakeSource(null)],
+        createFsMetaCache(path.join(dir, "cache"))
+      );
+      const doc = await resolver.fetch(SURVEY, 534351, canonicalHash(meta));
+      expect(doc).to.include({ source: "mirror", url: `https://w/meta/534351/${SURVEY}.json` });
+      expect(fs.readdirSync(path.join(dir, "cache"))).to.have.length(1);
+    });
+
+    it("Should return an unverified copy when nothing matches", async function () {
+      const resolver = createMetaResolver([fakeSource({ meta, url: "u" })]);
+      const doc = await resolver.fetch(SURVEY, 1, "0x" + "00".repeat(32));
+      expect(doc?.meta).to.deep.equal(meta);
+      const rec = applyMeta({ metaHash: "0x" + "00".repeat(32) }, doc, { metaUrl: "u" });
+      expect(rec.metaValid).to.equal(false);
+    });
+  });
+
+  describe("createCidMetaSource", function () {
+    it("Should resolve a raw block anchored as an ipfs:// URL", async function () {
+      const bytes = bytesOf({ title: "Anchored by CID" });
+      const cid = cidToString(rawCid(bytes));
+      fs.writeFileSync(path.join(dir, cid), bytes);
+      const src = createCidMetaSource({ dir });
+
+      const doc = await src.fetch(SURVEY, 1, cidAnchor(cid));
+      expect(doc).to.include({ cid, url: `ipfs://${cid}` });
+      const rec = applyMeta({ metaHash: cidAnchor(cid) }, doc, { metaUrl: "f" });
+      expect(rec).to.include({ metaValid: true, title: "Anchored by CID" });
+    });
+
+    it("Should read a UnixFS file by the canonical hash of its content", async function () {
+      const { node, cid } = unixfsFile(bytesOf(meta));
+      fs.writeFileSync(path.join(dir, `${cid}.bin`), node);
+      const doc = await createCidMetaSource({ dir }).fetch(SURVEY, 1, canonicalHash(meta));
+      expect(doc).to.deep.include({ meta, cid });
+    });
+
+    it("Should reject blocks that do not hash to their CID", async function () {
+      const bytes = bytesOf(meta);
+      const cid = cidToString(rawCid(bytes));
+      fs.writeFileSync(path.join(dir, cid), bytesOf({ title: "Tampered" }));
+      expect(await createCidMetaSource({ dir }).fetch(SURVEY, 1, cidAnchor(cid))).to.equal(
+        null
+      );
+    });
+
+    it("Should read blocks from a CAR file", async function () {
+      const bytes = bytesOf(meta);
+      const cid = rawCid(bytes);
+      const header = [0xa1, 0x67, ...new TextEncoder().encode("version"), 0x01];
+      const section = [...cid.bytes, ...bytes];
+      fs.writeFileSync(
+        path.join(dir, "meta.car"),
+        Uint8Array.from([header.length, ...header, section.length, ...section])
+      );
+      const doc = await createCidMetaSource({ dir }).fetch(SURVEY, 1, canonicalHash(meta));
+      expect(doc?.cid).to.equal(cidToString(cid));
+    });
+
+    it("Should fetch pointed-to blocks from a gateway", async function () {
+      const bytes = bytesOf(meta);
+      const cid = cidToString(rawCid(bytes));
+      const server = http.createServer((req, res) => {
+        if (req.url === `/ipfs/${cid}?format=raw`) res.end(Buffer.from(bytes));
+        else res.writeHead(404).end();
+      });
+      await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+      try {
+        const hash = "0x" + "ab".repeat(32);
+        fs.writeFileSync(path.join(dir, "cids.json"), JSON.stringify({ [hash]: cid }));
+        const gateway = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        const doc = await createCidMetaSource({ dir, gateway }).fetch(SURVEY, 1, hash);
+        expect(doc).to.deep.include({ meta, cid });
+      } finally {
+        server.close();
+      }
+    });
+  });
+});
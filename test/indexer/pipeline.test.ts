@@ -0,0 +1,284 @@
+import { expect } from "chai";
+import { ZeroAddress, ZeroHash } from "ethers";
+import {
+  applyMeta,
+  applySurveyEvent,
+  buildCard,
+  canonicalHash,
+  computeFundingState,
+  computeStatus,
+  FundingState,
+  judgeFunding,
+  LedgerEntry,
+  nextStatusChange,
+  normalizePredicates,
+  rollbackLedger,
+  StatusInput,
+  statusTimes,
+  SurveyCard,
+  SurveyMap,
+  SurveyRecord,
+  SurveyStatus,
+  validateMeta,
+} from "../../backend/indexer";
+import { CREATOR, SURVEY } from "./fixtures";
+
+describe("indexer pipeline", function () {
+  describe("normalizePredicates", function () {
+    it("Should map the known meta keys to predicates", function () {
+      expect(
+        normalizePredicates({
+          age: { gte: "18", lte: 65 },
+          country: { in: ["DE", "FR"] },
+          human: 1,
+        })
+      ).to.deep.equal([
+        { key: "age", op: ">=", value: 18 },
+        { key: "age", op: "<=", value: 65 },
+        { key: "country", op: "in", value: ["DE", "FR"] },
+        { key: "human", op: "==", value: true },
+      ]);
+      expect(normalizePredicates(null)).to.deep.equal([]);
+    });
+  });
+
+  describe("survey lifecycle", function () {
+    // start 100, end 200; finalized at 250 with claims from 300 to 400
+    const base = { createdSec: 50, startSec: 100, endSec: 200 };
+    const final = { ...base, finalizedSec: 250, claimOpenAt: 300, claimDeadline: 400 };
+    const swept = { ...final, prizeSwept: "7", prizeLiveBalance: "0", sweptSec: 350 };
+
+    const table: [string, StatusInput, number, SurveyStatus][] = [
+      ["before start", base, 99, "upcoming"],
+      ["at start", base, 100, "active"],
+      ["just before end", base, 199, "active"],
+      ["at end", base, 200, "awaiting_finalization"],
+      ["long after end, not finalized", base, 10_000, "awaiting_finalization"],
+      ["finalized, claims not open yet", final, 260, "finalized"],
+      ["claims open", final, 300, "claim_open"],
+      ["claims closed", final, 400, "claim_closed"],
+      ["finalized without a claim window", { ...base, finalizedSec: 250 }, 10_000, "finalized"],
+      ["deadline only: open from finalization", { ...base, finalizedSec: 250, claimDeadline: 400 }, 250, "claim_open"],
+      ["prize swept", swept, 350, "swept"],
+      ["swept beats a closed window", swept, 500, "swept"],
+      ["partly swept", { ...swept, prizeLiveBalance: "1" }, 350, "claim_open"],
+      ["no time window", {}, 100, "active"],
+    ];
+    for (const [name, input, now, status] of table) {
+      it(`Should be ${status}: ${name}`, function () {
+        expect(computeStatus(input, now)).to.equal(status);
+      });
+    }
+
+    it("Should time every transition and the next clock-driven one", function () {
+      expect(statusTimes(base)).to.deep.equal({
+        upcoming: 50,
+        active: 100,
+        awaiting_finalization: 200,
+      });
+      expect(statusTimes(swept)).to.deep.equal({
+        upcoming: 50,
+        active: 100,
+        awaiting_finalization: 200,
+        finalized: 250,
+        claim_open: 300,
+        claim_closed: 400,
+        swept: 350,
+      });
+      const card = (s: StatusInput) => ({ statusTimes: statusTimes(s) }) as SurveyCard;
+      expect(nextStatusChange([card(base), card(final)], 150)).to.equal(200);
+      expect(nextStatusChange([card(final)], 300)).to.equal(400);
+      expect(nextStatusChange([card(final)], 400)).to.equal(0);
+    });
+
+    const fundingTable: [string, SurveyRecord, FundingState][] = [
+      ["nothing funded", { plannedRewardOnchainWei: "5" }, "unfunded"],
+      ["below the planned reward", { plannedRewardOnchainWei: "5", prizeFunded: "3" }, "partial"],
+      ["planned reward reached", { plannedRewardOnchainWei: "5", prizeFunded: "5" }, "funded"],
+      ["funded via the treasury", { plannedRewardOnchainWei: "5", fundedAmountWei: "9" }, "funded"],
+      ["no planned reward", { prizeFunded: "1" }, "funded"],
+      ["swept", { prizeFunded: "5", prizeSwept: "5", prizeLiveBalance: "0" }, "swept"],
+    ];
+    for (const [name, rec, state] of fundingTable) {
+      it(`Should report funding ${state}: ${name}`, function () {
+        expect(computeFundingState(rec)).to.equal(state);
+      });
+    }
+  });
+
+  describe("applyMeta", function () {
+    const meta = { title: "Poll", plannedReward: "0.5", gate: { addr: "0xAbC" } };
+
+    it("Should accept meta whose canonical hash matches metaHash", function () {
+      const rec = applyMeta(
+        { metaHash: canonicalHash(meta) },
+        { meta, url: "u" },
+        { metaUrl: "fallback" }
+      );
+      expect(rec.metaValid).to.equal(true);
+      expect(rec.title).to.equal("Poll");
+      expect(rec.plannedRewardWei).to.equal("500000000000000000");
+      expect(rec.metaUrl).to.equal("u");
+      expect(rec.gate?.addr).to.equal("0xabc");
+      expect(rec.meta).to.deep.equal(meta);
+    });
+
+    it("Should flag a hash mismatch and fall back when meta is missing", function () {
+      expect(
+        applyMeta({ metaHash: ZeroHash }, { meta, url: "u" }, { metaUrl: "f" })
+          .metaValid
+      ).to.equal(false);
+      const missing = applyMeta({}, null, { metaUrl: "f", gateAddrHint: "0xg" });
+      expect(missing).to.include({ metaValid: false, title: "Untitled", metaUrl: "f" });
+      expect(missing.gate?.addr).to.equal("0xg");
+      expect(missing.metaIssues?.map((i) => i.code)).to.deep.equal(["missing"]);
+    });
+
+    it("Should take the gate from the chain over meta and the hint", function () {
+      const doc = { meta, url: "u" };
+      const opts = { metaUrl: "f", gateAddrHint: "0xg" };
+      const gated = applyMeta({ metaHash: canonicalHash(meta), onchainGate: "0xdef" }, doc, opts);
+      expect(gated.gate?.addr).to.equal("0xdef");
+      const open = applyMeta({ metaHash: canonicalHash(meta), onchainGate: ZeroAddress }, doc, opts);
+      expect(open.gate).to.equal(undefined);
+    });
+
+    it("Should list a hash mismatch and a plannedReward the chain disagrees with", function () {
+      const rec = applyMeta(
+        { metaHash: ZeroHash, plannedRewardOnchainWei: "1000000000000000000" },
+        { meta, url: "u" },
+        { metaUrl: "f" }
+      );
+      const byCode = Object.fromEntries(rec.metaIssues!.map((i) => [i.code, i]));
+      expect(byCode.hash_mismatch).to.include({
+        expected: ZeroHash,
+        actual: canonicalHash(meta),
+      });
+      expect(byCode.planned_reward_mismatch).to.include({
+        expected: "1000000000000000000",
+        actual: "500000000000000000",
+      });
+      expect(byCode.schema).to.include({ path: "gate.addr" });
+      expect(buildCard(SURVEY, rec, 534351).metaIssues).to.have.length(3);
+    });
+  });
+
+  describe("validateMeta", function () {
+    it("Should accept a complete document", function () {
+      expect(
+        validateMeta({
+          title: "Poll",
+          summary: "",
+          image: "ipfs://bafy",
+          plannedReward: 0.25,
+          gate: { addr: "0x" + "11".repeat(20), epoch: 3 },
+          predicates: { age: { gte: 18 } },
+          questions: [{ text: "Ready?", options: ["yes", "no"], selectionType: 0 }],
+          locale: "pt-BR",
+          extra: true,
+        })
+      ).to.deep.equal([]);
+    });
+
+    it("Should point at every field that violates the schema", function () {
+      const issues = validateMeta({
+        summary: 5,
+        image: "ftp://x",
+        plannedReward: "lots",
+        predicates: { shoe_size: 42 },
+        questions: [{ options: ["a", 1] }],
+        locale: "english please",
+      });
+      expect(issues.map((i) => [i.code, i.path])).to.deep.equal([
+        ["schema", "title"],
+        ["schema", "summary"],
+        ["schema", "image"],
+        ["schema", "locale"],
+        ["schema", "plannedReward"],
+        ["schema", "predicates.shoe_size"],
+        ["schema", "questions[0].text"],
+        ["schema", "questions[0].options[1]"],
+      ]);
+      expect(validateMeta([])[0].message).to.equal("expected an object, got array");
+    });
+  });
+
+  describe("rollbackLedger", function () {
+    it("Should drop entries above the ancestor and replay the rest", function () {
+      const base = { survey: SURVEY, ts: 1, tx: "0x" };
+      const entries: LedgerEntry[] = [
+        { t: "PrizeFunded", ...base, block: 5, funder: CREATOR, amount: "7" },
+        { t: "Voted", ...base, block: 6, voter: CREATOR },
+        { t: "PrizeFunded", ...base, block: 9, funder: CREATOR, amount: "3" },
+      ];
+      const surveys: SurveyMap = { [SURVEY]: { eventsBlock: 9 } };
+      for (const e of entries) applySurveyEvent(surveys[SURVEY], e);
+      expect(surveys[SURVEY].prizeFunded).to.equal("10");
+
+      const { kept, dropped } = rollbackLedger(entries, 6, surveys);
+      expect(kept).to.have.length(2);
+      expect(dropped).to.have.length(1);
+      expect(surveys[SURVEY]).to.include({
+        prizeFunded: "7",
+        participants: 1,
+        eventsBlock: 6,
+      });
+    });
+  });
+
+  describe("judgeFunding", function () {
+    const ctx = {
+      surveys: { [SURVEY]: {} },
+      latest: 20,
+      minConf: 2,
+      treasurySafe: "",
+    };
+    const sub = { survey: SURVEY, txHash: "0x" + "a".repeat(64) };
+    const tx = { to: SURVEY, from: CREATOR, value: 5n };
+
+    it("Should accept a confirmed transfer to the survey", function () {
+      const v = judgeFunding(sub, tx, { blockNumber: 15, status: 1 }, ctx);
+      expect(v).to.include({ status: "accepted", toKind: "survey", amountWei: "5" });
+    });
+
+    it("Should keep unconfirmed transfers pending and reject wrong recipients", function () {
+      expect(
+        judgeFunding(sub, tx, { blockNumber: 20, status: 1 }, ctx).status
+      ).to.equal("pending");
+      expect(
+        judgeFunding(sub, { ...tx, to: CREATOR }, { blockNumber: 15, status: 1 }, ctx)
+          .status
+      ).to.equal("rejected");
+    });
+
+    it("Should only credit treasury transfers sent by the survey creator", function () {
+      const treasury = "0x" + "7".repeat(40);
+      const tctx = { ...ctx, surveys: { [SURVEY]: { creator: CREATOR } }, treasurySafe: treasury };
+      const receipt = { blockNumber: 15, status: 1 };
+      expect(judgeFunding(sub, { ...tx, to: treasury }, receipt, tctx)).to.include({
+        status: "accepted",
+        toKind: "treasury",
+      });
+      const stranger = "0x" + "8".repeat(40);
+      expect(judgeFunding(sub, { ...tx, to: treasury, from: stranger }, receipt, tctx)).to.include({
+        status: "rejected",
+        reason: `sender ${stranger} is not the survey creator ${CREATOR}`,
+      });
+    });
+  });
+
+  describe("buildCard", function () {
+    it("Should fill defaults for a bare record", function () {
+      const card = buildCard(SURVEY.toUpperCase(), { start: 100, end: 200 }, 534351, 150);
+      expect(card).to.include({
+        address: SURVEY,
+        status: "active",
+        title: "Untitled",
+        prizeFunded: "0",
+        participants: 0,
+        funded: false,
+        chainId: 534351,
+      });
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { expect } from "chai";
+import { ZeroAddress, ZeroHash } from "ethers";
+import {
+  ChainConfig,
+  createChainSource,
+  createMemorySink,
+  IndexerConfig,
+  MergedOutput,
+  MetaSource,
+  runAllChains,
+  runIndexer,
+} from "../../backend/indexer";
+import { buildResults, resultsHash } from "../../backend/results";
+import {
+  CREATOR,
+  FACTORY,
+  FACTORY2,
+  fakeProvider,
+  FakeProvider,
+  GATE,
+  lifecycleTally,
+  makeLog,
+  SURVEY,
+  surveyLifecycle,
+  testChain,
+  testConfig,
+} from "./fixtures";
+
+const noMeta: MetaSource = {
+  urlFor: (s, c) => `/meta/${c}/${s}.json`,
+  fetch: async () => null,
+};
+
+function run(
+  provider: FakeProvider,
+  sink = createMemorySink(),
+  over: Partial<IndexerConfig> = {},
+  chainOver: Partial<ChainConfig> = {}
+) {
+  const config = testConfig(over);
+  return runIndexer({
+    config,
+    chain: testChain(chainOver),
+    source: createChainSource(provider, {
+      retries: config.rpcRetries,
+      backoffMs: config.rpcBackoffMs,
+    }),
+    meta: noMeta,
+    store: sink,
+    sinks: [sink],
+  });
+}
+
+describe("runIndexer (offline)", function () {
+  it("Should index a survey and its lifecycle events", async function () {
+    const sink = createMemorySink();
+    const out = await run(fakeProvider(surveyLifecycle()), sink);
+
+    expect(out.state.lastBlock).to.equal(18);
+    expect(out.list).to.have.length(1);
+    expect(out.list[0]).to.include({
+      address: SURVEY,
+      participants: 1,
+      prizeFunded: "7",
+      prizeSwept: "7",
+      prizeLiveBalance: "0",
+      claimDeadline: 400,
+      status: "swept",
+      fundingState: "swept",
+    });
+    expect(out.list[0].questions).to.deep.equal([
+      { index: 0, text: "Do you like zk?" },
+    ]);
+    expect(sink.ledger.map((e) => e.t)).to.deep.equal([
+      "SurveyDeployed",
+      "PrizeFunded",
+      "QuestionAdded",
+      "Voted",
+      "Finalized",
+      "PrizeSwept",
+    ]);
+  });
+
+  it("Should check the tally of a finalized survey against resultsHash", async function () {
+    const results = buildResults({
+      chainId: testChain().chainId,
+      survey: SURVEY,
+      participants: 1,
+      questions: lifecycleTally(),
+    });
+    const logs = surveyLifecycle().map((l) =>
+      l.blockNumber === 13
+        ? makeLog(SURVEY, "Finalized", [SURVEY, 1, ZeroHash, resultsHash(results), 300, 400], 13)
+        : l
+    );
+    const out = await run(fakeProvider(logs));
+    expect(out.list[0].resultsVerified).to.equal(true);
+    expect(out.surveys[SURVEY].results).to.deep.equal(results);
+
+    const bad = await run(fakeProvider(surveyLifecycle()));
+    expect(bad.list[0]).to.include({
+      resultsVerified: false,
+      resultsComputedHash: resultsHash(results),
+    });
+  });
+
+  it("Should not double-count events when windows overlap", async function () {
+    const sink = createMemorySink();
+    const provider = fakeProvider(surveyLifecycle());
+    await run(provider, sink, { onlyLastBlocks: 100 });
+    const out = await run(provider, sink, { onlyLastBlocks: 100 });
+    expect(out.surveys[SURVEY].participants).to.equal(1);
+    expect(out.surveys[SURVEY].prizeFunded).to.equal("7");
+    expect(sink.ledger).to.have.length(6);
+  });
+
+  it("Should stay MIN_CONF blocks behind head", async function () {
+    const provider = fakeProvider(surveyLifecycle(), 14);
+    const out = await run(provider, createMemorySink(), {}, { minConf: 2 });
+    expect(out.state.lastBlock).to.equal(12);
+    expect(out.surveys[SURVEY].finalizedAt).to.equal(undefined);
+  });
+
+  it("Should roll back and rescan after a reorg", async function () {
+    const sink = createMemorySink();
+    const provider = fakeProvider(surveyLifecycle());
+    await run(provider, sink);
+
+    // blocks >= 12 are replaced; the vote and finalization are gone
+    provider.forkAt = 12;
+    provider.logs = provider.logs.filter((l) => l.blockNumber < 12);
+    const out = await run(provider, sink);
+
+    expect(sink.ledger.map((e) => e.t)).to.deep.equal([
+      "SurveyDeployed",
+      "PrizeFunded",
+      "QuestionAdded",
+    ]);
+    expect(out.surveys[SURVEY].participants).to.equal(undefined);
+    expect(out.surveys[SURVEY].finalizedAt).to.equal(undefined);
+    expect(out.surveys[SURVEY].prizeFunded).to.equal("7");
+  });
+
+  it("Should split ranges the RPC rejects as too large", async function () {
+    const provider = fakeProvider(surveyLifecycle());
+    provider.maxRange = 4;
+    const out = await run(provider);
+    expect(out.state.gaps).to.deep.equal([]);
+    expect(out.surveys[SURVEY].participants).to.equal(1);
+  });
+
+  it("Should journal a failing range and not advance past it", async function () {
+    const sink = createMemorySink();
+    const provider = fakeProvider(surveyLifecycle());
+    provider.failBlock = 12;
+    let out = await run(provider, sink, { batch: 5 });
+    expect(out.state.lastBlock).to.equal(10);
+    expect(out.state.gaps!.map((g) => [g.scope, g.from, g.attempts])).to.deep.equal([
+      [`factory:${FACTORY}`, 11, 1],
+      ["surveys", 11, 1],
+    ]);
+
+    delete provider.failBlock;
+    out = await run(provider, sink, { batch: 5 });
+    expect(out.state.gaps).to.deep.equal([]);
+    expect(out.state.lastBlock).to.equal(18);
+    expect(out.surveys[SURVEY].participants).to.equal(1);
+  });
+
+  it("Should verify funding submissions into balances", async function () {
+    const txHash = "0x" + "a".repeat(64);
+    const provider = fakeProvider(surveyLifecycle());
+    provider.txs[txHash] = {
+      tx: { to: SURVEY, from: SURVEY, value: 5n },
+      receipt: { blockNumber: 15, status: 1 },
+    };
+    const sink = createMemorySink({
+      submissions: [
+        { survey: SURVEY, txHash },
+        { survey: SURVEY, txHash: "0x" + "b".repeat(64) },
+      ],
+    });
+    const out = await run(provider, sink);
+    expect(out.balances[SURVEY].fundedWei).to.equal("5");
+    expect(out.list[0]).to.include({ funded: true, fundingTxHash: txHash });
+    expect(out.verdicts[`${SURVEY}:0x${"b".repeat(64)}`].status).to.equal("pending");
+  });
+
+  it("Should keep a cursor per factory and backfill a new one", async function () {
+    const SURVEY2 = "0x4444444444444444444444444444444444444444";
+    const provider = fakeProvider([
+      ...surveyLifecycle(),
+      makeLog(FACTORY2, "SurveyDeployed", [SURVEY2, CREATOR, 100, 200, 0, ZeroHash, 0, 0], 5),
+      makeLog(SURVEY2, "Voted", [CREATOR], 6),
+    ]);
+    const sink = createMemorySink();
+    await run(provider, sink);
+
+    // the second factory is added later with its own start block
+    provider.head = 25;
+    const out = await run(provider, sink, {}, {
+      factories: [
+        { address: FACTORY, startBlock: 0 },
+        { address: FACTORY2, startBlock: 5 },
+      ],
+    });
+    expect(out.state.cursors).to.deep.equal({
+      [`factory:${FACTORY}`]: 23,
+      [`factory:${FACTORY2}`]: 23,
+      surveys: 23,
+    });
+    expect(out.surveys[SURVEY2]).to.include({ factory: FACTORY2, participants: 1 });
+    expect(out.surveys[SURVEY].participants).to.equal(1);
+  });
+
+  it("Should count gate attestations and report reused uHashes", async function () {
+    const SURVEY2 = "0x6666666666666666666666666666666666666666";
+    const W2 = "0x7777777777777777777777777777777777777777";
+    const W3 = "0x8888888888888888888888888888888888888888";
+    const H1 = "0x" + "01".repeat(32);
+    const H2 = "0x" + "02".repeat(32);
+    const provider = fakeProvider([
+      ...surveyLifecycle(),
+      makeLog(FACTORY, "SurveyDeployed", [SURVEY2, CREATOR, 100, 200, 0, ZeroHash, 0, 0], 10, 2),
+      makeLog(GATE, "EligibilityAttested", [CREATOR, SURVEY, H1], 11, 1),
+      makeLog(GATE, "EligibilityAttested", [W2, SURVEY, H1], 11, 2),
+      makeLog(GATE, "EligibilityAttested", [W3, SURVEY2, H2], 11, 3),
+      makeLog(GATE, "EligibilityAttested", [W3, SURVEY, H2], 11, 4),
+    ]);
+    const sink = createMemorySink();
+    await run(provider, sink, {}, { gates: [GATE] });
+    // a second run over the same window adds nothing
+    const out = await run(provider, sink, {}, { gates: [GATE] });
+
+    expect(out.state.cursors?.[`gate:${GATE}`]).to.equal(18);
+    expect(out.surveys[SURVEY].attestations).to.deep.equal({
+      eligible: 3,
+      voted: 1,
+      conversion: 0.3333,
+    });
+    expect(out.list.find((c) => c.address === SURVEY2)?.attestations).to.deep.equal({
+      eligible: 1,
+      voted: 0,
+      conversion: 0,
+    });
+    expect(out.attestations.gates).to.deep.equal([GATE]);
+    expect(out.attestations.uHashReuse.map((r) => [r.uHash, r.wallets.length, r.surveys.length]))
+      .to.deep.equal([
+        [H1, 2, 1],
+        [H2, 1, 2],
+      ]);
+  });
+
+  it("Should read each survey's gate from the contract once", async function () {
+    const provider = fakeProvider(surveyLifecycle());
+    provider.gates[SURVEY] = GATE;
+    const sink = createMemorySink();
+    const out = await run(provider, sink);
+    expect(out.list[0].onchainGate).to.equal(GATE);
+    expect(out.list[0].gate?.addr).to.equal(GATE);
+
+    provider.gates[SURVEY] = ZeroAddress;
+    expect((await run(provider, sink)).list[0].onchainGate).to.equal(GATE);
+  });
+
+  it("Should merge chains and survive one failing chain", async function () {
+    const STALE = "0x5555555555555555555555555555555555555555";
+    const good = testChain();
+    const bad = testChain({ chainId: 1, name: "Mainnet" });
+    const broken = fakeProvider([]);
+    broken.getBlockNumber = async () => {
+      throw new Error("rpc down");
+    };
+    const stale = createMemorySink({
+      surveys: { [STALE]: { creator: CREATOR, createdAt: 1 } },
+    });
+    const captured: MergedOutput[] = [];
+
+    const out = await runAllChains({
+      config: testConfig({ chains: [good, bad] }),
+      meta: noMeta,
+      depsFor(chain) {
+        const sink = chain.chainId === 1 ? stale : createMemorySink();
+        const provider =
+          chain.chainId === 1 ? broken : fakeProvider(surveyLifecycle());
+        return {
+          source: createChainSource(provider, { retries: 1, backoffMs: 0 }),
+          store: sink,
+          sinks: [sink],
+        };
+      },
+      merged: [{ writeMerged: async (m) => void captured.push(m) }],
+    });
+
+    expect(out.chains.map((c) => c.state.chainId)).to.deep.equal([good.chainId]);
+    expect(out.list.map((c) => [c.chainId, c.address])).to.deep.equal([
+      [good.chainId, SURVEY],
+      [1, STALE],
+    ]);
+    expect(captured).to.have.length(1);
+  });
+});
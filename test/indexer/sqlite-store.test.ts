@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  createChainSource,
+  createFsSink,
+  createSqliteStore,
+  factoryCursor,
+  IndexerStore,
+  MetaSource,
+  openSqlite,
+  OutputSink,
+  outputFiles,
+  runIndexer,
+  SqliteDb,
+} from "../../backend/indexer";
+import {
+  FACTORY,
+  fakeProvider,
+  SURVEY,
+  surveyLifecycle,
+  testChain,
+  testConfig,
+} from "./fixtures";
+
+const noMeta: MetaSource = {
+  urlFor: (s, c) => `/meta/${c}/${s}.json`,
+  fetch: async () => null,
+};
+const CHAIN = testChain().chainId;
+
+function run(
+  store: IndexerStore & OutputSink,
+  batch = 1000,
+  provider = fakeProvider(surveyLifecycle())
+) {
+  return runIndexer({
+    config: testConfig({ onlyLastBlocks: 100, batch }),
+    chain: testChain(),
+    source: createChainSource(provider, { retries: 1, backoffMs: 0 }),
+    meta: noMeta,
+    store,
+    sinks: [store],
+  });
+}
+
+describe("createSqliteStore", function () {
+  let dir: string;
+  let db: SqliteDb;
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-sqlite-"));
+    db = openSqlite(":memory:");
+  });
+  afterEach(function () {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const read = (root: string, file: keyof ReturnType<typeof outputFiles>) =>
+    fs.readFileSync(outputFiles(path.join(root, String(CHAIN)))[file], "utf8");
+
+  it("Should export the JSON layout of the file store", async function () {
+    const jsonRoot = path.join(dir, "json");
+    const sqlRoot = path.join(dir, "sqlite");
+    const fsSink = createFsSink(jsonRoot, CHAIN);
+    const store = createSqliteStore(db, sqlRoot, CHAIN);
+    for (let i = 0; i < 2; i++) {
+      await run(fsSink);
+      await run(store);
+    }
+
+    expect(read(sqlRoot, "LEDGER")).to.equal(read(jsonRoot, "LEDGER"));
+    expect(JSON.parse(read(sqlRoot, "SURV"))).to.deep.equal(JSON.parse(read(jsonRoot, "SURV")));
+    expect(JSON.parse(read(sqlRoot, "STATE")).cursors).to.deep.equal(
+      JSON.parse(read(jsonRoot, "STATE")).cursors
+    );
+    expect(JSON.parse(read(sqlRoot, "LIST"))[0]).to.include({ address: SURVEY, participants: 1 });
+    const counts = db
+      .prepare("SELECT type, count(*) AS n FROM events GROUP BY type ORDER BY type")
+      .all();
+    expect(counts).to.have.length(6);
+    expect(counts.every((c: any) => c.n === 1)).to.equal(true);
+  });
+
+  it("Should resume from the last committed window without re-applying it", async function () {
+    const store = createSqliteStore(db, dir, CHAIN);
+    const crashing = {
+      ...store,
+      commitBatch(batch: Parameters<typeof store.commitBatch>[0]) {
+        const n = store.commitBatch(batch);
+        if (batch.entries.some((e) => e.t === "Voted")) throw new Error("killed");
+        return n;
+      },
+    };
+    try {
+      await run(crashing, 5);
+      expect.fail("the run should have been interrupted");
+    } catch (e) {
+      expect((e as Error).message).to.equal("killed");
+    }
+    // the window holding the vote (10-14) was committed before the crash
+    expect(store.loadSurveys()[SURVEY]).to.include({ participants: 1, eventsBlock: 14 });
+
+    const out = await run(store, 5);
+    expect(out.surveys[SURVEY]).to.include({ participants: 1, prizeFunded: "7" });
+    expect(store.readLedger()).to.have.length(6);
+  });
+
+  it("Should commit block checkpoints with each window's cursor", async function () {
+    const store = createSqliteStore(db, dir, CHAIN);
+    const provider = fakeProvider(surveyLifecycle());
+    const crashing = {
+      ...store,
+      commitBatch(batch: Parameters<typeof store.commitBatch>[0]) {
+        const n = store.commitBatch(batch);
+        if (batch.entries.some((e) => e.t === "Voted")) throw new Error("killed");
+        return n;
+      },
+    };
+    await run(crashing, 5, provider).catch(() => undefined);
+    const state = store.loadState();
+    expect(state.cursors?.[factoryCursor(FACTORY)]).to.equal(18);
+    expect(state.blockHashes?.map((cp) => cp.n)).to.include.members([4, 9, 14, 18]);
+
+    // blocks >= 12 are replaced before the restart
+    provider.forkAt = 12;
+    provider.logs = provider.logs.filter((l) => l.blockNumber < 12);
+    const out = await run(store, 5, provider);
+    expect(out.surveys[SURVEY].participants).to.equal(undefined);
+    expect(store.readLedger().map((e) => e.t)).to.deep.equal([
+      "SurveyDeployed",
+      "PrizeFunded",
+      "QuestionAdded",
+    ]);
+  });
+
+  it("Should import an existing JSON partition into an empty database", async function () {
+    const fsSink = createFsSink(dir, CHAIN);
+    const out = await run(fsSink);
+
+    const store = createSqliteStore(db, dir, CHAIN);
+    expect(store.loadSurveys()).to.deep.equal(JSON.parse(JSON.stringify(out.surveys)));
+    expect(store.loadState().cursors).to.deep.equal(out.state.cursors);
+    expect(store.readLedger()).to.deep.equal(fsSink.readLedger());
+  });
+
+  it("Should rename the uHash column of an older database", function () {
+    const file = path.join(dir, "old.sqlite");
+    const old = openSqlite(file);
+    old.exec(
+      "DROP INDEX attestations_by_u_hash; ALTER TABLE attestations RENAME COLUMN u_hash TO nullifier"
+    );
+    old.prepare("INSERT INTO attestations VALUES (1, '0x1', 0, 1, 1, 'g', 's', 'u', '0xab')").run();
+    old.close();
+
+    const reopened = openSqlite(file);
+    try {
+      expect(reopened.prepare("SELECT u_hash FROM attestations").all()).to.deep.equal([
+        { u_hash: "0xab" },
+      ]);
+      const plan = reopened
+        .prepare("EXPLAIN QUERY PLAN SELECT * FROM attestations WHERE chain_id = 1 AND u_hash = ?")
+        .all("0xab") as { detail: string }[];
+      expect(plan.map((p) => p.detail).join()).to.include("attestations_by_u_hash");
+    } finally {
+      reopened.close();
+    }
+  });
+});
@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import {
+  createChainSource,
+  createMemorySink,
+  createWatcher,
+  MergedOutput,
+  MetaSource,
+  serveHealth,
+} from "../../backend/indexer";
+import { fakeProvider, SURVEY, surveyLifecycle, testConfig } from "./fixtures";
+
+describe("watch mode (offline)", function () {
+  function setup(head = 20) {
+    const provider = fakeProvider(surveyLifecycle(), head);
+    const sink = createMemorySink();
+    const merged: MergedOutput[] = [];
+    const meta: MetaSource = {
+      urlFor: (s, c) => `/meta/${c}/${s}.json`,
+      fetch: async () => null,
+    };
+    const config = testConfig({ batch: 5 });
+    const watcher = createWatcher({
+      config,
+      meta,
+      depsFor: () => ({
+        source: createChainSource(provider, { retries: 1, backoffMs: 0 }),
+        store: sink,
+        sinks: [sink],
+      }),
+      merged: [{ writeMerged: async (m) => void merged.push(m) }],
+    });
+    return { provider, sink, merged, watcher };
+  }
+
+  it("Should catch up one batch per tick and persist each", async function () {
+    const { sink, watcher } = setup();
+    const behind: boolean[] = [];
+    for (let i = 0; i < 4; i++) behind.push(await watcher.tick());
+
+    expect(sink.outputs.map((o) => o.state.lastBlock)).to.deep.equal([5, 10, 15, 18]);
+    expect(behind).to.deep.equal([true, true, true, false]);
+    expect(sink.state.cursors!.surveys).to.equal(18);
+    expect(sink.surveys[SURVEY].participants).to.equal(1);
+  });
+
+  it("Should skip ticks while head does not move", async function () {
+    const { provider, sink, merged, watcher } = setup();
+    for (let i = 0; i < 4; i++) await watcher.tick();
+    await watcher.tick();
+    expect(sink.outputs).to.have.length(4);
+
+    provider.head = 21;
+    await watcher.tick();
+    expect(sink.outputs).to.have.length(5);
+    expect(merged).to.have.length(5);
+    expect(merged[4].list[0].address).to.equal(SURVEY);
+  });
+
+  it("Should checkpoint the new fork after a reorg between ticks", async function () {
+    const { provider, sink, watcher } = setup();
+    for (let i = 0; i < 4; i++) await watcher.tick();
+
+    provider.forkAt = 12;
+    provider.logs = provider.logs.filter((l) => l.blockNumber < 12);
+    provider.head = 21;
+    for (let i = 0; i < 3; i++) await watcher.tick();
+
+    expect(sink.state.lastBlock).to.equal(19);
+    for (const cp of sink.state.blockHashes!) {
+      expect(cp.hash, `block ${cp.n}`).to.equal((await provider.getBlock(cp.n))!.hash);
+    }
+    expect(sink.ledger.map((e) => e.t)).to.deep.equal([
+      "SurveyDeployed",
+      "PrizeFunded",
+      "QuestionAdded",
+    ]);
+  });
+
+  it("Should report lag behind head on /health", async function () {
+    const { provider, watcher } = setup();
+    await watcher.tick();
+    const server = await serveHealth(watcher, 0);
+    try {
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/health`;
+      let res = await fetch(url);
+      expect(res.status).to.equal(200);
+      let body = await res.json();
+      expect(body.chains[0]).to.include({ head: 20, lastBlock: 5, lag: 15 });
+
+      provider.head = 500;
+      await watcher.tick();
+      res = await fetch(url);
+      body = await res.json();
+      expect(res.status).to.equal(503);
+      expect(body.ok).to.equal(false);
+      expect(body.chains[0].lag).to.equal(490);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("Should stop polling when aborted", async function () {
+    const { watcher } = setup();
+    const stop = new AbortController();
+    const done = watcher.run(stop.signal);
+    setTimeout(() => stop.abort(), 20);
+    await done;
+    expect(watcher.health().ticks).to.be.greaterThan(0);
+  });
+});
@@ -0,0 +1,144 @@
+import { expect } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  buildCard,
+  createMemoryPushStore,
+  createWorkerSink,
+  IndexerOutput,
+  MergedOutput,
+  SurveyCard,
+} from "../../backend/indexer";
+import { SURVEY } from "./fixtures";
+
+// Minimal Worker: versioned list, 409 on a stale x-list-version.
+function fakeWorker() {
+  const w = {
+    version: 0,
+    list: [] as SurveyCard[],
+    meta: {} as Record<string, unknown>,
+    calls: [] as string[],
+    down: false,
+    server: null as unknown as http.Server,
+    base: "",
+  };
+  w.server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (c) => (raw += c));
+    req.on("end", () => {
+      const route = req.url || "";
+      w.calls.push(route);
+      const send = (code: number, body: unknown = {}) =>
+        res.writeHead(code, { "content-type": "application/json" }).end(JSON.stringify(body));
+      if (w.down) return send(503, { error: "down" });
+      const body = JSON.parse(raw || "null");
+      if (route === "/admin/meta.put") {
+        w.meta[`${body.chainId}:${body.survey}`] = body.meta;
+        return send(200, { ok: true });
+      }
+      if (route === "/admin/list.replace") {
+        w.list = body;
+        return send(200, { version: ++w.version });
+      }
+      if (route === "/admin/list.upsert") {
+        const expected = req.headers["x-list-version"];
+        if (expected && Number(expected) !== w.version) {
+          return send(409, { version: w.version });
+        }
+        w.list = w.list.filter((c) => c.address !== body.address).concat(body);
+        return send(200, { version: ++w.version });
+      }
+      send(404);
+    });
+  });
+  return w;
+}
+
+function merged(cards: SurveyCard[], meta?: unknown): MergedOutput {
+  const chain = {
+    state: { chainId: 534351, lastBlock: 1 },
+    list: cards,
+    surveys: Object.fromEntries(cards.map((c) => [c.address, { meta }])),
+  } as unknown as IndexerOutput;
+  return { list: cards, chains: [chain], updatedAt: 1 };
+}
+
+describe("createWorkerSink", function () {
+  let w: ReturnType<typeof fakeWorker>;
+
+  beforeEach(async function () {
+    w = fakeWorker();
+    await new Promise<void>((r) => w.server.listen(0, "127.0.0.1", r));
+    w.base = `http://127.0.0.1:${(w.server.address() as AddressInfo).port}`;
+  });
+  afterEach(function () {
+    w.server.close();
+  });
+
+  const card = (over: Partial<SurveyCard> = {}) => ({
+    ...buildCard(SURVEY, { creator: SURVEY, metaValid: true }, 534351, 0),
+    ...over,
+  });
+
+  it("Should replace once, then upsert only changed cards", async function () {
+    const store = createMemoryPushStore();
+    const sink = createWorkerSink(w.base, "t", store);
+    const meta = { title: "Hello" };
+
+    await sink.writeMerged(merged([card()], meta));
+    expect(w.calls).to.deep.equal(["/admin/meta.put", "/admin/list.replace"]);
+
+    w.calls = [];
+    await sink.writeMerged(merged([card()], meta));
+    expect(w.calls).to.deep.equal([]);
+
+    await sink.writeMerged(merged([card({ participants: 3 })], meta));
+    expect(w.calls).to.deep.equal(["/admin/list.upsert"]);
+    expect(w.list[0].participants).to.equal(3);
+    expect(store.state.version).to.equal("2");
+  });
+
+  it("Should keep failed pushes in the outbox and retry them", async function () {
+    const store = createMemoryPushStore();
+    const sink = createWorkerSink(w.base, "t", store);
+    await sink.writeMerged(merged([card()]));
+
+    w.down = true;
+    await sink.writeMerged(merged([card({ participants: 1 })]));
+    expect(store.state.outbox.map((i) => [i.kind, i.attempts])).to.deep.equal([
+      ["card", 1],
+    ]);
+
+    w.down = false;
+    w.calls = [];
+    await sink.writeMerged(merged([card({ participants: 1 })]));
+    expect(w.calls).to.deep.equal(["/admin/list.upsert"]);
+    expect(store.state.outbox).to.deep.equal([]);
+  });
+
+  it("Should fall back to list.replace on a version mismatch", async function () {
+    const store = createMemoryPushStore();
+    const sink = createWorkerSink(w.base, "t", store);
+    await sink.writeMerged(merged([card()]));
+
+    w.version = 42; // someone else changed the list
+    w.calls = [];
+    await sink.writeMerged(merged([card({ participants: 2 })]));
+    expect(w.calls).to.deep.equal(["/admin/list.upsert", "/admin/list.replace"]);
+    expect(store.state.version).to.equal("43");
+    expect(w.list).to.have.length(1);
+  });
+
+  it("Should replace the list when a card disappears", async function () {
+    const store = createMemoryPushStore();
+    const sink = createWorkerSink(w.base, "t", store);
+    const other = card({ address: "0x" + "ab".repeat(20) });
+    await sink.writeMerged(merged([card(), other]));
+
+    w.calls = [];
+    await sink.writeMerged(merged([card()]));
+    expect(w.calls).to.deep.equal(["/admin/list.replace"]);
+    expect(w.list.map((c) => c.address)).to.deep.equal([SURVEY]);
+    expect(Object.keys(store.state.cards)).to.have.length(1);
+  });
+});
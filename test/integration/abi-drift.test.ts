@@ -0,0 +1,35 @@
+// Fails when a contract event (or a function the backend calls) changes
+// without backend/abi following. Hardhat compiles contracts/ before the run.
+// Run with: npm run test:integration
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { Interface, type InterfaceAbi } from "ethers";
+import hre from "hardhat";
+import * as abi from "../../backend/abi";
+import { ABI_CONTRACTS, renderAbiModule } from "../../backend/abi";
+
+const formatted = (iface: Interface, type: "event" | "function") =>
+  iface.fragments
+    .filter((f) => f.type === type)
+    .map((f) => f.format("full"))
+    .sort();
+
+describe("backend ABI drift", function () {
+  for (const c of ABI_CONTRACTS) {
+    it(`Should bind to the compiled ${c.name}`, async function () {
+      const artifact = await hre.artifacts.readArtifact(`${c.source}:${c.name}`);
+      const compiled = new Interface(artifact.abi);
+      const bound = new Interface((abi as Record<string, unknown>)[`${c.id}_ABI`] as InterfaceAbi);
+
+      expect(formatted(bound, "event")).to.deep.equal(formatted(compiled, "event"));
+      expect(formatted(compiled, "function")).to.include.members(formatted(bound, "function"));
+    });
+  }
+
+  it("Should match what abi:generate renders", function () {
+    const root = path.resolve(__dirname, "../..");
+    const current = fs.readFileSync(path.join(root, "backend/abi/generated.ts"), "utf8");
+    expect(current).to.equal(renderAbiModule(root), "run npm run abi:generate");
+  });
+});
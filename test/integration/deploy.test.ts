@@ -0,0 +1,82 @@
+// scripts/deploy.ts against the Hardhat network, and the indexer config it feeds.
+// Run with: npm run test:integration
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre from "hardhat";
+import {
+  abiHash,
+  FACTORY_CONTRACT,
+  GATE_CONTRACT,
+  readRegistry,
+  registryFile,
+} from "../../backend/registry";
+import { configFromEnv } from "../../backend/indexer";
+import { deploySuite } from "../../scripts/deploy";
+
+describe("deploy pipeline", function () {
+  let dir: string;
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-deploy-"));
+  });
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should record each deployment as a new registry version", async function () {
+    const opts = { registryDir: dir, confirmations: 1, verify: true, now: 1000 };
+    const first = await deploySuite(hre, opts);
+    const second = await deploySuite(hre, { ...opts, now: 2000 });
+
+    const reg = readRegistry(registryFile(dir, "hardhat"));
+    expect(reg).to.deep.equal(second);
+    expect(reg).to.include({ schema: 1, network: "hardhat", chainId: 31337, current: 2 });
+    expect(reg.versions.map((v) => v.deployedAt)).to.deep.equal([1000, 2000]);
+
+    const v1 = first.versions[0].contracts;
+    const gateAbi = (await hre.artifacts.readArtifact(GATE_CONTRACT)).abi;
+    expect(v1[GATE_CONTRACT]).to.include({ abiHash: abiHash(gateAbi), verified: false });
+    expect(v1[FACTORY_CONTRACT].block).to.be.greaterThan(v1[GATE_CONTRACT].block);
+    const factory = await hre.ethers.getContractAt(FACTORY_CONTRACT, v1[FACTORY_CONTRACT].address);
+    expect(await factory.getSurveysCount()).to.equal(0n);
+  });
+
+  it("Should feed the indexer its factories, start blocks and gates", function () {
+    const reg = readRegistry(registryFile(dir, "hardhat"));
+    const [v1, v2] = reg.versions.map((v) => v.contracts);
+    const config = path.join(dir, "indexer.config.json");
+    fs.writeFileSync(
+      config,
+      JSON.stringify({
+        chains: [{ chainId: 31337, rpc: "http://127.0.0.1:8545", registry: "hardhat.json" }],
+      })
+    );
+
+    const [chain] = configFromEnv({ INDEXER_CONFIG: config }).chains;
+    expect(chain.factories).to.deep.equal([
+      {
+        address: v1[FACTORY_CONTRACT].address.toLowerCase(),
+        startBlock: v1[FACTORY_CONTRACT].block,
+        version: "SurveyFactory@v1",
+      },
+      {
+        address: v2[FACTORY_CONTRACT].address.toLowerCase(),
+        startBlock: v2[FACTORY_CONTRACT].block,
+        version: "SurveyFactory@v2",
+      },
+    ]);
+    // the current gate is the default gate hint
+    expect(chain.gates).to.deep.equal([
+      v2[GATE_CONTRACT].address.toLowerCase(),
+      v1[GATE_CONTRACT].address.toLowerCase(),
+    ]);
+
+    const env = configFromEnv({ DEPLOYMENT_REGISTRY: registryFile(dir, "hardhat") }).chains[0];
+    expect(env).to.include({ chainId: 31337 });
+    expect(env.factories).to.deep.equal(chain.factories);
+    expect(() =>
+      configFromEnv({ DEPLOYMENT_REGISTRY: registryFile(dir, "hardhat"), CHAIN_ID: "1" })
+    ).to.throw(/registry of chain 31337, not 1/);
+  });
+});
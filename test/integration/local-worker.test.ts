@@ -0,0 +1,243 @@
+// Full indexer against a Hardhat node and the local Worker.
+// Run with: npm run test:integration
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  JsonRpcProvider,
+  ZeroHash,
+  type ContractTransactionReceipt,
+} from "ethers";
+import hre from "hardhat";
+import { TASK_NODE_CREATE_SERVER } from "hardhat/builtin-tasks/task-names";
+import type { JsonRpcServer } from "hardhat/types";
+import {
+  canonicalHash,
+  configFromEnv,
+  createChainSource,
+  createIndexerDeps,
+  createWorkerClient,
+  runAllChains,
+  SurveyCard,
+} from "../../backend/indexer";
+import {
+  exportRespondents,
+  readSurveyResults,
+  resultsHash,
+} from "../../backend/results";
+import { LocalWorker, startLocalWorker } from "../../backend/worker";
+
+const TOKEN = "local-admin-token";
+
+describe("local Worker", function () {
+  this.timeout(60_000);
+
+  let dataDir: string;
+  let outDir: string;
+  let worker: LocalWorker;
+  let node: JsonRpcServer;
+  let rpcUrl: string;
+
+  before(async function () {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-worker-"));
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-out-"));
+    worker = await startLocalWorker({ dataDir, adminToken: TOKEN, port: 0 });
+    node = await hre.run(TASK_NODE_CREATE_SERVER, {
+      hostname: "127.0.0.1",
+      port: 0,
+      provider: hre.network.provider,
+    });
+    const { port } = await node.listen();
+    rpcUrl = `http://127.0.0.1:${port}`;
+  });
+
+  after(async function () {
+    await node?.close();
+    await worker?.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  const get = (p: string) => fetch(`${worker.url}${p}`);
+  const listOnWorker = async (): Promise<SurveyCard[]> =>
+    (await get("/surveys.list.json")).json();
+  const versionOnDisk = () =>
+    JSON.parse(fs.readFileSync(path.join(dataDir, "surveys.list.json"), "utf8"))
+      .version;
+
+  describe("routes", function () {
+    it("Should reject admin calls without the Bearer token", async function () {
+      const post = (auth?: string) =>
+        fetch(`${worker.url}/admin/list.replace`, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            ...(auth ? { authorization: auth } : {}),
+          },
+          body: "[]",
+        });
+      expect((await post()).status).to.equal(401);
+      expect((await post("Bearer nope")).status).to.equal(401);
+      expect((await post(`Bearer ${TOKEN}`)).status).to.equal(200);
+    });
+
+    it("Should store meta on disk and serve it back", async function () {
+      const survey = "0x" + "ab".repeat(20);
+      const client = createWorkerClient(worker.url, TOKEN);
+      await client.putMeta(31337, survey, { title: "Stored" });
+
+      expect((await get(`/meta/31337/${survey}.json`)).status).to.equal(200);
+      expect(
+        fs.existsSync(path.join(dataDir, "meta", "31337", `${survey}.json`))
+      ).to.equal(true);
+      expect((await get(`/meta/1/${survey}.json`)).status).to.equal(404);
+    });
+  });
+
+  describe("indexer against a Hardhat node", function () {
+    const meta = { title: "Local survey", summary: "offline", plannedReward: "0" };
+    let factoryAddr: string;
+    let surveyAddr: string;
+
+    const runOnce = () =>
+      runAllChains(
+        createIndexerDeps(
+          configFromEnv({
+            FACTORY_ADDRESS: factoryAddr,
+            CHAIN_ID: "31337",
+            CHAIN_NAME: "Hardhat",
+            SCROLL_RPC: rpcUrl,
+            MIN_CONF: "0",
+            OUTPUT_DIR: outDir,
+            API_BASE: worker.url,
+            ADMIN_TOKEN: TOKEN,
+            RPC_RETRIES: "1",
+            RPC_BACKOFF_MS: "0",
+          })
+        )
+      );
+
+    before(async function () {
+      const [creator] = await hre.ethers.getSigners();
+      const factory = await hre.ethers.deployContract("SurveyFactory");
+      factoryAddr = await factory.getAddress();
+
+      const now = (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+      const tx = await factory.createSurvey(
+        0,
+        now + 100,
+        now + 3600,
+        canonicalHash(meta),
+        0
+      );
+      const rc: ContractTransactionReceipt = await tx.wait();
+      const log = rc.logs
+        .map((l) => factory.interface.parseLog(l))
+        .find((p) => p?.name === "SurveyDeployed")!;
+      surveyAddr = String(log.args.survey).toLowerCase();
+
+      const survey = await hre.ethers.getContractAt("Survey", surveyAddr, creator);
+      await (await survey.addQuestion("Ready?", ["yes", "no"], 0)).wait();
+      await createWorkerClient(worker.url, TOKEN).putMeta(31337, surveyAddr, meta);
+
+      await hre.network.provider.send("evm_increaseTime", [200]);
+      await hre.network.provider.send("evm_mine");
+    });
+
+    async function vote(i: number) {
+      const voter = (await hre.ethers.getSigners())[i];
+      const survey = await hre.ethers.getContractAt("Survey", surveyAddr, voter);
+      await (await survey.vote([[0]])).wait();
+    }
+
+    it("Should index the survey and publish it to the Worker", async function () {
+      await vote(1);
+      const out = await runOnce();
+
+      const head = await hre.ethers.provider.getBlockNumber();
+      expect(out.chains[0].state.lastBlock).to.equal(head);
+      expect(fs.existsSync(path.join(outDir, "31337", "state.json"))).to.equal(true);
+
+      const list = await listOnWorker();
+      expect(list).to.have.length(1);
+      expect(list[0]).to.include({
+        address: surveyAddr,
+        chainId: 31337,
+        participants: 1,
+        metaValid: true,
+        title: "Local survey",
+      });
+      expect(list[0].questions).to.deep.equal([{ index: 0, text: "Ready?" }]);
+    });
+
+    it("Should push nothing when nothing changed", async function () {
+      const before = versionOnDisk();
+      await runOnce();
+      expect(versionOnDisk()).to.equal(before);
+    });
+
+    it("Should upsert just the changed card after a new vote", async function () {
+      const before = versionOnDisk();
+      await vote(2);
+      await runOnce();
+
+      expect(versionOnDisk()).to.equal(before + 1);
+      expect((await listOnWorker())[0].participants).to.equal(2);
+    });
+
+    it("Should keep its data across restarts", async function () {
+      await worker.close();
+      worker = await startLocalWorker({ dataDir, adminToken: TOKEN, port: 0 });
+
+      expect(await listOnWorker()).to.have.length(1);
+      const res = await get(`/meta/31337/${surveyAddr}.json`);
+      expect(await res.json()).to.deep.equal(meta);
+    });
+
+    it("Should verify the resultsHash computed before finalize", async function () {
+      await hre.network.provider.send("evm_increaseTime", [3600]);
+      await hre.network.provider.send("evm_mine");
+      const results = await readSurveyResults(
+        (to, data) => hre.ethers.provider.call({ to, data }),
+        surveyAddr,
+        31337
+      );
+      expect(results.questions[0].options.map((o) => o.votes)).to.deep.equal(["2", "0"]);
+
+      const [creator] = await hre.ethers.getSigners();
+      const survey = await hre.ethers.getContractAt("Survey", surveyAddr, creator);
+      await (
+        await survey["finalize(bytes32,bytes32)"](ZeroHash, resultsHash(results))
+      ).wait();
+      await runOnce();
+
+      expect((await listOnWorker())[0]).to.include({ resultsVerified: true });
+    });
+
+    it("Should export each respondent's answers", async function () {
+      const provider = new JsonRpcProvider(rpcUrl, 31337, { staticNetwork: true });
+      const outBase = path.join(outDir, "export", "survey");
+      try {
+        const res = await exportRespondents(createChainSource(provider), {
+          survey: surveyAddr,
+          chainId: 31337,
+          outBase,
+          fromBlock: 0,
+        });
+        expect(res).to.include({ rows: 2, done: true });
+      } finally {
+        provider.destroy();
+      }
+      const voters = (await hre.ethers.getSigners()).slice(1, 3);
+      const rows = fs
+        .readFileSync(`${outBase}.ndjson`, "utf8")
+        .trim()
+        .split("\n")
+        .map((l) => JSON.parse(l));
+      expect(rows.map((r) => [r.respondent, r["q0.o0"], r["q0.o1"]])).to.deep.equal(
+        voters.map((v) => [v.address.toLowerCase(), 1, 0])
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+// DScopeClient against the Hardhat network and the local Worker.
+// Run with: npm run test:integration
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { NonceManager, parseEther } from "ethers";
+import hre from "hardhat";
+import { canonicalHash, SurveyMeta } from "../../backend/indexer";
+import { checkResults } from "../../backend/results";
+import { createDScopeClient, DScopeClient, SelectionType } from "../../backend/sdk";
+import { LocalWorker, startLocalWorker } from "../../backend/worker";
+
+const TOKEN = "sdk-admin-token";
+
+describe("DScopeClient", function () {
+  this.timeout(60_000);
+
+  let dataDir: string;
+  let worker: LocalWorker;
+  let factory: string;
+  let creator: DScopeClient;
+
+  const meta: SurveyMeta = {
+    title: "SDK survey",
+    plannedReward: "0.01",
+    questions: [
+      { text: "One?", options: ["a", "b"], selectionType: SelectionType.SINGLE },
+      { text: "Many?", options: ["x", "y", "z"], selectionType: SelectionType.MULTIPLE },
+      { text: "Three?", options: ["yes", "no"] },
+    ],
+  };
+  const latest = async () => (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+  const increaseTime = async (s: number) => {
+    await hre.network.provider.send("evm_increaseTime", [s]);
+    await hre.network.provider.send("evm_mine");
+  };
+  const failure = (p: Promise<unknown>) =>
+    p.then(
+      () => "resolved",
+      (e: Error) => e.message
+    );
+  const clientFor = async (i: number) =>
+    createDScopeClient({ signer: (await hre.ethers.getSigners())[i], factory });
+
+  before(async function () {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-sdk-"));
+    worker = await startLocalWorker({ dataDir, adminToken: TOKEN, port: 0 });
+    const f = await hre.ethers.deployContract("SurveyFactory");
+    factory = await f.getAddress();
+    creator = createDScopeClient({
+      signer: (await hre.ethers.getSigners())[0],
+      factory,
+      worker: { apiBase: worker.url, adminToken: TOKEN },
+      questionBatch: 2,
+    });
+  });
+
+  after(async function () {
+    await worker?.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("Should run a survey end to end", async function () {
+    const start = (await latest()) + 100;
+    const created = await creator.createSurvey({
+      meta,
+      startTime: start,
+      endTime: start + 1000,
+      value: parseEther("0.01"),
+    });
+    expect(created.metaHash).to.equal(canonicalHash(meta));
+    expect(created.questionReceipts).to.have.length(3);
+    expect(created.metaUploaded).to.equal(true);
+    const stored = await fetch(`${worker.url}/meta/31337/${created.address}.json`);
+    expect(await stored.json()).to.deep.equal(meta);
+
+    const survey = await hre.ethers.getContractAt("Survey", created.address);
+    expect(await survey.metaHash()).to.equal(created.metaHash);
+    expect(await survey.getQuestionsCount()).to.equal(3n);
+    expect((await survey.getQuestion(2))[0]).to.equal("Three?");
+
+    await increaseTime(100);
+    await (await clientFor(1)).vote(created.address, [[1], [0, 2], [0]]);
+    await (await clientFor(2)).vote(created.address, [[1], [2], [1]]);
+    await increaseTime(1000);
+
+    const claimOpenAt = (await latest()) + 10;
+    const fin = await creator.finalize(created.address, {
+      claimOpenAt,
+      claimDeadline: claimOpenAt + 100,
+    });
+    expect(fin.results.participants).to.equal("2");
+    expect(fin.results.questions[1].options.map((o) => o.votes)).to.deep.equal(["1", "0", "2"]);
+    expect(await survey.resultsHash()).to.equal(fin.resultsHash);
+    expect(await survey.claimOpenAt()).to.equal(BigInt(claimOpenAt));
+    const tally = await creator.readResults(created.address);
+    expect(checkResults(tally, fin.resultsHash).verified).to.equal(true);
+
+    await creator.fundPrize(created.address, 5n);
+    expect(await creator.prizeBalance(created.address)).to.equal(parseEther("0.01") + 5n);
+    const to = (await hre.ethers.getSigners())[3].address;
+    const before = await hre.ethers.provider.getBalance(to);
+    await creator.sweepPrize(created.address, to);
+    expect(await hre.ethers.provider.getBalance(to)).to.equal(before + parseEther("0.01") + 5n);
+  });
+
+  it("Should create a gated survey that only takes voteWithGate", async function () {
+    const gate = await hre.ethers.deployContract("ZkPassEligibilityGate");
+    const start = (await latest()) + 100;
+    const created = await creator.createSurvey({
+      meta: { title: "Gated", questions: [{ text: "Q", options: ["a"] }] },
+      startTime: start,
+      endTime: start + 1000,
+      gate: await gate.getAddress(),
+      uploadMeta: false,
+    });
+    expect(created.metaUploaded).to.equal(false);
+    await increaseTime(100);
+
+    const voter = await clientFor(1);
+    expect(await failure(voter.vote(created.address, [[0]]))).to.include("GATED_SURVEY");
+    expect(await failure(voter.voteWithGate(created.address, [[0]]))).to.include("Not eligible");
+  });
+
+  it("Should add questions through a signer that manages its own nonces", async function () {
+    const managed = createDScopeClient({
+      signer: new NonceManager((await hre.ethers.getSigners())[4]),
+      factory,
+      questionBatch: 2,
+    });
+    const start = (await latest()) + 100;
+    const created = await managed.createSurvey({ meta, startTime: start, endTime: start + 1000 });
+    expect(created.questionReceipts.map((r) => r.status)).to.deep.equal([1, 1, 1]);
+    const survey = await hre.ethers.getContractAt("Survey", created.address);
+    expect(await survey.getQuestionsCount()).to.equal(3n);
+  });
+
+  it("Should refuse invalid meta and a start time that has passed", async function () {
+    const now = await latest();
+    expect(
+      await failure(
+        creator.createSurvey({ meta: { title: "" }, startTime: now + 100, endTime: now + 200 })
+      )
+    ).to.equal("Invalid survey meta: title: must not be empty");
+    expect(
+      await failure(creator.createSurvey({ meta, startTime: now - 1, endTime: now + 200 }))
+    ).to.match(/startTime has passed/);
+  });
+});
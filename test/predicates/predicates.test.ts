@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import {
+  evaluatePredicates,
+  flattenConjunction,
+  parsePredicates,
+  PredicateRule,
+} from "../../backend/predicates";
+
+describe("predicates", function () {
+  describe("parsePredicates", function () {
+    it("Should read the legacy object format as an AND", function () {
+      const { rule, rejected } = parsePredicates({
+        age: { gte: "18", between: [18, 65] },
+        country: { not_in: ["RU"] },
+        human: true,
+      });
+      expect(rejected).to.deep.equal([]);
+      expect(flattenConjunction(rule)).to.deep.equal([
+        { key: "age", op: ">=", value: 18 },
+        { key: "age", op: "between", value: [18, 65] },
+        { key: "country", op: "not_in", value: ["RU"] },
+        { key: "human", op: "==", value: true },
+      ]);
+    });
+
+    it("Should accept v2 rules with AND/OR/NOT", function () {
+      const raw = {
+        version: 2,
+        rule: {
+          all: [
+            { key: "human", op: "==", value: true },
+            {
+              any: [
+                { key: "country", op: "in", value: ["DE", "FR"] },
+                { not: { key: "age", op: "<", value: 30 } },
+              ],
+            },
+          ],
+        },
+      };
+      const { rule, rejected } = parsePredicates(raw);
+      expect(rejected).to.deep.equal([]);
+      expect(rule).to.deep.equal(raw);
+      expect(flattenConjunction(rule)).to.equal(null);
+    });
+
+    it("Should report each rejected clause with a reason", function () {
+      const { rule, rejected } = parsePredicates({
+        version: 2,
+        rule: {
+          all: [
+            { key: "age", op: ">=", value: 18 },
+            { key: "shoe_size", op: "==", value: 42 },
+            { key: "human", op: ">", value: true },
+            { key: "age", op: "between", value: [65, 18] },
+            { any: [] },
+          ],
+        },
+      });
+      expect(rejected.map((r) => [r.path, r.reason])).to.deep.equal([
+        ["rule.all[1]", 'unknown attribute "shoe_size"'],
+        ["rule.all[2]", 'operator ">" is not supported for boolean "human"'],
+        ["rule.all[3]", "empty range [65, 18]"],
+        ["rule.all[4].any", '"any" needs at least one alternative'],
+      ]);
+      // the surviving clauses are kept for display, but the rule is invalid
+      expect(rule).to.deep.equal({
+        version: 2,
+        rule: { all: [{ key: "age", op: ">=", value: 18 }] },
+        rejected,
+      });
+      expect(flattenConjunction(rule)).to.equal(null);
+
+      expect(parsePredicates({ age: { roughly: 30 } }).rejected[0]).to.include({
+        path: "age.roughly",
+        reason: 'unknown operator "roughly"',
+      });
+      expect(parsePredicates({ version: 3, rule: {} }).rule).to.include({
+        version: 2,
+      }).and.to.have.property("rejected").with.length(1);
+    });
+  });
+
+  describe("evaluatePredicates", function () {
+    const rule = parsePredicates({
+      version: 2,
+      rule: {
+        all: [
+          { key: "age", op: "between", value: [18, 65] },
+          {
+            any: [
+              { key: "country", op: "in", value: ["DE", "FR"] },
+              { key: "human", op: "==", value: true },
+            ],
+          },
+          { not: { key: "region", op: "==", value: "EU-EAST" } },
+        ],
+      },
+    }).rule as PredicateRule;
+
+    it("Should accept matching attributes", function () {
+      expect(
+        evaluatePredicates(rule, { age: 30, country: "de", region: "eu-west" })
+      ).to.deep.equal({ eligible: true, failures: [] });
+      expect(evaluatePredicates(null, {}).eligible).to.equal(true);
+    });
+
+    it("Should explain why a respondent is not eligible", function () {
+      const { eligible, failures } = evaluatePredicates(rule, {
+        age: 17,
+        country: "US",
+        region: "eu-east",
+      });
+      expect(eligible).to.equal(false);
+      expect(failures.map((f) => [f.path, f.reason])).to.deep.equal([
+        ["rule.all[0]", "age must be between 18 and 65 (is 17)"],
+        ["rule.all[1]", "none of the alternatives is met"],
+        ["rule.all[1].any[0]", "country must be one of DE, FR (is US)"],
+        ["rule.all[1].any[1]", "human is not provided"],
+        ["rule.all[2]", "must not match region == EU-EAST"],
+      ]);
+    });
+
+    it("Should fail a missing attribute under NOT instead of inverting it", function () {
+      const notRU: PredicateRule = {
+        version: 2,
+        rule: { not: { key: "country", op: "in", value: ["RU"] } },
+      };
+      const { eligible, failures } = evaluatePredicates(notRU, {});
+      expect(eligible).to.equal(false);
+      expect(failures.map((f) => [f.path, f.reason])).to.deep.equal([
+        ["rule.not", "country is not provided"],
+      ]);
+      expect(evaluatePredicates(notRU, { country: "DE" }).eligible).to.equal(true);
+    });
+
+    it("Should fail a missing attribute under NOT inside OR", function () {
+      const rule: PredicateRule = {
+        version: 2,
+        rule: {
+          any: [
+            { not: { key: "country", op: "in", value: ["RU"] } },
+            { key: "age", op: ">=", value: 21 },
+          ],
+        },
+      };
+      const { eligible, failures } = evaluatePredicates(rule, { age: 18 });
+      expect(eligible).to.equal(false);
+      expect(failures.map((f) => [f.path, f.reason])).to.deep.equal([
+        ["rule", "none of the alternatives is met"],
+        ["rule.any[0].not", "country is not provided"],
+        ["rule.any[1]", "age must be at least 21 (is 18)"],
+      ]);
+      expect(evaluatePredicates(rule, { age: 30 }).eligible).to.equal(true);
+      expect(evaluatePredicates(rule, { age: 18, country: "DE" }).eligible).to.equal(true);
+    });
+
+    it("Should refuse everyone under a rule with rejected clauses", function () {
+      for (const raw of [
+        { version: 2, rule: { not: { key: "country", op: ">", value: "DE" } } },
+        { version: 2, rule: { all: [{ key: "age", op: ">=", value: 18 }, { key: "iq" }] } },
+        { version: 3, rule: {} },
+      ]) {
+        const parsed = parsePredicates(raw);
+        const { eligible, failures } = evaluatePredicates(parsed.rule, { age: 30, country: "DE" });
+        expect(eligible).to.equal(false);
+        expect(failures.map((f) => f.path)).to.deep.equal(parsed.rejected.map((r) => r.path));
+        expect(failures[0].reason).to.match(/^the rule is invalid: /);
+      }
+    });
+
+    it("Should evaluate a v1 list of leaves as an AND", function () {
+      const { failures } = evaluatePredicates(
+        [{ key: "country", op: "not_in", value: ["RU"] }],
+        { country: "ru" }
+      );
+      expect(failures[0].reason).to.equal("country must not be one of RU (is ru)");
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Interface, getAddress } from "ethers";
+import { SURVEY_ABI } from "../../backend/abi";
+import { ChainLog, ChainProvider, createChainSource } from "../../backend/indexer";
+import { exportRespondents } from "../../backend/results";
+
+const SURVEY = "0x1111111111111111111111111111111111111111";
+const iface = new Interface(SURVEY_ABI);
+
+const questions = [
+  { text: "Ready?", options: ["yes", "no"], selectionType: 0 },
+  { text: "Pick any", options: ["a", "b", "c"], selectionType: 1 },
+];
+// respondent i voted at block 10 + i
+const voters = ["0xaa", "0xbb", "0xcc", "0xdd", "0xee"].map((p) =>
+  getAddress(p.padEnd(42, "0"))
+);
+const answers: Record<string, number[][]> = {
+  [voters[0]]: [[0], [0, 2]],
+  [voters[1]]: [[1], [1]],
+  [voters[2]]: [[0], [2]],
+  [voters[3]]: [[1], [0, 1, 2]],
+  [voters[4]]: [[0], [1]],
+};
+
+function fakeSurvey(onCall: () => void = () => {}): ChainProvider {
+  return {
+    getBlockNumber: async () => 20,
+    getBlock: async () => null,
+    getTransaction: async () => null,
+    getTransactionReceipt: async () => null,
+    async getLogs({ fromBlock, toBlock }) {
+      const { data, topics } = iface.encodeEventLog(iface.getEvent("Voted")!, [voters[0]]);
+      return voters
+        .map((v, i): ChainLog => ({
+          address: SURVEY,
+          data,
+          topics: [topics[0], "0x" + v.slice(2).toLowerCase().padStart(64, "0")],
+          blockNumber: 10 + i,
+          index: 0,
+          transactionHash: "0x" + "0".repeat(64),
+        }))
+        .filter((l) => l.blockNumber >= fromBlock && l.blockNumber <= toBlock);
+    },
+    async call({ data }) {
+      onCall();
+      const fn = iface.parseTransaction({ data })!;
+      const arg = (i: number) => fn.args[i];
+      const out: Record<string, () => unknown[]> = {
+        getQuestionsCount: () => [questions.length],
+        getQuestion: () => {
+          const q = questions[Number(arg(0))];
+          return [q.text, q.options, q.selectionType];
+        },
+        getParticipantsCount: () => [voters.length],
+        participants: () => [voters[Number(arg(0))]],
+        getParticipantResponse: () => [answers[getAddress(arg(0))][Number(arg(1))]],
+      };
+      return iface.encodeFunctionResult(fn.name, out[fn.name]());
+    },
+  };
+}
+
+describe("exportRespondents", function () {
+  let dir: string;
+  let outBase: string;
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dscope-export-"));
+    outBase = path.join(dir, "out", "survey");
+  });
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const read = (ext: string) => fs.readFileSync(`${outBase}.${ext}`, "utf8");
+
+  it("Should write one row per respondent and one column per option", async function () {
+    const source = createChainSource(fakeSurvey());
+    const res = await exportRespondents(source, { survey: SURVEY, chainId: 1, outBase });
+
+    expect(res).to.include({ rows: 5, done: true, resumed: false });
+    const lines = read("csv").trim().split("\n");
+    expect(lines[0]).to.equal("index,respondent,block,q0.o0,q0.o1,q1.o0,q1.o1,q1.o2");
+    expect(lines[1]).to.equal(`0,${voters[0].toLowerCase()},,1,0,1,0,1`);
+    expect(lines).to.have.length(6);
+
+    const rows = read("ndjson").trim().split("\n").map((l) => JSON.parse(l));
+    expect(rows[3]).to.deep.include({ index: 3, block: null, "q1.o0": 1, "q1.o1": 1 });
+    expect(JSON.parse(read("questions.json")).questions[1].options).to.deep.equal([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(fs.existsSync(`${outBase}.progress.json`)).to.equal(false);
+  });
+
+  it("Should keep only respondents who voted inside the block range", async function () {
+    const source = createChainSource(fakeSurvey());
+    await exportRespondents(source, {
+      survey: SURVEY,
+      chainId: 1,
+      outBase,
+      fromBlock: 11,
+      toBlock: 12,
+    });
+    const rows = read("ndjson").trim().split("\n").map((l) => JSON.parse(l));
+    expect(rows.map((r) => [r.respondent, r.block])).to.deep.equal([
+      [voters[1].toLowerCase(), 11],
+      [voters[2].toLowerCase(), 12],
+    ]);
+  });
+
+  it("Should resume an interrupted export without duplicating rows", async function () {
+    const stop = new AbortController();
+    let calls = 0;
+    // 2 questions per respondent, 2 respondents per batch of 4 calls
+    const first = await exportRespondents(
+      createChainSource(fakeSurvey(() => ++calls === 10 && stop.abort())),
+      { survey: SURVEY, chainId: 1, outBase, batchSize: 4, signal: stop.signal }
+    );
+    expect(first.done).to.equal(false);
+    expect(first.rows).to.equal(2);
+
+    // a batch written after the last progress save is dropped on resume
+    fs.appendFileSync(`${outBase}.csv`, "garbage\n");
+    const second = await exportRespondents(createChainSource(fakeSurvey()), {
+      survey: SURVEY,
+      chainId: 1,
+      outBase,
+      batchSize: 4,
+    });
+    expect(second).to.include({ rows: 5, done: true, resumed: true });
+    const indexes = read("csv")
+      .trim()
+      .split("\n")
+      .slice(1)
+      .map((l) => l.split(",")[0]);
+    expect(indexes).to.deep.equal(["0", "1", "2", "3", "4"]);
+
+    fs.writeFileSync(`${outBase}.progress.json`, JSON.stringify({ survey: "0x0" }));
+    try {
+      await exportRespondents(createChainSource(fakeSurvey()), { survey: SURVEY, chainId: 1, outBase });
+      expect.fail("should refuse a foreign progress file");
+    } catch (e) {
+      expect((e as Error).message).to.match(/belongs to a different export/);
+    }
+  });
+});
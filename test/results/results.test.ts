@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import { Interface, keccak256, toUtf8Bytes } from "ethers";
+import { SURVEY_ABI } from "../../backend/abi";
+import { canonicalize } from "../../backend/indexer";
+import {
+  buildResults,
+  checkResults,
+  readSurveyResults,
+  resultsHash,
+  ViewCall,
+} from "../../backend/results";
+
+const SURVEY = "0x1111111111111111111111111111111111111111";
+
+describe("results", function () {
+  const questions = [
+    { text: "Ready?", options: ["yes", "no"], selectionType: 0, votes: [2, 1] },
+    { text: "Pick any", options: ["a", "b", "c"], selectionType: 1n, votes: [3n, 0n, 1n] },
+  ];
+
+  it("Should build the canonical document and hash it like metaHash", function () {
+    const doc = buildResults({
+      chainId: 534351,
+      survey: SURVEY.toUpperCase().replace("0X", "0x"),
+      participants: 3n,
+      questions,
+    });
+    expect(doc).to.deep.equal({
+      version: 1,
+      chainId: 534351,
+      survey: SURVEY,
+      participants: "3",
+      questions: [
+        {
+          index: 0,
+          text: "Ready?",
+          selectionType: 0,
+          options: [
+            { index: 0, text: "yes", votes: "2" },
+            { index: 1, text: "no", votes: "1" },
+          ],
+        },
+        {
+          index: 1,
+          text: "Pick any",
+          selectionType: 1,
+          options: [
+            { index: 0, text: "a", votes: "3" },
+            { index: 1, text: "b", votes: "0" },
+            { index: 2, text: "c", votes: "1" },
+          ],
+        },
+      ],
+    });
+    expect(resultsHash(doc)).to.equal(keccak256(toUtf8Bytes(canonicalize(doc))));
+    expect(checkResults(doc, resultsHash(doc)).verified).to.equal(true);
+
+    expect(() =>
+      buildResults({
+        chainId: 1,
+        survey: SURVEY,
+        participants: 0,
+        questions: [{ text: "q", options: ["x", "y"], selectionType: 0, votes: [1] }],
+      })
+    ).to.throw("1 vote counts for 2 options");
+  });
+
+  it("Should tally a survey through its view functions", async function () {
+    const iface = new Interface(SURVEY_ABI);
+    const call: ViewCall = async (to, data) => {
+      expect(to).to.equal(SURVEY);
+      const fn = iface.parseTransaction({ data })!;
+      const q = questions[fn.args.length ? Number(fn.args[0]) : 0];
+      const out: Record<string, unknown[]> = {
+        getQuestionsCount: [questions.length],
+        getParticipantsCount: [3],
+        getQuestion: [q.text, q.options, q.selectionType],
+        getVotes: [q.votes],
+      };
+      return iface.encodeFunctionResult(fn.name, out[fn.name]);
+    };
+    const doc = await readSurveyResults(call, SURVEY, 534351);
+    expect(resultsHash(doc)).to.equal(
+      resultsHash(buildResults({ chainId: 534351, survey: SURVEY, participants: 3, questions }))
+    );
+  });
+});
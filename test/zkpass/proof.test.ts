@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import { concat, getBytes, hexlify, keccak256, toBeHex, toUtf8Bytes, Wallet } from "ethers";
+import {
+  checkProof,
+  createProofFixtures,
+  toBytes32,
+  toProof,
+  type Proof,
+} from "../../backend/zkpass";
+
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const U_HASH = keccak256(toUtf8Bytes("zkpass-user-1"));
+const SCHEMA = "c7eab8b7d7e44b05b41b613fe548edf5";
+
+/** `sig` with its bytes edited: `[offset, bytes]` pairs. */
+function patch(sig: string, ...edits: [number, Uint8Array | number[]][]) {
+  const b = getBytes(sig).slice();
+  for (const [offset, bytes] of edits) b.set(bytes, offset);
+  return hexlify(b);
+}
+
+describe("zkpass", function () {
+  const fx = createProofFixtures();
+  const recipient = Wallet.createRandom().address;
+  const allocator = fx.allocator.address;
+  let proof: Proof;
+  before(async function () {
+    proof = await fx.sign({ uHash: U_HASH, recipient });
+  });
+
+  describe("toProof", function () {
+    it("Should turn TransGate output into the Proof struct", async function () {
+      const taskId = "0f6d2c5ae6b94e8b8f3d6c0b1a2e4f57";
+      const result = await fx.sdkResult({
+        uHash: U_HASH,
+        recipient,
+        taskId: toBytes32(taskId),
+        schemaId: toBytes32(SCHEMA),
+      });
+      const p = toProof({ ...result, taskId }, { schemaId: SCHEMA });
+      expect(p.taskId).to.equal(hexlify(toUtf8Bytes(taskId)));
+      expect(p.schemaId).to.equal(hexlify(toUtf8Bytes(SCHEMA)));
+      expect(p.validator).to.equal(fx.validator.address);
+      expect(checkProof(p, { allocator, caller: recipient })).to.deep.equal([]);
+    });
+
+    it("Should keep 32-byte hex, pad short strings and refuse long ones", function () {
+      expect(toBytes32(U_HASH.toUpperCase().replace("0X", "0x"))).to.equal(U_HASH);
+      expect(toBytes32("ab")).to.equal("0x6162" + "0".repeat(60));
+      expect(() => toBytes32("x".repeat(33), "taskId")).to.throw(/taskId does not fit/);
+    });
+
+    it("Should require a recipient address", async function () {
+      const { recipient: _, ...result } = await fx.sdkResult({ uHash: U_HASH, recipient });
+      expect(() => toProof(result, { schemaId: SCHEMA })).to.throw(/recipient is not an address/);
+      expect(toProof(result, { schemaId: SCHEMA, recipient }).recipient).to.equal(recipient);
+    });
+  });
+
+  describe("checkProof", function () {
+    it("Should accept a proof signed by the allocator and its validator", function () {
+      expect(checkProof(proof, { allocator, caller: recipient })).to.deep.equal([]);
+    });
+
+    it("Should hold proofs to zkPass' allocator by default", function () {
+      const [issue] = checkProof(proof);
+      expect(issue).to.include({ code: "wrong_allocator", revert: "Invalid proof", actual: allocator });
+    });
+
+    it("Should name the failing check, recipient first", function () {
+      const caller = Wallet.createRandom().address;
+      const altered = { ...proof, uHash: keccak256(toUtf8Bytes("zkpass-user-2")) };
+      const issues = checkProof(altered, { allocator, caller });
+      expect(issues.map((i) => [i.code, i.check, i.revert])).to.deep.equal([
+        ["recipient", "recipient", "Recipient must be caller"],
+        ["wrong_validator", "validator", "Invalid proof"],
+      ]);
+      expect(issues[1].expected).to.equal(fx.validator.address);
+    });
+
+    it("Should apply recoverSigner's length, s and v checks", function () {
+      const sig = getBytes(proof.allocatorSignature);
+      const highS = toBeHex(N - BigInt(hexlify(sig.subarray(32, 64))), 32);
+      const cases: [string, string][] = [
+        [hexlify(sig.subarray(0, 64)), "signature_length"],
+        [patch(proof.allocatorSignature, [32, getBytes(highS)], [64, [sig[64] ^ 1]]), "signature_s"],
+        [patch(proof.allocatorSignature, [64, [sig[64] - 27]]), "signature_v"],
+        [concat([new Uint8Array(32), sig.subarray(32)]), "invalid_signer"],
+      ];
+      for (const [allocatorSignature, code] of cases) {
+        const [issue] = checkProof({ ...proof, allocatorSignature }, { allocator });
+        expect(issue).to.include({ code, check: "allocator" });
+      }
+      const [issue] = checkProof({ ...proof, validatorSignature: "0x" }, { allocator });
+      expect(issue).to.include({ check: "validator", revert: "Invalid signature length" });
+    });
+  });
+});